@@ -39,7 +39,7 @@ export class BallShooter extends xb.Script {
       }
     }
 
-    const now = performance.now();
+    const now = this.getTime();
     this.spawnTimes = [];
     for (let i = 0; i < numBalls; ++i) {
       this.spawnTimes[i] = now;
@@ -49,6 +49,7 @@ export class BallShooter extends xb.Script {
     this.rigidBodies = [];
     this.colliders = [];
     this.colliderHandleToIndex = new Map();
+    this.ballPosition = new THREE.Vector3();
     this.viewSpacePosition = new THREE.Vector3();
     this.clipSpacePosition = new THREE.Vector3();
     this.projectedPosition = new THREE.Vector3();
@@ -57,18 +58,18 @@ export class BallShooter extends xb.Script {
 
   initPhysics(physics) {
     this.setupPhysics({
-      RAPIER: physics.RAPIER,
-      blendedWorld: physics.blendedWorld,
+      physics,
       colliderActiveEvents: physics.RAPIER.ActiveEvents.CONTACT_FORCE_EVENTS,
     });
   }
 
   setupPhysics({
-    RAPIER,
-    blendedWorld,
+    physics,
     colliderActiveEvents = 0,
     continuousCollisionDetection = false,
   }) {
+    const {RAPIER, blendedWorld} = physics;
+    this.physics = physics;
     for (let i = 0; i < this.spheres.length; ++i) {
       const position = this.spheres[i].position;
       const desc = RAPIER.RigidBodyDesc.dynamic()
@@ -82,20 +83,25 @@ export class BallShooter extends xb.Script {
       this.colliderHandleToIndex.set(collider.handle, i);
       this.rigidBodies.push(body);
       this.colliders.push(collider);
+      // Physics moves the balls, interpolated between physics steps.
+      physics.addInterpolatedObject(this.spheres[i], body);
     }
   }
 
+  /**
+   * @returns {number} The elapsed time of the clock in milliseconds.
+   */
+  getTime() {
+    return xb.core.timer.getElapsed() * 1000;
+  }
+
   /**
    * Spawns a ball at the given location with the given velocity.
    * @param {THREE.Vector3} position Position to place the ball.
    * @param {THREE.Vector3} velocity Velocity of the ball.
    * @param {number} now Time when the ball is spawned.
    */
-  spawnBallAt(
-    position,
-    velocity = new THREE.Vector3(),
-    now = performance.now()
-  ) {
+  spawnBallAt(position, velocity = new THREE.Vector3(), now = this.getTime()) {
     const ball = this.spheres[this.nextBall];
     ball.position.copy(position);
     ball.scale.setScalar(1.0);
@@ -104,13 +110,18 @@ export class BallShooter extends xb.Script {
       const body = this.rigidBodies[this.nextBall];
       body.setTranslation(position);
       body.setLinvel(velocity);
+      // Registering the ball again resets its interpolation, so it does not
+      // sweep from its previous position.
+      this.physics.addInterpolatedObject(ball, body);
     }
     this.spawnTimes[this.nextBall] = now;
     this.nextBall = (this.nextBall + 1) % this.spheres.length;
     this.add(ball);
   }
 
-  physicsStep(now = performance.now()) {
+  physicsStep(event) {
+    // The clock is ahead of the latest physics step by alpha timesteps.
+    const now = this.getTime() - event.alpha * event.timestep * 1000;
     const camera = xb.core.camera;
     for (let i = 0; i < this.spheres.length; i++) {
       const sphere = this.spheres[i];
@@ -119,7 +130,7 @@ export class BallShooter extends xb.Script {
 
       if (this.isBallActive(i)) {
         let ballVisibility = 1.0;
-        const position = sphere.position.copy(body.translation());
+        const position = this.ballPosition.copy(body.translation());
         // If the ball falls behind the depth then adjust the spawnTime to begin
         // expiring the ball.
         const viewSpacePosition = this.viewSpacePosition
@@ -172,14 +183,9 @@ export class BallShooter extends xb.Script {
         if (ballVisibility < 0.001) {
           sphere.material.opacity = 0.0;
           sphere.scale.setScalar(0);
-          position.set(0.0, -1000.0, 0.0);
-          body.setTranslation(position);
           this.removeBall(i);
         }
       }
-
-      sphere.position.copy(body.translation());
-      sphere.quaternion.copy(body.rotation());
     }
   }
 
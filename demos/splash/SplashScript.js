@@ -42,8 +42,7 @@ export class SplashScript extends xb.Script {
   initPhysics(xrPhysics) {
     this.physics = xrPhysics;
     this.ballShooter.setupPhysics({
-      RAPIER: xrPhysics.RAPIER,
-      blendedWorld: xrPhysics.blendedWorld,
+      physics: xrPhysics,
       colliderActiveEvents: xrPhysics.RAPIER.ActiveEvents.CONTACT_FORCE_EVENTS,
       continuousCollisionDetection: true,
     });
@@ -133,7 +132,7 @@ export class SplashScript extends xb.Script {
     }
   }
 
-  physicsStep() {
+  physicsStep(event) {
     const contactPoint = new THREE.Vector3();
     const forceDirection = new THREE.Vector3();
     const ballShooter = this.ballShooter;
@@ -172,7 +171,7 @@ export class SplashScript extends xb.Script {
         ballShooter.removeBall(ballIndex);
       }
     });
-    ballShooter.physicsStep();
+    ballShooter.physicsStep(event);
   }
 
   // Adds hemisphere light for ambient lighting and directional light.
@@ -30,6 +30,8 @@ export default defineConfig(
       languageOptions: {globals: {...globals.browser}},
     },
     {
-      files: ['rollup.config.js', 'docs/docusaurus.config.js'],
+      files: [
+        'rollup.config.js', 'docs/docusaurus.config.js', 'tools/**/*.mjs'
+      ],
       languageOptions: {globals: {...globals.node}}
     });
\ No newline at end of file
@@ -5,6 +5,8 @@ import {AUDIO_CAPTURE_PROCESSOR_CODE} from './AudioCaptureProcessorCode';
 
 const DEFAULT_SCHEDULE_AHEAD_TIME = 1.0;
 
+const logger = xb.getLogger('GeminiManager');
+
 export interface GeminiManagerEventMap extends THREE.Object3DEventMap {
   inputTranscription: {message: string};
   outputTranscription: {message: string};
@@ -33,6 +35,10 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
 
   // Screenshot setInterval identifier
   private screenshotInterval?: ReturnType<typeof setInterval>;
+  private screenshotIntervalMs = 1000;
+
+  // Whether audio and screenshots are held back while the app is paused
+  private paused = false;
 
   // Transcription state
   currentInputText: string = '';
@@ -58,7 +64,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
     model?: string;
   } = {}) {
     if (this.isAIRunning || !this.ai) {
-      console.warn('AI already running or not available');
+      logger.warn('AI already running or not available');
       return;
     }
 
@@ -73,7 +79,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
       this.startScreenshotCapture();
       this.isAIRunning = true;
     } catch (error) {
-      console.error('Failed to start Gemini Live:', error);
+      logger.error('Failed to start Gemini Live:', error);
       this.cleanup();
       throw error;
     }
@@ -94,7 +100,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
       this.currentInputText = '';
       this.currentOutputText = '';
     } catch (error) {
-      console.error('Failed to stop Gemini Live:', error);
+      logger.error('Failed to stop Gemini Live:', error);
     }
   }
 
@@ -127,7 +133,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
       'audio-capture-processor'
     );
     this.processorNode.port.onmessage = (event) => {
-      if (event.data.type === 'audioData' && this.isAIRunning) {
+      if (event.data.type === 'audioData' && this.isAIRunning && !this.paused) {
         this.sendAudioData(event.data.data);
       }
     };
@@ -149,7 +155,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
           this.handleAIMessage(message);
         },
         onerror: (error: ErrorEvent) => {
-          console.error('Live AI error:', error);
+          logger.error('Live AI error:', error);
           reject(error);
         },
         onclose: () => {
@@ -161,11 +167,25 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
     });
   }
 
+  onPause() {
+    this.paused = true;
+    this.stopScreenshotCapture();
+  }
+
+  onResume() {
+    this.paused = false;
+    if (this.isAIRunning) {
+      this.startScreenshotCapture(this.screenshotIntervalMs);
+    }
+  }
+
   startScreenshotCapture(intervalMs: number = 1000) {
     if (this.screenshotInterval) {
-      console.error('Screenshot interval already running');
+      logger.error('Screenshot interval already running');
       return;
     }
+    this.screenshotIntervalMs = intervalMs;
+    if (this.paused) return;
     this.screenshotInterval = setInterval(() => {
       this.captureAndSendScreenshot();
     }, intervalMs);
@@ -186,7 +206,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
         this.sendVideoFrame(base64Data);
       }
     } catch (error) {
-      console.error('Failed to capture screenshot:', error);
+      logger.error('Failed to capture screenshot:', error);
     }
   }
 
@@ -200,7 +220,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
         audio: {data: base64Audio, mimeType: 'audio/pcm;rate=16000'},
       });
     } catch (error) {
-      console.error('Failed to send audio:', error);
+      logger.error('Failed to send audio:', error);
     }
   }
 
@@ -213,8 +233,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
         video: {data: base64Image, mimeType: 'image/jpeg'},
       });
     } catch (error) {
-      console.error('❌ Failed to send video frame:', error);
-      console.error('Error stack:', (error as Error).stack);
+      logger.error('Failed to send video frame:', error);
     }
   }
 
@@ -244,7 +263,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
 
       this.scheduleAudioBuffers();
     } catch (error) {
-      console.error('Error playing audio chunk:', error);
+      logger.error('Error playing audio chunk:', error);
     }
   }
 
@@ -284,11 +303,15 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
     this.queuedSourceNodes.clear();
   }
 
-  cleanup() {
+  stopScreenshotCapture() {
     if (this.screenshotInterval) {
       clearInterval(this.screenshotInterval);
       this.screenshotInterval = undefined;
     }
+  }
+
+  cleanup() {
+    this.stopScreenshotCapture();
 
     // Clear audio queue and stop playback
     this.audioQueue = [];
@@ -337,7 +360,7 @@ export class GeminiManager extends xb.Script<GeminiManagerEventMap> {
               },
             });
           })
-          .catch((error: unknown) => console.error('Tool error:', error));
+          .catch((error: unknown) => logger.error('Tool error:', error));
       }
     }
 
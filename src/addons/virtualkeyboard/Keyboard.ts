@@ -6,6 +6,8 @@
 import * as xb from 'xrblocks';
 import {Grid} from 'xrblocks';
 
+const logger = xb.getLogger('Keyboard');
+
 const COLUMN_WEIGHT = 0.074;
 const ROW_TOP_PADDING = 0.04;
 const COLUMN_LEFT_PADDING = 0.02;
@@ -343,7 +345,7 @@ export class Keyboard extends xb.Script {
   private handleKeyPress(char: string): void {
     this.keyText += char;
     if (this.onTextChanged) this.onTextChanged(this.keyText);
-    console.log('Key pressed. Sentence: ', this.keyText);
+    logger.debug('Key pressed. Sentence:', this.keyText);
 
     if (this.isShifted) {
       this.isShifted = false;
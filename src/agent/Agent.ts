@@ -1,11 +1,13 @@
 import {AI} from '../ai/AI';
-import {GeminiResponse} from '../ai/AITypes';
-import {Gemini} from '../ai/Gemini';
+import {AIResponse} from '../ai/AITypes';
+import {getLogger} from '../logging/Logger';
 
 import {Context} from './Context';
 import {Memory} from './Memory';
 import {Tool} from './Tool';
 
+const logger = getLogger('Agent');
+
 /**
  * Lifecycle callbacks for agent events.
  */
@@ -62,40 +64,53 @@ export class Agent {
 
   /**
    * The main reasoning and action loop of the agent for non-live mode.
-   * It repeatedly builds context, queries the AI, and executes tools
-   * until a final text response is generated.
+   * It repeatedly sends the conversation in memory to the AI and executes
+   * the tools it calls until a final text response is generated.
    */
   private async run(): Promise<string> {
     while (true) {
-      const context = this.contextBuilder.build(this.memory, this.tools);
-
-      const response: GeminiResponse | null = await (
-        this.ai.model as Gemini
-      ).query({type: 'text', text: context}, this.tools);
+      const response: AIResponse = await this.ai.chat({
+        systemInstruction: this.contextBuilder.instruction || undefined,
+        messages: this.contextBuilder.buildMessages(this.memory),
+        tools: this.tools,
+      });
 
-      this.memory.addShortTerm({role: 'ai', content: JSON.stringify(response)});
+      this.memory.addShortTerm({
+        role: 'ai',
+        content: response.text ?? '',
+        toolCalls: response.toolCalls.length ? response.toolCalls : undefined,
+      });
 
-      if (response?.toolCall) {
-        console.log(`Executing tool: ${response.toolCall.name}`);
-        const tool = this.findTool(response.toolCall.name);
+      if (response.toolCalls.length) {
+        for (const toolCall of response.toolCalls) {
+          logger.info(`Executing tool: ${toolCall.name}`);
+          const tool = this.findTool(toolCall.name);
 
-        if (tool) {
-          const result = await tool.execute(response.toolCall.args);
-          this.memory.addShortTerm({
-            role: 'tool',
-            content: JSON.stringify(result),
-          });
-        } else {
-          const errorMsg = `Error: Tool "${response.toolCall.name}" not found.`;
-          console.error(errorMsg);
-          this.memory.addShortTerm({role: 'tool', content: errorMsg});
+          if (tool) {
+            const result = await tool.execute(toolCall.args);
+            this.memory.addShortTerm({
+              role: 'tool',
+              content: JSON.stringify(result),
+              toolCall,
+              result,
+            });
+          } else {
+            const errorMsg = `Error: Tool "${toolCall.name}" not found.`;
+            logger.error(errorMsg);
+            this.memory.addShortTerm({
+              role: 'tool',
+              content: errorMsg,
+              toolCall,
+              result: {success: false, error: errorMsg},
+            });
+          }
         }
-      } else if (response?.text) {
-        console.log(`Final Response: ${response.text}`);
+      } else if (response.text) {
+        logger.info(`Final Response: ${response.text}`);
         return response.text;
       } else {
         const finalResponse = 'The AI did not provide a valid response.';
-        console.error(finalResponse);
+        logger.error(finalResponse);
         return finalResponse;
       }
     }
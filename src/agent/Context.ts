@@ -1,3 +1,5 @@
+import type {AIMessage} from '../ai/AITypes';
+
 import {Memory, MemoryEntry} from './Memory';
 import {Tool} from './Tool';
 
@@ -39,6 +41,41 @@ export class Context {
         }. You should reply to the user or call a tool as needed.`;
   }
 
+  /**
+   * Converts the memory into the turns of a conversation: user messages,
+   * assistant messages with the tools they called, and one tool message with
+   * the output of each call.
+   * @param memory - The agent's memory.
+   * @returns The messages of a request to the AI.
+   */
+  buildMessages(memory: Memory): AIMessage[] {
+    return memory.getShortTerm().map((entry): AIMessage => {
+      switch (entry.role) {
+        case 'user':
+          return {role: 'user', parts: [{type: 'text', text: entry.content}]};
+        case 'ai':
+          return {
+            role: 'assistant',
+            parts: entry.content ? [{type: 'text', text: entry.content}] : [],
+            toolCalls: entry.toolCalls,
+          };
+        case 'tool':
+          // Tool outputs which don't belong to a call are shown to the AI as
+          // text instead.
+          return entry.toolCall
+            ? {
+                role: 'tool',
+                toolCall: entry.toolCall,
+                result: entry.result ?? entry.content,
+              }
+            : {
+                role: 'user',
+                parts: [{type: 'text', text: this.formatEntry(entry)}],
+              };
+      }
+    });
+  }
+
   private formatEntry(entry: MemoryEntry): string {
     switch (entry.role) {
       case 'user':
@@ -1,6 +1,14 @@
+import type {ToolCall} from './Tool';
+
 export interface MemoryEntry {
   role: 'user' | 'ai' | 'tool';
   content: string;
+  /** The tools the AI called in this turn, if the entry is from the AI. */
+  toolCalls?: ToolCall[];
+  /** The call this entry is the output of, if the entry is from a tool. */
+  toolCall?: ToolCall;
+  /** The output of the tool, which `content` is the JSON of. */
+  result?: unknown;
 }
 
 /**
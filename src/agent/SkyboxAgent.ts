@@ -2,12 +2,15 @@ import type * as GoogleGenAITypes from '@google/genai';
 import * as THREE from 'three';
 
 import {AI} from '../ai/AI';
+import {getLogger} from '../logging/Logger';
 import {CoreSound} from '../sound/CoreSound';
 
 import {Agent, AgentLifecycleCallbacks} from './Agent';
 import {GenerateSkyboxTool} from './tools/GenerateSkyboxTool';
 import {ToolResult} from './Tool';
 
+const logger = getLogger('SkyboxAgent');
+
 /**
  * State information for a live session.
  */
@@ -182,7 +185,7 @@ export class SkyboxAgent extends Agent {
     response: GoogleGenAITypes.LiveSendToolResponseParameters
   ) {
     if (!this.validateToolResponse(response)) {
-      console.error('Invalid tool response format:', response);
+      logger.error('Invalid tool response format:', response);
       return;
     }
 
@@ -192,7 +195,7 @@ export class SkyboxAgent extends Agent {
       : [response.functionResponses];
     this.sessionState.toolCallCount += responses.length;
 
-    console.log('Sending tool response:', response);
+    logger.info('Sending tool response:', response);
     this.ai.sendToolResponse(response);
   }
 
@@ -1,6 +1,8 @@
 import * as GoogleGenAITypes from '@google/genai';
 
 export interface ToolCall {
+  /** The ID of the call, used to match its result where models need it. */
+  id?: string;
   name: string;
   args: unknown;
 }
@@ -42,6 +44,32 @@ export type ToolOptions = {
   behavior?: 'BLOCKING' | 'NON_BLOCKING' | GoogleGenAITypes.Behavior;
 };
 
+/**
+ * Converts a tool schema with Gemini's upper case types into JSON Schema, as
+ * used by OpenAI-compatible APIs.
+ * @param schema - The tool schema.
+ * @returns The JSON Schema.
+ */
+export function toJsonSchema(schema: ToolSchema): Record<string, unknown> {
+  const {type, properties, items, ...rest} = schema;
+  const result: Record<string, unknown> = {...rest};
+  if (type) {
+    result.type = type.toLowerCase();
+  }
+  if (properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [
+        key,
+        toJsonSchema(value),
+      ])
+    );
+  }
+  if (items) {
+    result.items = toJsonSchema(items as ToolSchema);
+  }
+  return result;
+}
+
 /**
  * A base class for tools that the agent can use.
  */
@@ -107,4 +135,25 @@ export class Tool {
     }
     return result;
   }
+
+  /**
+   * Returns the declaration of `toJSON()` as a function tool of OpenAI and
+   * OpenAI-compatible APIs.
+   * @returns A function tool definition.
+   */
+  toOpenAITool() {
+    const {name, description, parameters} = this.toJSON();
+    return {
+      type: 'function' as const,
+      function: {
+        name: name!,
+        description,
+        parameters: {
+          type: 'object',
+          properties: {},
+          ...toJsonSchema((parameters ?? {}) as ToolSchema),
+        },
+      },
+    };
+  }
 }
@@ -1,8 +1,11 @@
 import * as THREE from 'three';
 
 import {AI} from '../../ai/AI';
+import {getLogger} from '../../logging/Logger';
 import {Tool, ToolResult} from '../Tool';
 
+const logger = getLogger('GenerateSkyboxTool');
+
 /**
  * A tool that generates a 360-degree equirectangular skybox image
  * based on a given prompt using an AI service.
@@ -37,14 +40,25 @@ export class GenerateSkyboxTool extends Tool {
    */
   override async execute(args: {prompt: string}): Promise<ToolResult<string>> {
     try {
-      const image = await this.ai.generate(
-        'Generate a 360 equirectangular skybox image for the prompt of:' +
-          args.prompt,
-        'image',
-        'Generate a 360 equirectangular skybox image for the prompt'
-      );
+      const image = await this.ai.generate({
+        systemInstruction:
+          'Generate a 360 equirectangular skybox image for the prompt',
+        messages: [
+          {
+            role: 'user',
+            parts: [
+              {
+                type: 'text',
+                text:
+                  'Generate a 360 equirectangular skybox image for the prompt of:' +
+                  args.prompt,
+              },
+            ],
+          },
+        ],
+      });
       if (image) {
-        console.log('Applying texture...');
+        logger.info('Applying texture...');
         this.scene.background = new THREE.TextureLoader().load(image);
         this.scene.background.mapping = THREE.EquirectangularReflectionMapping;
         return {
@@ -60,7 +74,7 @@ export class GenerateSkyboxTool extends Tool {
         };
       }
     } catch (e) {
-      console.error('error:', e);
+      logger.error('error:', e);
       return {
         success: false,
         error:
@@ -1,5 +1,8 @@
+import {getLogger} from '../../logging/Logger';
 import {Tool, ToolResult} from '../Tool';
 
+const logger = getLogger('GetWeatherTool');
+
 export interface GetWeatherArgs {
   latitude: number;
   longitude: number;
@@ -78,7 +81,7 @@ export class GetWeatherTool extends Tool {
         };
       }
     } catch (error) {
-      console.error('Error fetching weather:', error);
+      logger.error('Error fetching weather:', error);
       return {
         success: false,
         error:
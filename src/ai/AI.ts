@@ -1,15 +1,55 @@
 import type * as GoogleGenAITypes from '@google/genai';
 
+import type {Tool, ToolSchema} from '../agent/Tool';
+import {EventBus} from '../core/components/EventBus';
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 import {getUrlParameter} from '../utils/utils';
 
-import {AIOptions, GeminiOptions, OpenAIOptions} from './AIOptions';
-import {GeminiResponse} from './AITypes';
-import {Gemini} from './Gemini';
+import {
+  AIOptions,
+  GeminiOptions,
+  LocalLLMOptions,
+  MockAIOptions,
+  OpenAIOptions,
+} from './AIOptions';
+import {
+  AIRequest,
+  AIResponse,
+  AIStreamEvent,
+  AIUsage,
+  GeminiResponse,
+} from './AITypes';
+import {AIProxy} from './AIProxy';
+import {AIRequestOptions, AIRequestQueue} from './AIRequestQueue';
+import {AICacheMissError, AIResponseCache} from './AIResponseCache';
+import {
+  AIStructuredQueryOptions,
+  AIValidationError,
+  parseJsonResponse,
+  validateSchema,
+} from './AIStructuredOutput';
+import {
+  AIUsageKind,
+  AIUsageTracker,
+  countRealtimeInputMedia,
+  countRequestMedia,
+  toLiveUsage,
+} from './AIUsageTracker';
+import {createQueryRequest, isLiveInput} from './BaseAIModel';
+import {Gemini, GeminiQueryInput} from './Gemini';
+import {LocalLLM} from './LocalLLM';
+import {MockAI} from './MockAI';
 import {OpenAI} from './OpenAI';
 
-export type ModelClass = Gemini | OpenAI;
-export type ModelOptions = GeminiOptions | OpenAIOptions;
+const logger = getLogger('AI');
+
+export type ModelClass = Gemini | OpenAI | LocalLLM | MockAI;
+export type ModelOptions =
+  | GeminiOptions
+  | OpenAIOptions
+  | LocalLLMOptions
+  | MockAIOptions;
 
 export type KeysJson = {
   [key: string]:
@@ -22,6 +62,8 @@ export type KeysJson = {
 const SUPPORTED_MODELS = {
   gemini: Gemini,
   openai: OpenAI,
+  local: LocalLLM,
+  mock: MockAI,
 } as const;
 
 /**
@@ -32,13 +74,19 @@ const SUPPORTED_MODELS = {
  * Features:
  * - Text and multimodal queries
  * - Real-time audio/video AI sessions (Gemini Live)
+ * - Local or self-hosted models through Ollama or OpenAI-compatible servers,
+ *   which don't need an API key
+ * - A mock model which replays scripted fixtures for tests and offline demos
  * - Advanced API key management with multiple sources
- * - Session locking to prevent concurrent operations
+ * - A request queue with priorities, cancellation, timeouts and retries
+ * - An optional response cache in IndexedDB, which can record and replay
+ *   responses
+ * - Usage and cost events of all calls and live sessions, with budgets
  *
  * The URL param and key.json shortcut is only for demonstration and prototyping
  * practice and we strongly suggest not using it for production or deployment
- * purposes. One should set up a proper server to converse with AI servers in
- * deployment.
+ * purposes. In deployment, enable `AIOptions.proxy` to send all requests
+ * through a server which holds the API keys, e.g. `tools/ai-proxy`.
  *
  * API Key Management Features:
  *
@@ -51,12 +99,19 @@ const SUPPORTED_MODELS = {
  *    - Automatically loads if present
  */
 export class AI extends Script {
-  static dependencies = {aiOptions: AIOptions};
+  static dependencies = {aiOptions: AIOptions, eventBus: EventBus};
 
   model?: ModelClass;
-  lock = false;
+  /** Schedules the requests to the model. */
+  queue?: AIRequestQueue;
+  /** Stores responses if `AIOptions.cache` is enabled. */
+  cache?: AIResponseCache;
+  /** Aggregates the usage and cost of calls and enforces budgets. */
+  usageTracker?: AIUsageTracker;
   options!: AIOptions;
   keysCache?: KeysJson; // Cache for loaded keys.json
+  private eventBus?: EventBus;
+  private liveModelName?: string;
 
   /**
    * Load API keys from keys.json file if available
@@ -69,7 +124,7 @@ export class AI extends Script {
       const response = await fetch('./keys.json');
       if (response.ok) {
         this.keysCache = (await response.json()) as KeysJson;
-        console.log('🔑 Loaded keys.json');
+        logger.info('Loaded keys.json');
         return this.keysCache;
       }
     } catch {
@@ -78,14 +133,21 @@ export class AI extends Script {
     return null;
   }
 
-  async init({aiOptions}: {aiOptions: AIOptions}) {
-    this.lock = false;
+  async init({
+    aiOptions,
+    eventBus,
+  }: {
+    aiOptions: AIOptions;
+    eventBus?: EventBus;
+  }) {
     this.options = aiOptions;
+    this.eventBus = eventBus ?? this.eventBus;
 
     if (!aiOptions.enabled) {
-      console.log('AI is disabled in options');
+      logger.info('AI is disabled in options');
       return;
     }
+    this.usageTracker = new AIUsageTracker(aiOptions.usage, this.eventBus);
 
     const modelName = aiOptions.model;
     const ModelClass = SUPPORTED_MODELS[modelName];
@@ -95,29 +157,49 @@ export class AI extends Script {
       if (modelOptions && modelOptions.enabled) {
         await this.initializeModel(ModelClass, modelOptions);
       } else {
-        console.log(`${modelName} is disabled in AI options`);
+        logger.info(`${modelName} is disabled in AI options`);
       }
     } else {
-      console.error(`Unsupported AI model: ${modelName}`);
+      logger.error(`Unsupported AI model: ${modelName}`);
     }
   }
 
   async initializeModel(
-    ModelClass: typeof Gemini | typeof OpenAI,
+    ModelClass: typeof Gemini | typeof OpenAI | typeof LocalLLM | typeof MockAI,
     modelOptions: ModelOptions
   ) {
-    const apiKey = await this.resolveApiKey(modelOptions);
-    if (!apiKey || !this.isValidApiKey(apiKey)) {
-      console.error(`No valid API key found for ${this.options.model}`);
-      return;
+    const proxy = this.options.proxy.enabled
+      ? new AIProxy(this.options.proxy)
+      : undefined;
+    if (ModelClass.requiresApiKey && !proxy) {
+      const apiKey = await this.resolveApiKey(modelOptions);
+      if (!apiKey || !this.isValidApiKey(apiKey)) {
+        logger.error(`No valid API key found for ${this.options.model}`);
+        return;
+      }
+      Object.assign(modelOptions, {apiKey});
     }
-    modelOptions.apiKey = apiKey;
-    this.model = new ModelClass(modelOptions as GeminiOptions & OpenAIOptions);
+    this.model = new ModelClass(
+      modelOptions as GeminiOptions &
+        OpenAIOptions &
+        LocalLLMOptions &
+        MockAIOptions,
+      proxy
+    );
+    const queueOptions = this.options.queue;
+    this.queue = new AIRequestQueue(
+      queueOptions,
+      queueOptions.modelConcurrency[this.options.model] ??
+        queueOptions.concurrency
+    );
+    this.cache = this.options.cache.enabled
+      ? new AIResponseCache(this.options.cache)
+      : undefined;
     try {
       await this.model.init();
-      console.log(`${this.options.model} initialized`);
+      logger.info(`${this.options.model} initialized`);
     } catch (error) {
-      console.error(`Failed to initialize ${this.options.model}:`, error);
+      logger.error(`Failed to initialize ${this.options.model}:`, error);
       this.model = undefined;
     }
   }
@@ -126,7 +208,7 @@ export class AI extends Script {
     const modelName = this.options.model;
 
     // 1. Check options
-    if (modelOptions.apiKey) {
+    if ('apiKey' in modelOptions && modelOptions.apiKey) {
       return modelOptions.apiKey;
     }
 
@@ -137,8 +219,10 @@ export class AI extends Script {
     }
 
     // 3. Check URL parameters for model-specific key
-    const modelKey = getUrlParameter(modelOptions.urlParam);
-    if (modelKey) return modelKey;
+    if ('urlParam' in modelOptions) {
+      const modelKey = getUrlParameter(modelOptions.urlParam);
+      if (modelKey) return modelKey;
+    }
 
     // Temporary fallback to geminiKey64 for teamfood.
     const geminiKey64 = getUrlParameter('geminiKey64');
@@ -159,7 +243,7 @@ export class AI extends Script {
         keyFromFile = keysFromFile[modelName];
       }
       if (keyFromFile) {
-        console.log(`🔑 Using ${modelName} key from keys.json`);
+        logger.info(`Using ${modelName} key from keys.json`);
         return keyFromFile;
       }
     }
@@ -172,19 +256,262 @@ export class AI extends Script {
   }
 
   isAvailable() {
-    return this.model && this.model.isAvailable() && !this.lock;
+    return this.model && this.model.isAvailable();
+  }
+
+  /**
+   * Sends a request to the model, e.g. a conversation with tools or a
+   * request for a JSON response, in the same format for each model.
+   * @param request - The request.
+   * @param options - The priority, signal, timeout and retries of the
+   * request.
+   * @returns The text, tool calls and usage of the response.
+   */
+  async chat(
+    request: AIRequest,
+    options?: AIRequestOptions
+  ): Promise<AIResponse> {
+    const model = this.getAvailableModel();
+    return this.runCached(
+      ['chat', request],
+      (signal) => model.chat(request, signal),
+      options,
+      (response, latency, cached) =>
+        this.recordUsage(
+          'chat',
+          response.usage,
+          countRequestMedia(request),
+          latency,
+          cached
+        )
+    );
+  }
+
+  /**
+   * Streams the response to a request as text deltas and tool calls, ending
+   * with a `finish` event.
+   * @param request - The request.
+   * @param options - The priority, signal, timeout and retries of the
+   * request.
+   */
+  chatStream(
+    request: AIRequest,
+    options?: AIRequestOptions
+  ): AsyncGenerator<AIStreamEvent> {
+    const model = this.getAvailableModel();
+    this.usageTracker?.checkBudget();
+    return this.trackStream(
+      this.queue!.runStream(
+        (signal) => model.chatStream(request, signal),
+        options
+      ),
+      countRequestMedia(request)
+    );
   }
 
   async query(
-    input: {prompt: string},
-    tools?: never[]
+    input: GeminiQueryInput | {prompt: string},
+    tools: Tool[] = [],
+    options?: AIRequestOptions
   ): Promise<GeminiResponse | string | null> {
+    const model = this.getAvailableModel();
+    if (isLiveInput(input)) return {text: null};
+    const request = createQueryRequest(input, tools);
+    return this.runCached(
+      ['query', request],
+      (signal) => model.query(input, tools, signal),
+      options,
+      (response, latency, cached) =>
+        this.recordUsage(
+          'chat',
+          response?.usage,
+          countRequestMedia(request),
+          latency,
+          cached
+        )
+    );
+  }
+
+  /**
+   * Queries the model and streams the response as it is generated, e.g. to
+   * show partial answers in a `TextView` with `pipeStreamToTextView()`.
+   * @param input - The query input.
+   * @param tools - The tools the model may call.
+   * @param options - The priority, signal, timeout and retries of the
+   * request.
+   * @returns An async iterator of text deltas and tool calls.
+   */
+  queryStream(
+    input: GeminiQueryInput | {prompt: string},
+    tools: Tool[] = [],
+    options?: AIRequestOptions
+  ): AsyncGenerator<AIStreamEvent> {
+    const model = this.getAvailableModel();
+    if (isLiveInput(input)) return model.queryStream(input, tools);
+    this.usageTracker?.checkBudget();
+    return this.trackStream(
+      this.queue!.runStream(
+        (signal) => model.queryStream(input, tools, signal),
+        options
+      ),
+      countRequestMedia(createQueryRequest(input, tools))
+    );
+  }
+
+  /**
+   * Queries the model for a JSON response matching a schema, e.g. bounding
+   * boxes of detected objects. The response is validated against the schema
+   * and the model is asked again with the validation errors if it doesn't
+   * match.
+   * @param input - The query input, or a request for conversations and
+   * system instructions.
+   * @param schema - The schema of the response.
+   * @param options - The priority, signal, timeout and retries of the
+   * requests and the number of retries of invalid responses.
+   * @returns The parsed response.
+   * @throws AIValidationError if no response matches the schema.
+   */
+  async queryStructured<T = unknown>(
+    input: GeminiQueryInput | {prompt: string} | AIRequest,
+    schema: ToolSchema,
+    {validationRetries = 2, ...options}: AIStructuredQueryOptions = {}
+  ): Promise<T> {
+    const request =
+      'messages' in input ? {...input} : createQueryRequest(input, []);
+    request.responseSchema = schema;
+    request.messages = [...request.messages];
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.chat(request, options);
+      let errors: string[];
+      try {
+        const value = parseJsonResponse(response.text ?? '');
+        errors = validateSchema(value, schema);
+        if (!errors.length) return value as T;
+      } catch (error) {
+        errors = [`response is not valid JSON: ${(error as Error).message}`];
+      }
+      if (attempt >= validationRetries) {
+        throw new AIValidationError(errors, response.text);
+      }
+      logger.warn(
+        `Retrying structured query with an invalid response: ${errors.join('; ')}`
+      );
+      request.messages.push(
+        {role: 'assistant', parts: [{type: 'text', text: response.text ?? ''}]},
+        {
+          role: 'user',
+          parts: [
+            {
+              type: 'text',
+              text:
+                `Your response does not match the schema: ${errors.join('; ')}. ` +
+                'Respond again with only JSON matching the schema.',
+            },
+          ],
+        }
+      );
+    }
+  }
+
+  /**
+   * Runs a request in the queue, answering it from the response cache if it
+   * is enabled and the request doesn't opt out.
+   * @param key - The normalized request, hashed with the model.
+   * @param request - Sends the request.
+   * @param options - The options of the request.
+   * @param track - Records the usage of the response.
+   */
+  private async runCached<T>(
+    key: unknown,
+    request: (signal: AbortSignal) => Promise<T>,
+    options: AIRequestOptions | undefined,
+    track: (response: T, latency: number, cached: boolean) => void
+  ): Promise<T> {
+    const start = performance.now();
+    const cacheKey =
+      this.cache && options?.cache !== false
+        ? await this.cache.createKey([
+            this.options.model,
+            this.getModelName(),
+            key,
+          ])
+        : undefined;
+    const mode = this.cache?.options.mode;
+    if (cacheKey && mode !== 'record') {
+      const cached = await this.cache!.get<T>(cacheKey);
+      if (cached !== undefined) {
+        track(cached, performance.now() - start, true);
+        return cached;
+      }
+      if (mode === 'replay') throw new AICacheMissError();
+    }
+    this.usageTracker?.checkBudget();
+    const response = await this.queue!.run(request, options);
+    track(response, performance.now() - start, false);
+    if (cacheKey && response !== undefined) {
+      await this.cache!.set(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Records the usage of a streamed response when it finishes.
+   */
+  private async *trackStream(
+    stream: AsyncGenerator<AIStreamEvent>,
+    media: {images: number; audioSeconds: number}
+  ): AsyncGenerator<AIStreamEvent> {
+    const start = performance.now();
+    for await (const event of stream) {
+      if (event.type === 'finish') {
+        this.recordUsage(
+          'stream',
+          event.usage,
+          media,
+          performance.now() - start
+        );
+      }
+      yield event;
+    }
+  }
+
+  private recordUsage(
+    kind: AIUsageKind,
+    usage: AIUsage | undefined,
+    media: {images: number; audioSeconds: number},
+    latency: number,
+    cached = false,
+    modelName = this.getModelName()
+  ) {
+    this.usageTracker?.record({
+      kind,
+      model: this.options.model,
+      modelName,
+      inputTokens: cached ? 0 : (usage?.inputTokens ?? 0),
+      outputTokens: cached ? 0 : (usage?.outputTokens ?? 0),
+      totalTokens: cached ? 0 : (usage?.totalTokens ?? 0),
+      images: cached ? 0 : media.images,
+      audioSeconds: cached ? 0 : media.audioSeconds,
+      latency,
+      cached,
+    });
+  }
+
+  /**
+   * The name of the model version in the options, e.g. `gemini-2.5-flash`.
+   */
+  private getModelName() {
+    const modelOptions = this.options[this.options.model];
+    return 'model' in modelOptions ? modelOptions.model : undefined;
+  }
+
+  private getAvailableModel() {
     if (!this.isAvailable()) {
       throw new Error(
         "AI is not available. Check if it's enabled and properly initialized."
       );
     }
-    return await this.model!.query(input, tools);
+    return this.model!;
   }
 
   async startLiveSession(
@@ -197,13 +524,13 @@ export class AI extends Script {
     if (!('isLiveAvailable' in this.model) || !this.model.isLiveAvailable()) {
       throw new Error('Live session is not available for the current model.');
     }
-    this.lock = true;
+    this.usageTracker?.checkBudget();
+    this.liveModelName = model;
     try {
       const session = await this.model.startLiveSession(config, model);
       return session;
     } catch (error) {
-      this.lock = false;
-      console.error('❌ Failed to start Live session:', error);
+      logger.error('Failed to start Live session:', error);
       throw error;
     }
   }
@@ -213,15 +540,55 @@ export class AI extends Script {
     try {
       await ('stopLiveSession' in this.model && this.model.stopLiveSession());
     } catch (error) {
-      console.error('❌ Error stopping Live session:', error);
-    } finally {
-      this.lock = false;
+      logger.error('Error stopping Live session:', error);
     }
   }
 
+  /**
+   * Sets the callbacks of the live session. Transcriptions, interruptions and
+   * completed turns are also published on the event bus.
+   */
   async setLiveCallbacks(callbacks: GoogleGenAITypes.LiveCallbacks) {
     if (this.model && 'setLiveCallbacks' in this.model) {
-      this.model.setLiveCallbacks(callbacks);
+      this.model.setLiveCallbacks({
+        ...callbacks,
+        onmessage: (message: GoogleGenAITypes.LiveServerMessage) => {
+          callbacks.onmessage(message);
+          this.publishLiveMessage(message);
+        },
+      });
+    }
+  }
+
+  private publishLiveMessage(message: GoogleGenAITypes.LiveServerMessage) {
+    const usage = toLiveUsage(message.usageMetadata);
+    if (usage) {
+      this.recordUsage(
+        'live',
+        usage,
+        {images: 0, audioSeconds: 0},
+        0,
+        false,
+        this.liveModelName
+      );
+    }
+    const serverContent = message.serverContent;
+    if (!this.eventBus || !serverContent) return;
+    if (serverContent.inputTranscription?.text) {
+      this.eventBus.emit('ai:inputTranscription', {
+        message: serverContent.inputTranscription.text,
+      });
+    }
+    if (serverContent.outputTranscription?.text) {
+      this.eventBus.emit('ai:outputTranscription', {
+        message: serverContent.outputTranscription.text,
+      });
+    }
+    if (serverContent.interrupted) {
+      this.eventBus.emit('ai:interrupted', {});
+    }
+    if (serverContent.turnComplete) {
+      this.eventBus.emit('ai:turnComplete', {});
     }
   }
 
@@ -231,8 +598,17 @@ export class AI extends Script {
     }
   }
 
+  /**
+   * Sends audio, video frames or text to the live session. Input is dropped
+   * once a budget blocks calls.
+   */
   sendRealtimeInput(input: GoogleGenAITypes.LiveSendRealtimeInputParameters) {
     if (!this.model || !('sendRealtimeInput' in this.model)) return false;
+    if (this.usageTracker?.getBlockingBudget()) return false;
+    const media = countRealtimeInputMedia(input);
+    if (media.images || media.audioSeconds) {
+      this.recordUsage('live', undefined, media, 0, false, this.liveModelName);
+    }
     return this.model.sendRealtimeInput(input);
   }
 
@@ -257,13 +633,60 @@ export class AI extends Script {
    */
   triggerKeyPopup() {}
 
+  /**
+   * Generates an image.
+   * @param prompt - The prompt as text, as a list of texts and image data
+   * URLs, or as a request of which the system instruction and the parts of
+   * user messages are used.
+   * @param type - The type of content to generate.
+   * @param systemInstruction - The instruction if the request has none.
+   * @param model - The image model, defaulting to the model's default.
+   * @param options - The priority, signal, timeout and retries of the
+   * request.
+   * @returns The image as a data URL.
+   */
   async generate(
-    prompt: string | string[],
+    prompt: string | string[] | AIRequest,
     type: 'image' = 'image',
     systemInstruction = 'Generate an image',
-    model = undefined
+    model = undefined,
+    options?: AIRequestOptions
   ) {
-    return this.model!.generate(prompt, type, systemInstruction, model);
+    if (typeof prompt === 'object' && !Array.isArray(prompt)) {
+      systemInstruction = prompt.systemInstruction || systemInstruction;
+      prompt = prompt.messages.flatMap((message) =>
+        message.role === 'user'
+          ? message.parts.flatMap((part) => {
+              if (part.type === 'text') return [part.text];
+              if (part.type !== 'image') return [];
+              return [
+                part.uri ??
+                  `data:${part.mimeType ?? 'image/png'};base64,${part.data}`,
+              ];
+            })
+          : []
+      );
+    }
+    const parts = prompt;
+    const aiModel = this.getAvailableModel();
+    const images = Array.isArray(parts)
+      ? parts.filter((part) => part.startsWith('data:image/')).length
+      : 0;
+    return this.runCached(
+      ['generate', parts, type, systemInstruction, model],
+      (signal) =>
+        aiModel.generate(parts, type, systemInstruction, model, signal),
+      options,
+      (_response, latency, cached) =>
+        this.recordUsage(
+          'generate',
+          undefined,
+          {images, audioSeconds: 0},
+          latency,
+          cached,
+          model
+        )
+    );
   }
 
   /**
@@ -283,6 +706,9 @@ export class AI extends Script {
    */
   async hasApiKey() {
     if (!this.options) return false;
+    const ModelClass = SUPPORTED_MODELS[this.options.model];
+    if (this.options.proxy.enabled) return true;
+    if (ModelClass && !ModelClass.requiresApiKey) return true;
     const modelOptions = this.options[this.options.model];
     if (!modelOptions) return false;
 
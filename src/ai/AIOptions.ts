@@ -1,3 +1,9 @@
+import type * as GoogleGenAITypes from '@google/genai';
+
+import type {ToolCall} from '../agent/Tool';
+
+import type {AIUsage} from './AITypes';
+
 export interface GeminiLiveOptions {
   enabled?: boolean;
   model?: string;
@@ -41,15 +47,194 @@ export class OpenAIOptions {
   urlParam = 'openaiKey';
   model = 'gpt-4.1';
   enabled = false;
+  /** An optional system prompt sent with each query. */
+  systemInstruction = '';
+}
+
+/**
+ * Options for a local or self-hosted model server, e.g. Ollama, llama.cpp,
+ * LM Studio or vLLM. No API key is required.
+ */
+export class LocalLLMOptions {
+  enabled = false;
+  /**
+   * The HTTP API of the server: 'ollama' for Ollama's native `/api/chat` or
+   * 'openai' for OpenAI-compatible `/v1/chat/completions` endpoints.
+   */
+  api: 'ollama' | 'openai' = 'ollama';
+  /** The URL of the server, without the API path. */
+  baseUrl = 'http://localhost:11434';
+  model = 'llama3.2';
+  /** An optional system prompt sent with each query. */
+  systemInstruction = '';
+  /** An optional key sent as a bearer token, e.g. to a self-hosted proxy. */
+  apiKey = '';
+  /** Additional HTTP headers sent with each request. */
+  headers: Record<string, string> = {};
+}
+
+/**
+ * A scripted response of the mock model.
+ */
+export interface MockAIFixture {
+  /**
+   * Restricts the fixture to requests whose prompt contains the text or
+   * matches the expression. Fixtures without a match are used in order.
+   */
+  match?: string | RegExp;
+  /** The text of the response. */
+  text?: string;
+  /** The tools called in the response. */
+  toolCalls?: ToolCall[];
+  /** A value returned as JSON text, e.g. bounding boxes of detected objects. */
+  json?: unknown;
+  /** A data URL returned as a generated image. */
+  image?: string;
+  /** Messages sent in a live session, e.g. transcriptions and audio. */
+  liveMessages?: GoogleGenAITypes.LiveServerMessage[];
+  /** Fails the request, e.g. with status 429 to test retries. */
+  error?: {message: string; status?: number};
+  /** The latency of the response in milliseconds. */
+  latency?: number;
+  usage?: AIUsage;
+  /** Keeps the fixture to answer all matching requests. */
+  repeat?: boolean;
+}
+
+/**
+ * Options of the mock model, which replays scripted responses without
+ * network requests, e.g. in tests and offline demos.
+ */
+export class MockAIOptions {
+  enabled = false;
+  /** The scripted responses. Each is used once unless it repeats. */
+  fixtures: MockAIFixture[] = [];
+  /** The URL of a JSON file with an array of fixtures, loaded on init. */
+  fixturesUrl = '';
+  /** The default latency of responses in milliseconds. */
+  latency = 0;
+  /** The text of responses when no fixture matches. */
+  defaultText = 'This is a mock response.';
 }
 
-export type AIModel = 'gemini' | 'openai';
+export type AIModel = 'gemini' | 'openai' | 'local' | 'mock';
+
+/**
+ * Options to send all requests to the model through a backend proxy, which
+ * holds the API keys, instead of placing keys in the browser.
+ */
+export class AIProxyOptions {
+  enabled = false;
+  /**
+   * The URL of the proxy, e.g. `http://localhost:8787` for the reference
+   * proxy in `tools/ai-proxy`. Requests are sent to `<url>/<model>`.
+   */
+  url = '';
+  /** The path of the endpoint which issues short-lived session tokens. */
+  sessionPath = '/session';
+  /** Additional HTTP headers sent to the session endpoint. */
+  headers: Record<string, string> = {};
+  /** Renews tokens this many milliseconds before they expire. */
+  refreshMargin = 30000;
+}
+
+/**
+ * Options of the queue which schedules requests to the model.
+ */
+export class AIQueueOptions {
+  /** The number of requests which run at once. */
+  concurrency = 4;
+  /**
+   * The number of requests which run at once per model, e.g. 1 for a local
+   * server which processes one request at a time.
+   */
+  modelConcurrency: Partial<Record<AIModel, number>> = {local: 1};
+  /** The timeout of a request in milliseconds, 0 for none. */
+  timeout = 60000;
+  /** The number of retries of requests which were rate limited or failed. */
+  retries = 2;
+  /** The delay before the first retry in milliseconds, doubled per retry. */
+  retryDelay = 1000;
+  /** The maximum delay between retries in milliseconds. */
+  maxRetryDelay = 16000;
+}
+
+/**
+ * How the response cache is used: `cache` answers from the cache and sends
+ * requests on misses, `record` always sends requests and stores the
+ * responses, and `replay` only answers from the cache, failing on misses.
+ */
+export type AICacheMode = 'cache' | 'record' | 'replay';
+
+/**
+ * Options of the cache which stores responses in IndexedDB, e.g. to avoid
+ * sending the same prompts and camera frames again during development.
+ */
+export class AICacheOptions {
+  enabled = false;
+  mode: AICacheMode = 'cache';
+  /** The lifetime of responses in milliseconds, 0 for no expiry. */
+  ttl = 24 * 60 * 60 * 1000;
+  /** The maximum number of stored responses. */
+  maxEntries = 500;
+  /** The maximum total size of stored responses in bytes. */
+  maxSize = 50 * 1024 * 1024;
+  /** The name of the IndexedDB database. */
+  databaseName = 'xrblocks-ai-cache';
+}
+
+/**
+ * The price of a model per million tokens and per generated image.
+ */
+export interface AIModelPricing {
+  input: number;
+  output: number;
+  image?: number;
+}
+
+/**
+ * Limits of the usage since the page loaded or `AIUsageTracker.reset()`.
+ * Limits of 0 are disabled.
+ */
+export class AIBudgetOptions {
+  maxRequests = 0;
+  maxTokens = 0;
+  /** The maximum cost in the currency of `AIUsageOptions.pricing`. */
+  maxCost = 0;
+  /** The maximum number of images sent, e.g. frames of live sessions. */
+  maxImages = 0;
+  /** The maximum seconds of audio sent to live sessions. */
+  maxAudioSeconds = 0;
+  /**
+   * Whether reaching a limit only warns, or also rejects further requests
+   * and drops the input of live sessions.
+   */
+  action: 'warn' | 'block' = 'warn';
+}
+
+/**
+ * Options of the accounting of the tokens, media and cost of requests.
+ */
+export class AIUsageOptions {
+  /**
+   * The prices by model name, e.g.
+   * `{'gemini-2.5-flash': {input: 0.3, output: 2.5}}`, to estimate costs.
+   */
+  pricing: Record<string, AIModelPricing> = {};
+  budget = new AIBudgetOptions();
+}
 
 export class AIOptions {
   enabled = false;
   model: AIModel = 'gemini';
   gemini = new GeminiOptions();
   openai = new OpenAIOptions();
+  local = new LocalLLMOptions();
+  mock = new MockAIOptions();
+  queue = new AIQueueOptions();
+  proxy = new AIProxyOptions();
+  cache = new AICacheOptions();
+  usage = new AIUsageOptions();
   globalUrlParams = {
     key: 'key', // Generic key parameter
   };
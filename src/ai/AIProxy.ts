@@ -0,0 +1,68 @@
+import {AIModel, AIProxyOptions} from './AIOptions';
+import {AIRequestError} from './AIRequestQueue';
+
+/**
+ * A short-lived token which authorizes requests to the proxy.
+ */
+export interface AIProxySession {
+  token: string;
+  /** The time the token expires at, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/**
+ * Connects models to a backend proxy which holds the API keys. The proxy
+ * issues short-lived session tokens, which models send instead of API keys,
+ * and forwards requests, including Gemini Live websockets, to the provider.
+ */
+export class AIProxy {
+  private session?: AIProxySession;
+  private pendingSession?: Promise<AIProxySession>;
+
+  constructor(public options: AIProxyOptions) {}
+
+  /**
+   * @param model - The model.
+   * @returns The URL of the proxy's routes of the model, e.g.
+   * `http://localhost:8787/gemini`.
+   */
+  getModelUrl(model: AIModel) {
+    return `${this.options.url.replace(/\/$/, '')}/${model}`;
+  }
+
+  /**
+   * Returns a valid session token, requesting a new token from the proxy if
+   * the current one expires soon.
+   */
+  async getToken() {
+    const refreshTime = Date.now() + this.options.refreshMargin;
+    if (this.session && this.session.expiresAt > refreshTime) {
+      return this.session.token;
+    }
+    this.pendingSession ??= this.requestSession().finally(() => {
+      this.pendingSession = undefined;
+    });
+    this.session = await this.pendingSession;
+    return this.session.token;
+  }
+
+  private async requestSession(): Promise<AIProxySession> {
+    const url = this.options.url.replace(/\/$/, '') + this.options.sessionPath;
+    const response = await fetch(url, {
+      method: 'POST',
+      credentials: 'include',
+      headers: this.options.headers,
+    });
+    if (!response.ok) {
+      throw new AIRequestError(
+        `AI proxy session request failed with ${response.status}: ${await response.text()}`,
+        response.status
+      );
+    }
+    const session = (await response.json()) as AIProxySession;
+    if (typeof session.token !== 'string') {
+      throw new Error('AI proxy returned an invalid session.');
+    }
+    return session;
+  }
+}
@@ -0,0 +1,280 @@
+import {getLogger} from '../logging/Logger';
+
+import {AIQueueOptions} from './AIOptions';
+
+const logger = getLogger('AIRequestQueue');
+
+/**
+ * The priority of a request. Interactive requests, e.g. answers to the user,
+ * start before queued background requests, e.g. periodic object detection.
+ */
+export type AIRequestPriority = 'interactive' | 'background';
+
+/**
+ * Options of a single request to a model.
+ */
+export interface AIRequestOptions {
+  /** Defaults to 'interactive'. */
+  priority?: AIRequestPriority;
+  /** Cancels the request, whether it is queued or running. */
+  signal?: AbortSignal;
+  /** Overrides `AIQueueOptions.timeout` in milliseconds, 0 for none. */
+  timeout?: number;
+  /** Overrides `AIQueueOptions.retries`. */
+  retries?: number;
+  /** Set to false to bypass the response cache. */
+  cache?: boolean;
+}
+
+/**
+ * The error of a failed HTTP request to a model, e.g. by models which use
+ * `fetch()` directly.
+ */
+export class AIRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'AIRequestError';
+  }
+}
+
+/**
+ * The error a request rejects with when it exceeds its timeout.
+ */
+export class AIRequestTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`AI request timed out after ${timeout} ms.`);
+    this.name = 'AIRequestTimeoutError';
+  }
+}
+
+/**
+ * Whether a failed request may succeed when retried, i.e. it was rate
+ * limited (429) or failed on the server (5xx).
+ */
+export function isRetryableError(error: unknown) {
+  const status =
+    error != null && typeof error === 'object' && 'status' in error
+      ? error.status
+      : undefined;
+  return typeof status === 'number' && (status == 429 || status >= 500);
+}
+
+interface QueuedRequest {
+  priority: AIRequestPriority;
+  start: () => void;
+}
+
+/**
+ * Runs requests to a model with limited concurrency, priorities,
+ * cancellation, timeouts and retries, so live sessions, interactive queries
+ * and background requests can share a model without a global lock.
+ */
+export class AIRequestQueue {
+  private active = 0;
+  private queued: QueuedRequest[] = [];
+
+  /**
+   * @param options - The options of the queue.
+   * @param concurrency - The number of requests which run at once.
+   */
+  constructor(
+    public options: AIQueueOptions,
+    public concurrency = options.concurrency
+  ) {}
+
+  /**
+   * The number of requests which are running.
+   */
+  get activeCount() {
+    return this.active;
+  }
+
+  /**
+   * The number of requests which wait for a free slot.
+   */
+  get pendingCount() {
+    return this.queued.length;
+  }
+
+  /**
+   * Runs a request once a slot is free, retrying it if it fails with a
+   * retryable error.
+   * @param request - Sends the request and must abort when the signal does.
+   * @param options - The options of the request.
+   * @returns The result of the request.
+   */
+  async run<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    options: AIRequestOptions = {}
+  ): Promise<T> {
+    const release = await this.acquire(options);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const {signal, dispose, getAbortReason} = this.createSignal(options);
+        try {
+          return await request(signal);
+        } catch (error) {
+          const abortReason = getAbortReason();
+          if (abortReason) throw abortReason;
+          if (!this.shouldRetry(error, attempt, options)) throw error;
+        } finally {
+          dispose();
+        }
+        await this.backoff(attempt, options.signal);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Runs a streamed request once a slot is free. The request is retried if
+   * it fails before yielding its first event. The slot is held until the
+   * stream ends; the timeout applies to the whole stream.
+   * @param request - Starts the stream and must abort when the signal does.
+   * @param options - The options of the request.
+   */
+  async *runStream<T>(
+    request: (signal: AbortSignal) => AsyncIterable<T>,
+    options: AIRequestOptions = {}
+  ): AsyncGenerator<T> {
+    const release = await this.acquire(options);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const {signal, dispose, getAbortReason} = this.createSignal(options);
+        let started = false;
+        try {
+          for await (const event of request(signal)) {
+            started = true;
+            yield event;
+          }
+          return;
+        } catch (error) {
+          const abortReason = getAbortReason();
+          if (abortReason) throw abortReason;
+          if (started || !this.shouldRetry(error, attempt, options)) {
+            throw error;
+          }
+        } finally {
+          dispose();
+        }
+        await this.backoff(attempt, options.signal);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for a free slot.
+   * @returns A function which frees the slot.
+   */
+  private acquire({
+    priority = 'interactive',
+    signal,
+  }: AIRequestOptions): Promise<() => void> {
+    signal?.throwIfAborted();
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.queued.shift()?.start();
+    };
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve(release);
+    }
+    return new Promise((resolve, reject) => {
+      const entry: QueuedRequest = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          resolve(release);
+        },
+      };
+      const onAbort = () => {
+        this.queued.splice(this.queued.indexOf(entry), 1);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, {once: true});
+      // Interactive requests are queued before background requests.
+      const index =
+        priority == 'interactive'
+          ? this.queued.findIndex((queued) => queued.priority == 'background')
+          : -1;
+      if (index < 0) {
+        this.queued.push(entry);
+      } else {
+        this.queued.splice(index, 0, entry);
+      }
+    });
+  }
+
+  /**
+   * Creates the signal of an attempt, which aborts when the request's signal
+   * aborts or the attempt times out.
+   */
+  private createSignal({
+    signal,
+    timeout = this.options.timeout,
+  }: AIRequestOptions) {
+    const controller = new AbortController();
+    let abortReason: unknown;
+    const abort = (reason: unknown) => {
+      abortReason ??= reason;
+      controller.abort(reason);
+    };
+    const onAbort = () => abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort, {once: true});
+    const timeoutId =
+      timeout > 0
+        ? setTimeout(() => abort(new AIRequestTimeoutError(timeout)), timeout)
+        : undefined;
+    return {
+      signal: controller.signal,
+      getAbortReason: () => abortReason,
+      dispose: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
+  private shouldRetry(
+    error: unknown,
+    attempt: number,
+    {retries = this.options.retries}: AIRequestOptions
+  ) {
+    return attempt < retries && isRetryableError(error);
+  }
+
+  /**
+   * Waits before retrying, doubling the delay with each attempt.
+   */
+  private backoff(attempt: number, signal?: AbortSignal) {
+    const {retryDelay, maxRetryDelay} = this.options;
+    const delay = Math.min(retryDelay * 2 ** attempt, maxRetryDelay);
+    // Jitter spreads out the retries of concurrent requests.
+    const jitteredDelay = delay * (0.5 + Math.random() * 0.5);
+    logger.warn(
+      `Retrying AI request in ${Math.round(jitteredDelay)} ms (attempt ${attempt + 2}).`
+    );
+    return new Promise<void>((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal!.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, jitteredDelay);
+      signal?.addEventListener('abort', onAbort, {once: true});
+    });
+  }
+}
@@ -0,0 +1,189 @@
+import {getLogger} from '../logging/Logger';
+
+import {AICacheOptions} from './AIOptions';
+
+const logger = getLogger('AIResponseCache');
+
+const STORE_NAME = 'responses';
+
+interface AICacheEntry {
+  key: string;
+  value: unknown;
+  createdAt: number;
+  /** The size of the value as JSON in bytes. */
+  size: number;
+}
+
+/**
+ * The error of a request without a cached response in `replay` mode.
+ */
+export class AICacheMissError extends Error {
+  constructor() {
+    super('No cached AI response for the request in replay mode.');
+    this.name = 'AICacheMissError';
+  }
+}
+
+/**
+ * Serializes a value as JSON with sorted keys, so equal requests have equal
+ * keys regardless of the order of their properties.
+ */
+function stableStringify(value: unknown): string {
+  if (
+    value != null &&
+    typeof value === 'object' &&
+    'toJSON' in value &&
+    typeof value.toJSON === 'function'
+  ) {
+    value = value.toJSON();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value != null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${properties.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores responses of a model in IndexedDB, keyed by a hash of the
+ * normalized request, with a lifetime and limits of the number and size of
+ * stored responses. Failures of the cache are logged and treated as misses,
+ * so they never fail requests.
+ */
+export class AIResponseCache {
+  private database?: Promise<IDBDatabase | undefined>;
+
+  constructor(public options: AICacheOptions) {}
+
+  /**
+   * Hashes a request, e.g. the model, the messages with their image data,
+   * the tools and the response schema.
+   * @param request - The normalized request.
+   * @returns The SHA-256 hash of the request, or undefined if hashing is
+   * unavailable outside of secure contexts.
+   */
+  async createKey(request: unknown) {
+    if (!globalThis.crypto?.subtle) return;
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(stableStringify(request))
+    );
+    return Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+  }
+
+  /**
+   * @param key - The key of `createKey()`.
+   * @returns The stored response, or undefined if none was stored or it
+   * expired.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const database = await this.open();
+    if (!database) return;
+    try {
+      const store = database.transaction(STORE_NAME).objectStore(STORE_NAME);
+      const entry = await toPromise<AICacheEntry | undefined>(store.get(key));
+      if (!entry || this.isExpired(entry)) return;
+      return entry.value as T;
+    } catch (error) {
+      logger.warn('Failed to read a cached AI response:', error);
+    }
+  }
+
+  /**
+   * Stores a response and removes expired and, beyond the limits, the
+   * oldest responses.
+   * @param key - The key of `createKey()`.
+   * @param value - The response.
+   */
+  async set(key: string, value: unknown) {
+    const database = await this.open();
+    if (!database) return;
+    try {
+      const size = new TextEncoder().encode(JSON.stringify(value)).byteLength;
+      const entry: AICacheEntry = {key, value, createdAt: Date.now(), size};
+      const transaction = database.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.put(entry);
+      const request = store.getAll();
+      request.onsuccess = () => this.prune(store, request.result);
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (error) {
+      logger.warn('Failed to cache an AI response:', error);
+    }
+  }
+
+  /**
+   * Removes all stored responses.
+   */
+  async clear() {
+    const database = await this.open();
+    if (!database) return;
+    await toPromise(
+      database
+        .transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME)
+        .clear()
+    );
+  }
+
+  private prune(store: IDBObjectStore, entries: AICacheEntry[]) {
+    const {maxEntries, maxSize} = this.options;
+    let count = 0;
+    let size = 0;
+    entries.sort((a, b) => b.createdAt - a.createdAt);
+    for (const entry of entries) {
+      if (!this.isExpired(entry)) {
+        count++;
+        size += entry.size;
+        if (count <= maxEntries && size <= maxSize) continue;
+      }
+      store.delete(entry.key);
+    }
+  }
+
+  private isExpired(entry: AICacheEntry) {
+    return (
+      this.options.ttl > 0 && Date.now() - entry.createdAt > this.options.ttl
+    );
+  }
+
+  private open() {
+    this.database ??= new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        logger.warn('IndexedDB is unavailable, AI responses are not cached.');
+        resolve(undefined);
+        return;
+      }
+      const request = indexedDB.open(this.options.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, {keyPath: 'key'});
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('Failed to open the AI response cache:', request.error);
+        resolve(undefined);
+      };
+    });
+    return this.database;
+  }
+}
@@ -0,0 +1,82 @@
+import type {ToolCall} from '../agent/Tool';
+
+import {AIStreamEvent} from './AITypes';
+
+// Ends of sentences: punctuation followed by whitespace, or CJK punctuation.
+const SENTENCE_END = /[.!?]+\s+|[。！？]+/;
+
+/**
+ * A view which can show streamed text, e.g. a `TextView` or a
+ * `ScrollingTroikaTextView`.
+ */
+export interface StreamTextView {
+  setText(text: string): void;
+}
+
+export interface PipeStreamOptions {
+  /** Text shown before the streamed text, e.g. earlier messages of a chat. */
+  prefix?: string;
+  /** Called for each tool call in the stream. */
+  onToolCall?: (toolCall: ToolCall) => void;
+}
+
+/**
+ * Shows the text of a streamed response in a view as it arrives:
+ * ```ts
+ * const stream = xb.ai.queryStream({prompt}, [], {
+ *   signal: abortController.signal,
+ * });
+ * const answer = await xb.pipeStreamToTextView(stream, textView);
+ * ```
+ * @param stream - The stream, e.g. from `AI.queryStream()`.
+ * @param view - The view which shows the text.
+ * @param options - Options such as a prefix to keep earlier text.
+ * @returns The complete text of the response.
+ */
+export async function pipeStreamToTextView(
+  stream: AsyncIterable<AIStreamEvent>,
+  view: StreamTextView,
+  {prefix = '', onToolCall}: PipeStreamOptions = {}
+) {
+  let text = '';
+  for await (const event of stream) {
+    if (event.type === 'text') {
+      text += event.text;
+      view.setText(prefix + text);
+    } else if (event.type === 'toolCall') {
+      onToolCall?.(event.toolCall);
+    }
+  }
+  return text;
+}
+
+/**
+ * Groups the text of a streamed response into sentences, e.g. to speak
+ * partial answers before the response is complete:
+ * ```ts
+ * for await (const sentence of xb.streamSentences(stream)) {
+ *   await xb.core.sound.speechSynthesizer?.speak(sentence);
+ * }
+ * ```
+ * @param stream - The stream, e.g. from `AI.queryStream()`.
+ * @returns An async iterator of sentences. Tool calls are skipped.
+ */
+export async function* streamSentences(
+  stream: AsyncIterable<AIStreamEvent>
+): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const event of stream) {
+    if (event.type !== 'text') continue;
+    buffer += event.text;
+    let match;
+    while ((match = SENTENCE_END.exec(buffer))) {
+      const end = match.index + match[0].length;
+      const sentence = buffer.slice(0, end).trim();
+      buffer = buffer.slice(end);
+      if (sentence) yield sentence;
+    }
+  }
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
@@ -0,0 +1,150 @@
+import type {ToolSchema} from '../agent/Tool';
+
+import {AIRequestOptions} from './AIRequestQueue';
+
+/**
+ * Options of `AI.queryStructured()`.
+ */
+export interface AIStructuredQueryOptions extends AIRequestOptions {
+  /**
+   * How often to ask the model again when its response doesn't match the
+   * schema. Defaults to 2.
+   */
+  validationRetries?: number;
+}
+
+/**
+ * The error of a structured query whose responses didn't match the schema.
+ */
+export class AIValidationError extends Error {
+  /**
+   * @param errors - Why the last response didn't match the schema.
+   * @param text - The text of the last response.
+   */
+  constructor(
+    public errors: string[],
+    public text: string | null
+  ) {
+    super(`AI response does not match the schema: ${errors.join('; ')}`);
+    this.name = 'AIValidationError';
+  }
+}
+
+function describeType(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validates a value against a tool schema, e.g. a parsed response of a
+ * model. Supports types, nullable values, enums, anyOf, required and nested
+ * properties, and the length, item and number limits.
+ * @param value - The value to validate.
+ * @param schema - The schema with Gemini's upper case types.
+ * @param path - The path of the value in error messages.
+ * @returns The reasons the value doesn't match, empty if it does.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: ToolSchema,
+  path = 'response'
+): string[] {
+  if (value === null && schema.nullable) return [];
+  if (schema.anyOf?.length) {
+    const matches = schema.anyOf.some(
+      (option) => !validateSchema(value, option as ToolSchema, path).length
+    );
+    return matches ? [] : [`${path} matches none of the allowed schemas`];
+  }
+  if (schema.enum?.length && !schema.enum.includes(value as string)) {
+    return [`${path} must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  const typeError = `${path} must be of type ${schema.type?.toLowerCase()}, got ${describeType(value)}`;
+  const errors: string[] = [];
+  switch (schema.type) {
+    case 'STRING':
+      if (typeof value !== 'string') return [typeError];
+      if (schema.minLength && value.length < Number(schema.minLength)) {
+        errors.push(
+          `${path} must have at least ${schema.minLength} characters`
+        );
+      }
+      if (schema.maxLength && value.length > Number(schema.maxLength)) {
+        errors.push(`${path} must have at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path} must match ${schema.pattern}`);
+      }
+      break;
+    case 'NUMBER':
+    case 'INTEGER':
+      if (
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        (schema.type === 'INTEGER' && !Number.isInteger(value))
+      ) {
+        return [typeError];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum}`);
+      }
+      break;
+    case 'BOOLEAN':
+      if (typeof value !== 'boolean') return [typeError];
+      break;
+    case 'NULL':
+      if (value !== null) return [typeError];
+      break;
+    case 'ARRAY':
+      if (!Array.isArray(value)) return [typeError];
+      if (schema.minItems && value.length < Number(schema.minItems)) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems && value.length > Number(schema.maxItems)) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => {
+          errors.push(
+            ...validateSchema(item, schema.items as ToolSchema, `${path}[${i}]`)
+          );
+        });
+      }
+      break;
+    case 'OBJECT': {
+      if (describeType(value) !== 'object') return [typeError];
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties ?? {}
+      )) {
+        if (record[key] !== undefined) {
+          errors.push(
+            ...validateSchema(record[key], propertySchema, `${path}.${key}`)
+          );
+        }
+      }
+      break;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parses the JSON text of a response. Models without a JSON mode may wrap
+ * the JSON in a code block, which is removed.
+ * @param text - The text of the response.
+ * @returns The parsed value.
+ */
+export function parseJsonResponse(text: string): unknown {
+  return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+}
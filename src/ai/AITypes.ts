@@ -1,6 +1,120 @@
-import type {ToolCall} from '../agent/Tool';
+import type {Tool, ToolCall, ToolSchema} from '../agent/Tool';
 
+/**
+ * The response of `query()`.
+ */
 export interface GeminiResponse {
   toolCall?: ToolCall;
   text?: string | null;
+  usage?: AIUsage;
 }
+
+/**
+ * A text part of a message.
+ */
+export interface AITextPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * An image part of a message, either as base64 data or as a URI.
+ */
+export interface AIImagePart {
+  type: 'image';
+  /** The MIME type, e.g. `image/png`. Defaults to `image/png`. */
+  mimeType?: string;
+  /** The base64 encoded image without a data URL header. */
+  data?: string;
+  /** The URI of the image, e.g. an uploaded file. */
+  uri?: string;
+}
+
+/**
+ * An audio part of a message as base64 data.
+ */
+export interface AIAudioPart {
+  type: 'audio';
+  /** The MIME type, e.g. `audio/wav`. */
+  mimeType: string;
+  /** The base64 encoded audio. */
+  data: string;
+}
+
+export type AIPart = AITextPart | AIImagePart | AIAudioPart;
+
+/**
+ * A message of a conversation with a model: a user's message, a response of
+ * the model with the tools it called, or the result of a called tool.
+ */
+export type AIMessage =
+  | {role: 'user'; parts: AIPart[]}
+  | {role: 'assistant'; parts: AIPart[]; toolCalls?: ToolCall[]}
+  | {role: 'tool'; toolCall: ToolCall; result: unknown};
+
+/**
+ * Parameters of the generation which are supported by most models. Models
+ * ignore parameters they don't support.
+ */
+export interface AIGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  /** The token budget for thinking. 0 disables thinking where supported. */
+  thinkingBudget?: number;
+}
+
+/**
+ * A request to a model, independent of the model's SDK.
+ */
+export interface AIRequest {
+  /** Instructions for the model, replacing those of the model's options. */
+  systemInstruction?: string;
+  /** The conversation so far, ending with the message to respond to. */
+  messages: AIMessage[];
+  /** The tools the model may call. */
+  tools?: Tool[];
+  /** Asks for a JSON response matching the schema. */
+  responseSchema?: ToolSchema;
+  config?: AIGenerationConfig;
+}
+
+/**
+ * The number of tokens used by a request.
+ */
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Why the model stopped generating.
+ */
+export type AIFinishReason =
+  | 'stop'
+  | 'length'
+  | 'toolCalls'
+  | 'safety'
+  | 'other';
+
+/**
+ * A response of a model, independent of the model's SDK.
+ */
+export interface AIResponse {
+  /** The text of the response, or null if the model only called tools. */
+  text: string | null;
+  toolCalls: ToolCall[];
+  finishReason: AIFinishReason;
+  usage?: AIUsage;
+}
+
+/**
+ * An event of a streamed response: a delta of the response text, a tool
+ * call requested by the model, or the end of the response.
+ */
+export type AIStreamEvent =
+  | {type: 'text'; text: string}
+  | {type: 'toolCall'; toolCall: ToolCall}
+  | {type: 'finish'; finishReason: AIFinishReason; usage?: AIUsage};
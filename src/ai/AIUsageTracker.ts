@@ -0,0 +1,255 @@
+import type * as GoogleGenAITypes from '@google/genai';
+
+import type {EventBus} from '../core/components/EventBus';
+import {getLogger} from '../logging/Logger';
+
+import {AIBudgetOptions, AIModel, AIUsageOptions} from './AIOptions';
+import {AIRequest, AIUsage} from './AITypes';
+
+const logger = getLogger('AIUsageTracker');
+
+/**
+ * The kind of a call to a model: a request, a streamed request, an image
+ * generation, or the input and responses of a live session.
+ */
+export type AIUsageKind = 'chat' | 'stream' | 'generate' | 'live';
+
+/**
+ * The usage of a call to a model, published as `ai:usage` on the event bus.
+ */
+export interface AIUsageEvent {
+  kind: AIUsageKind;
+  model: AIModel;
+  /** The name of the model version, e.g. `gemini-2.5-flash`. */
+  modelName?: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** The number of images sent, e.g. camera frames. */
+  images: number;
+  /** The seconds of audio sent, known for PCM audio of live sessions. */
+  audioSeconds: number;
+  /** The time until the response in milliseconds, 0 for live input. */
+  latency: number;
+  /** Whether the response came from the cache, without tokens or cost. */
+  cached: boolean;
+  /** The estimated cost in the currency of `AIUsageOptions.pricing`. */
+  cost: number;
+}
+
+/**
+ * The accumulated usage of all calls or of one model.
+ */
+export interface AIUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  images: number;
+  audioSeconds: number;
+  cost: number;
+}
+
+/**
+ * The limits of `AIBudgetOptions`.
+ */
+export type AIBudget =
+  | 'maxRequests'
+  | 'maxTokens'
+  | 'maxCost'
+  | 'maxImages'
+  | 'maxAudioSeconds';
+
+const BUDGET_TOTALS: Record<AIBudget, keyof AIUsageTotals> = {
+  maxRequests: 'requests',
+  maxTokens: 'totalTokens',
+  maxCost: 'cost',
+  maxImages: 'images',
+  maxAudioSeconds: 'audioSeconds',
+};
+
+/**
+ * The error of a request which was blocked because a budget was reached.
+ */
+export class AIBudgetExceededError extends Error {
+  constructor(
+    public budget: AIBudget,
+    public limit: number
+  ) {
+    super(`AI budget ${budget} of ${limit} was reached.`);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+function createTotals(): AIUsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    images: 0,
+    audioSeconds: 0,
+    cost: 0,
+  };
+}
+
+/**
+ * Counts the images and audio of a request.
+ */
+export function countRequestMedia(request: AIRequest) {
+  let images = 0;
+  for (const message of request.messages) {
+    if (message.role === 'tool') continue;
+    images += message.parts.filter((part) => part.type === 'image').length;
+  }
+  return {images, audioSeconds: 0};
+}
+
+/**
+ * Counts the images and the seconds of PCM audio of live input. PCM audio
+ * has 16 bits per sample at the rate of its MIME type, e.g.
+ * `audio/pcm;rate=16000`.
+ */
+export function countRealtimeInputMedia(
+  input: GoogleGenAITypes.LiveSendRealtimeInputParameters
+) {
+  let audioSeconds = 0;
+  const {audio} = input;
+  if (audio?.data && audio.mimeType?.startsWith('audio/pcm')) {
+    const rate = Number(/rate=(\d+)/.exec(audio.mimeType)?.[1] ?? 16000);
+    const padding = audio.data.endsWith('==')
+      ? 2
+      : audio.data.endsWith('=')
+        ? 1
+        : 0;
+    const bytes = (audio.data.length * 3) / 4 - padding;
+    audioSeconds = bytes / 2 / rate;
+  }
+  return {images: input.video ? 1 : 0, audioSeconds};
+}
+
+/**
+ * Converts the usage metadata of a live session message.
+ */
+export function toLiveUsage(
+  metadata?: GoogleGenAITypes.UsageMetadata
+): AIUsage | undefined {
+  if (!metadata) return;
+  const inputTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens =
+    (metadata.responseTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Aggregates the tokens, media, latency and cost of calls to models, and
+ * warns about or blocks calls once the budgets of `AIUsageOptions` are
+ * reached.
+ * Each call is published as `ai:usage` and each reached budget once as
+ * `ai:budgetExceeded` on the event bus.
+ */
+export class AIUsageTracker {
+  /** The usage of all calls. */
+  totals = createTotals();
+  /** The usage by model name, or by model if the name is unknown. */
+  byModel: Record<string, AIUsageTotals> = {};
+
+  private exceededBudgets = new Set<AIBudget>();
+
+  constructor(
+    public options: AIUsageOptions,
+    private eventBus?: EventBus
+  ) {}
+
+  /**
+   * Records the usage of a call, adding its estimated cost.
+   * @param usage - The usage of the call without its cost.
+   * @returns The recorded event.
+   */
+  record(usage: Omit<AIUsageEvent, 'cost'>) {
+    const event: AIUsageEvent = {...usage, cost: this.estimateCost(usage)};
+    const modelTotals = (this.byModel[event.modelName ?? event.model] ??=
+      createTotals());
+    for (const totals of [this.totals, modelTotals]) {
+      if (event.kind !== 'live') totals.requests++;
+      totals.inputTokens += event.inputTokens;
+      totals.outputTokens += event.outputTokens;
+      totals.totalTokens += event.totalTokens;
+      totals.images += event.images;
+      totals.audioSeconds += event.audioSeconds;
+      totals.cost += event.cost;
+    }
+    this.eventBus?.emit('ai:usage', event);
+    this.checkExceededBudgets();
+    return event;
+  }
+
+  /**
+   * The first reached budget if reaching budgets blocks calls.
+   */
+  getBlockingBudget(): AIBudget | undefined {
+    if (this.options.budget.action !== 'block') return;
+    return this.getExceededBudgets()[0];
+  }
+
+  /**
+   * Throws if a budget was reached and reaching budgets blocks calls.
+   * @throws AIBudgetExceededError
+   */
+  checkBudget() {
+    const budget = this.getBlockingBudget();
+    if (budget) {
+      throw new AIBudgetExceededError(budget, this.options.budget[budget]);
+    }
+  }
+
+  /**
+   * Resets the usage, e.g. for a new demo session.
+   */
+  reset() {
+    this.totals = createTotals();
+    this.byModel = {};
+    this.exceededBudgets.clear();
+  }
+
+  private estimateCost(usage: Omit<AIUsageEvent, 'cost'>) {
+    const pricing =
+      (usage.modelName && this.options.pricing[usage.modelName]) ||
+      this.options.pricing[usage.model];
+    if (!pricing || usage.cached) return 0;
+    return (
+      (usage.inputTokens * pricing.input +
+        usage.outputTokens * pricing.output) /
+        1e6 +
+      (usage.kind === 'generate' ? (pricing.image ?? 0) : 0)
+    );
+  }
+
+  private getExceededBudgets() {
+    const budgetOptions: AIBudgetOptions = this.options.budget;
+    return (Object.keys(BUDGET_TOTALS) as AIBudget[]).filter((budget) => {
+      const limit = budgetOptions[budget];
+      return limit > 0 && this.totals[BUDGET_TOTALS[budget]] >= limit;
+    });
+  }
+
+  private checkExceededBudgets() {
+    for (const budget of this.getExceededBudgets()) {
+      if (this.exceededBudgets.has(budget)) continue;
+      this.exceededBudgets.add(budget);
+      const limit = this.options.budget[budget];
+      const value = this.totals[BUDGET_TOTALS[budget]];
+      logger.warn(
+        `AI budget ${budget} of ${limit} was reached with ${value}` +
+          (this.options.budget.action === 'block'
+            ? '; further requests are blocked.'
+            : '.')
+      );
+      this.eventBus?.emit('ai:budgetExceeded', {budget, limit, value});
+    }
+  }
+}
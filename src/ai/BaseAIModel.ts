@@ -1,14 +1,212 @@
-import {GeminiResponse} from './AITypes';
+import type * as GoogleGenAITypes from '@google/genai';
+
+import {Tool, toJsonSchema} from '../agent/Tool';
+import {getLogger} from '../logging/Logger';
+
+import {
+  AIPart,
+  AIRequest,
+  AIResponse,
+  AIStreamEvent,
+  GeminiResponse,
+} from './AITypes';
+import type {GeminiQueryInput} from './Gemini';
+
+const logger = getLogger('BaseAIModel');
+
+/**
+ * Converts a part of Gemini's SDK into a part of a request.
+ */
+function toAIPart(part: GoogleGenAITypes.Part): AIPart | undefined {
+  if (part.text !== undefined) {
+    return {type: 'text', text: part.text};
+  }
+  const mimeType = part.inlineData?.mimeType ?? 'image/png';
+  if (part.inlineData?.data) {
+    return mimeType.startsWith('audio/')
+      ? {type: 'audio', mimeType, data: part.inlineData.data}
+      : {type: 'image', mimeType, data: part.inlineData.data};
+  }
+  if (part.fileData?.fileUri) {
+    return {
+      type: 'image',
+      mimeType: part.fileData.mimeType,
+      uri: part.fileData.fileUri,
+    };
+  }
+  logger.warn('Ignoring unsupported part:', Object.keys(part));
+}
+
+/**
+ * Whether the input of `query()` is meant for a live session. Live input is
+ * sent with `sendRealtimeInput()`, so queries answer it with `{text: null}`.
+ */
+export function isLiveInput(input: GeminiQueryInput | {prompt: string}) {
+  return 'type' in input && input.type === 'live';
+}
+
+/**
+ * Converts the input of `query()` into a request with a single message.
+ */
+export function createQueryRequest(
+  input: GeminiQueryInput | {prompt: string},
+  tools: Tool[]
+): AIRequest {
+  const parts: AIPart[] = [];
+  if (!('type' in input)) {
+    parts.push({type: 'text', text: input.prompt});
+  } else {
+    switch (input.type) {
+      case 'text':
+        parts.push({type: 'text', text: input.text ?? ''});
+        break;
+      case 'base64':
+        parts.push({
+          type: 'image',
+          mimeType: input.mimeType,
+          data: input.base64,
+        });
+        if (input.text) parts.push({type: 'text', text: input.text});
+        break;
+      case 'uri':
+        parts.push({type: 'image', mimeType: input.mimeType, uri: input.uri});
+        if (input.text) parts.push({type: 'text', text: input.text});
+        break;
+      case 'multiPart':
+        for (const part of input.parts ?? []) {
+          const converted = toAIPart(part);
+          if (converted) parts.push(converted);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported input type: ${input.type}`);
+    }
+  }
+  return {messages: [{role: 'user', parts}], tools};
+}
 
 export abstract class BaseAIModel {
+  /** Whether the model needs an API key, resolved by `AI` before init. */
+  static requiresApiKey = true;
+
   constructor() {}
 
   abstract init(): Promise<void>;
 
   abstract isAvailable(): boolean;
 
-  abstract query(
-    _input: object,
-    _tools: []
-  ): Promise<GeminiResponse | string | null>;
+  /**
+   * Sends a request to the model.
+   * @param request - The request, independent of the model's SDK.
+   * @param signal - Aborts the request.
+   * @returns The response, independent of the model's SDK.
+   */
+  abstract chat(request: AIRequest, signal?: AbortSignal): Promise<AIResponse>;
+
+  /**
+   * Generates an image.
+   * @param prompt - The prompt as text or as a list of texts and image data
+   * URLs.
+   * @param type - The type of content to generate.
+   * @param systemInstruction - Instructions for the model.
+   * @param model - The image model, defaulting to the model's default.
+   * @param signal - Aborts the request.
+   * @returns The image as a data URL.
+   */
+  abstract generate(
+    prompt: string | string[],
+    type?: 'image',
+    systemInstruction?: string,
+    model?: string,
+    signal?: AbortSignal
+  ): Promise<string | undefined>;
+
+  /**
+   * Streams the response as text deltas and tool calls, ending with a
+   * `finish` event. Models without streaming support yield the complete
+   * response of `chat()` at once.
+   * @param request - The request, independent of the model's SDK.
+   * @param signal - Aborts the request.
+   */
+  async *chatStream(
+    request: AIRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamEvent> {
+    signal?.throwIfAborted();
+    const response = await this.chat(request, signal);
+    signal?.throwIfAborted();
+    if (response.text) {
+      yield {type: 'text', text: response.text};
+    }
+    for (const toolCall of response.toolCalls) {
+      yield {type: 'toolCall', toolCall};
+    }
+    yield {
+      type: 'finish',
+      finishReason: response.finishReason,
+      usage: response.usage,
+    };
+  }
+
+  /**
+   * Queries the model with a single message. Use `chat()` for conversations
+   * and structured responses.
+   * @param input - The query input.
+   * @param tools - The tools the model may call.
+   * @param signal - Aborts the request.
+   * @returns The text of the response or the first tool call, and the
+   * usage. Live input is not sent and answered with `{text: null}`.
+   */
+  async query(
+    input: GeminiQueryInput | {prompt: string},
+    tools: Tool[] = [],
+    signal?: AbortSignal
+  ): Promise<GeminiResponse | null> {
+    if (isLiveInput(input)) return {text: null};
+    const response = await this.chat(createQueryRequest(input, tools), signal);
+    if (response.toolCalls.length) {
+      return {toolCall: response.toolCalls[0], usage: response.usage};
+    }
+    return {text: response.text, usage: response.usage};
+  }
+
+  /**
+   * Streams the response to a single message as text deltas and tool calls.
+   * Live input is not sent and yields no events.
+   * @param input - The query input.
+   * @param tools - The tools the model may call.
+   * @param signal - Aborts the request.
+   */
+  async *queryStream(
+    input: GeminiQueryInput | {prompt: string},
+    tools: Tool[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamEvent> {
+    if (isLiveInput(input)) return;
+    yield* this.chatStream(createQueryRequest(input, tools), signal);
+  }
+
+  /**
+   * Builds the system instruction of a request for models which receive it
+   * as text.
+   * @param request - The request.
+   * @param defaultInstruction - The instruction of the model's options, used
+   * if the request has none.
+   * @param describeSchema - Whether to describe the response schema, for
+   * models which can't enforce it.
+   */
+  protected createSystemInstruction(
+    request: AIRequest,
+    defaultInstruction: string,
+    describeSchema: boolean
+  ) {
+    const instructions = [request.systemInstruction || defaultInstruction];
+    if (describeSchema && request.responseSchema) {
+      instructions.push(
+        'Respond only with JSON matching this schema: ' +
+          JSON.stringify(toJsonSchema(request.responseSchema))
+      );
+    }
+    return instructions.filter(Boolean).join('\n');
+  }
 }
@@ -1,15 +1,23 @@
 import * as GoogleGenAITypes from '@google/genai';
 
-import type {Tool} from '../agent/Tool';
+import type {ToolCall} from '../agent/Tool';
+import {getLogger} from '../logging/Logger';
 
 import {GeminiOptions} from './AIOptions';
-import {GeminiResponse} from './AITypes';
+import {AIProxy} from './AIProxy';
+import {
+  AIFinishReason,
+  AIMessage,
+  AIPart,
+  AIRequest,
+  AIResponse,
+  AIStreamEvent,
+  AIUsage,
+} from './AITypes';
 import {BaseAIModel} from './BaseAIModel';
 
-let createPartFromUri: (uri: string, mimeType: string) => GoogleGenAITypes.Part;
-let createUserContent:
-  | ((partOrString: GoogleGenAITypes.PartListUnion) => GoogleGenAITypes.Content)
-  | undefined;
+const logger = getLogger('Gemini');
+
 let GoogleGenAI: typeof GoogleGenAITypes.GoogleGenAI | undefined;
 let EndSensitivity: typeof GoogleGenAITypes.EndSensitivity | undefined;
 let StartSensitivity: typeof GoogleGenAITypes.StartSensitivity | undefined;
@@ -23,13 +31,11 @@ async function loadGoogleGenAIModule() {
   try {
     const genAIModule = await import('@google/genai');
     if (genAIModule && genAIModule.GoogleGenAI) {
-      createPartFromUri = genAIModule.createPartFromUri;
-      createUserContent = genAIModule.createUserContent;
       GoogleGenAI = genAIModule.GoogleGenAI;
       EndSensitivity = genAIModule.EndSensitivity;
       StartSensitivity = genAIModule.StartSensitivity;
       Modality = genAIModule.Modality;
-      console.log("'@google/genai' module loaded successfully.");
+      logger.info("'@google/genai' module loaded successfully.");
     } else {
       throw new Error("'@google/genai' module loaded but is not valid.");
     }
@@ -37,7 +43,7 @@ async function loadGoogleGenAIModule() {
     const errorMessage = `The '@google/genai' module is required for Gemini but failed to load. Error: ${
       error
     }`;
-    console.error(errorMessage);
+    logger.error(errorMessage);
     throw new Error(errorMessage);
   }
 }
@@ -54,6 +60,102 @@ export interface GeminiQueryInput {
   data?: GoogleGenAITypes.LiveSendRealtimeInputParameters;
 }
 
+function toGeminiPart(part: AIPart): GoogleGenAITypes.Part {
+  switch (part.type) {
+    case 'text':
+      return {text: part.text};
+    case 'image':
+      if (part.uri) {
+        return {fileData: {fileUri: part.uri, mimeType: part.mimeType}};
+      }
+      return {
+        inlineData: {mimeType: part.mimeType ?? 'image/png', data: part.data},
+      };
+    case 'audio':
+      return {inlineData: {mimeType: part.mimeType, data: part.data}};
+  }
+}
+
+function toGeminiContent(message: AIMessage): GoogleGenAITypes.Content {
+  switch (message.role) {
+    case 'user':
+      return {role: 'user', parts: message.parts.map(toGeminiPart)};
+    case 'assistant':
+      return {
+        role: 'model',
+        parts: [
+          ...message.parts.map(toGeminiPart),
+          ...(message.toolCalls ?? []).map(({id, name, args}) => ({
+            functionCall: {id, name, args: args as Record<string, unknown>},
+          })),
+        ],
+      };
+    case 'tool': {
+      const {result, toolCall} = message;
+      const response =
+        result != null && typeof result === 'object' && !Array.isArray(result)
+          ? (result as Record<string, unknown>)
+          : {result};
+      return {
+        role: 'user',
+        parts: [
+          {functionResponse: {id: toolCall.id, name: toolCall.name, response}},
+        ],
+      };
+    }
+  }
+}
+
+function getResponseText(candidate?: GoogleGenAITypes.Candidate) {
+  return candidate?.content?.parts
+    ?.map((part) => (part.thought ? '' : (part.text ?? '')))
+    .join('');
+}
+
+function toToolCalls(
+  functionCalls: GoogleGenAITypes.FunctionCall[] = []
+): ToolCall[] {
+  return functionCalls
+    .filter((functionCall) => functionCall.name)
+    .map(({id, name, args}) => ({id, name: name!, args}));
+}
+
+function toFinishReason(
+  reason: GoogleGenAITypes.FinishReason | undefined,
+  toolCallCount: number
+): AIFinishReason {
+  if (toolCallCount > 0) return 'toolCalls';
+  switch (reason) {
+    case undefined:
+    case 'STOP':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+    case 'IMAGE_SAFETY':
+      return 'safety';
+    default:
+      return 'other';
+  }
+}
+
+function toUsage(
+  metadata?: GoogleGenAITypes.GenerateContentResponseUsageMetadata
+): AIUsage | undefined {
+  if (!metadata) return;
+  const inputTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens =
+    (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens,
+  };
+}
+
 export class Gemini extends BaseAIModel {
   inited = false;
   liveSession?: GoogleGenAITypes.Session;
@@ -61,12 +163,26 @@ export class Gemini extends BaseAIModel {
   liveCallbacks: Partial<GoogleGenAITypes.LiveCallbacks> = {};
   ai?: GoogleGenAITypes.GoogleGenAI;
 
-  constructor(protected options: GeminiOptions) {
+  private proxyToken?: string;
+
+  /**
+   * @param options - The options of the model.
+   * @param proxy - Sends requests through a proxy instead of using the API
+   * key of the options.
+   */
+  constructor(
+    protected options: GeminiOptions,
+    protected proxy?: AIProxy
+  ) {
     super();
   }
 
   async init() {
     await loadGoogleGenAIModule();
+    if (this.proxy) {
+      await this.getClient();
+      this.inited = true;
+    }
   }
 
   isAvailable() {
@@ -74,6 +190,8 @@ export class Gemini extends BaseAIModel {
       return false;
     }
     if (!this.inited) {
+      // With a proxy, the client is created with a session token in init().
+      if (this.proxy) return false;
       this.ai = new GoogleGenAI({apiKey: this.options.apiKey});
       this.inited = true;
     }
@@ -111,7 +229,7 @@ export class Gemini extends BaseAIModel {
     const callbacks: GoogleGenAITypes.LiveCallbacks = {
       onopen: () => {
         this.isLiveMode = true;
-        console.log('🔓 Live session opened.');
+        logger.info('Live session opened.');
         if (this.liveCallbacks?.onopen) {
           this.liveCallbacks.onopen();
         }
@@ -122,7 +240,7 @@ export class Gemini extends BaseAIModel {
         }
       },
       onerror: (e: ErrorEvent) => {
-        console.error('❌ Live session error:', e);
+        logger.error('Live session error:', e);
         if (this.liveCallbacks?.onerror) {
           this.liveCallbacks.onerror(e);
         }
@@ -131,9 +249,9 @@ export class Gemini extends BaseAIModel {
         this.isLiveMode = false;
         this.liveSession = undefined;
         if (event.reason) {
-          console.warn('🔒 Live session closed:', event);
+          logger.warn('Live session closed:', event);
         } else {
-          console.warn('🔒 Live session closed without reason.');
+          logger.warn('Live session closed without reason.');
         }
         if (this.liveCallbacks?.onclose) {
           this.liveCallbacks.onclose(event);
@@ -146,11 +264,12 @@ export class Gemini extends BaseAIModel {
         callbacks: callbacks,
         config: defaultConfig,
       };
-      console.log('Connecting with params:', connectParams);
-      this.liveSession = await this.ai!.live.connect(connectParams);
+      logger.debug('Connecting with params:', connectParams);
+      const client = await this.getClient();
+      this.liveSession = await client.live.connect(connectParams);
       return this.liveSession;
     } catch (error) {
-      console.error('❌ Failed to start live session:', error);
+      logger.error('Failed to start live session:', error);
       throw error;
     }
   }
@@ -171,7 +290,7 @@ export class Gemini extends BaseAIModel {
 
   sendToolResponse(response: GoogleGenAITypes.LiveSendToolResponseParameters) {
     if (this.liveSession) {
-      console.debug('Sending tool response to gemini:', response);
+      logger.debug('Sending tool response to gemini:', response);
       this.liveSession.sendToolResponse(response);
     }
   }
@@ -184,7 +303,7 @@ export class Gemini extends BaseAIModel {
     try {
       this.liveSession.sendRealtimeInput(input);
     } catch (error) {
-      console.error('❌ Error sending realtime input:', error);
+      logger.error('Error sending realtime input:', error);
       throw error;
     }
   }
@@ -197,84 +316,137 @@ export class Gemini extends BaseAIModel {
     };
   }
 
-  async query(
-    input: GeminiQueryInput | {prompt: string},
-    _tools: Tool[] = []
-  ): Promise<GeminiResponse | null> {
+  async chat(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
     if (!this.inited) {
-      console.warn('Gemini not inited.');
-      return null;
+      throw new Error('Gemini model is not initialized.');
     }
 
-    const options = this.options;
-    const config = options.config || {};
+    const client = await this.getClient();
+    const response = await client.models.generateContent(
+      this.createContentParams(request, signal)
+    );
+    const candidate = response.candidates?.[0];
+    const toolCalls = toToolCalls(response.functionCalls);
+    return {
+      text: getResponseText(candidate) || null,
+      toolCalls,
+      finishReason: toFinishReason(candidate?.finishReason, toolCalls.length),
+      usage: toUsage(response.usageMetadata),
+    };
+  }
 
-    if (!('type' in input)) {
-      const response = await this.ai!.models.generateContent({
-        model: options.model,
-        contents: input.prompt!,
-        config: config,
-      });
-      return {text: response.text || null};
+  /**
+   * Streams the response as text deltas and function calls.
+   * @param request - The request.
+   * @param signal - Aborts the request.
+   */
+  override async *chatStream(
+    request: AIRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamEvent> {
+    if (!this.inited) {
+      throw new Error('Gemini model is not initialized.');
     }
 
-    const model = this.ai!.models;
-    const modelParams: GoogleGenAITypes.GenerateContentParameters = {
-      model: this.options.model,
-      contents: [],
-      config: this.options.config || {},
+    const client = await this.getClient();
+    const stream = await client.models.generateContentStream(
+      this.createContentParams(request, signal)
+    );
+    let toolCallCount = 0;
+    let finishReason: GoogleGenAITypes.FinishReason | undefined;
+    let usage: AIUsage | undefined;
+    for await (const chunk of stream) {
+      for (const toolCall of toToolCalls(chunk.functionCalls)) {
+        toolCallCount++;
+        yield {type: 'toolCall', toolCall};
+      }
+      const candidate = chunk.candidates?.[0];
+      const text = getResponseText(candidate);
+      if (text) {
+        yield {type: 'text', text};
+      }
+      finishReason = candidate?.finishReason ?? finishReason;
+      usage = toUsage(chunk.usageMetadata) ?? usage;
+    }
+    yield {
+      type: 'finish',
+      finishReason: toFinishReason(finishReason, toolCallCount),
+      usage,
     };
+  }
 
-    let response = null;
-    switch (input.type) {
-      case 'text':
-        modelParams.contents = input.text!;
-        response = await model.generateContent(modelParams);
-        break;
-
-      case 'base64':
-        if (!input.mimeType) {
-          input.mimeType = 'image/png';
-        }
-        modelParams.contents = {
-          inlineData: {
-            mimeType: input.mimeType,
-            data: input.base64,
-          },
-        };
-        response = await model.generateContent(modelParams);
-        break;
-
-      case 'uri':
-        modelParams.contents = createUserContent!([
-          createPartFromUri(input.uri!, input.mimeType!),
-          input.text!,
-        ]);
-        response = await model.generateContent(modelParams);
-        break;
-
-      case 'multiPart':
-        modelParams.contents = [{role: 'user', parts: input.parts}];
-        response = await model.generateContent(modelParams);
-        break;
+  /**
+   * Returns the client, which is recreated with a new session token when the
+   * proxy's token was renewed.
+   */
+  private async getClient() {
+    if (this.proxy) {
+      const token = await this.proxy.getToken();
+      if (token !== this.proxyToken) {
+        this.proxyToken = token;
+        this.ai = new GoogleGenAI!({
+          apiKey: token,
+          httpOptions: {baseUrl: this.proxy.getModelUrl('gemini')},
+        });
+      }
     }
+    return this.ai!;
+  }
 
-    if (!response) {
-      return {text: null};
+  private createContentParams(
+    request: AIRequest,
+    signal?: AbortSignal
+  ): GoogleGenAITypes.GenerateContentParameters {
+    const config: GoogleGenAITypes.GenerateContentConfig = {
+      ...this.options.config,
+      abortSignal: signal,
+    };
+    if (request.systemInstruction) {
+      config.systemInstruction = request.systemInstruction;
+    }
+    if (request.tools?.length) {
+      config.tools = [
+        ...(config.tools ?? []),
+        {functionDeclarations: request.tools.map((tool) => tool.toJSON())},
+      ];
+    }
+    if (request.responseSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseSchema = request.responseSchema as GoogleGenAITypes.Schema;
+    }
+    const {thinkingBudget, ...generationConfig} = request.config ?? {};
+    for (const [key, value] of Object.entries(generationConfig)) {
+      if (value !== undefined) {
+        Object.assign(config, {[key]: value});
+      }
+    }
+    if (thinkingBudget !== undefined) {
+      config.thinkingConfig = {...config.thinkingConfig, thinkingBudget};
     }
 
-    const toolCall = response.functionCalls?.[0];
-    if (toolCall && toolCall.name) {
-      return {toolCall: {name: toolCall.name, args: toolCall.args}};
+    const contents: GoogleGenAITypes.Content[] = [];
+    for (const message of request.messages) {
+      const content = toGeminiContent(message);
+      const previous = contents[contents.length - 1];
+      // Results of parallel function calls are sent in a single content.
+      if (
+        message.role === 'tool' &&
+        previous?.parts?.every((part) => part.functionResponse)
+      ) {
+        previous.parts.push(...content.parts!);
+      } else {
+        contents.push(content);
+      }
     }
-    return {text: response.text || null};
+    return {model: this.options.model, contents, config};
   }
 
   async generate(
     prompt: string | string[],
     type: 'image' = 'image',
     systemInstruction = 'Generate an image',
-    model = 'gemini-2.5-flash-image'
+    model = 'gemini-2.5-flash-image',
+    signal?: AbortSignal
   ) {
     if (!this.isAvailable()) return;
 
@@ -298,10 +470,11 @@ export class Gemini extends BaseAIModel {
       contents = prompt;
     }
 
-    const response = await this.ai!.models.generateContent({
+    const client = await this.getClient();
+    const response = await client.models.generateContent({
       model: model,
       contents: contents,
-      config: {systemInstruction},
+      config: {systemInstruction, abortSignal: signal},
     });
     if (response.candidates && response.candidates.length > 0) {
       const firstCandidate = response.candidates[0];
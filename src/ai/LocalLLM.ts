@@ -0,0 +1,319 @@
+import {toJsonSchema, ToolCall} from '../agent/Tool';
+import {getLogger} from '../logging/Logger';
+
+import {LocalLLMOptions} from './AIOptions';
+import {AIProxy} from './AIProxy';
+import {
+  AIFinishReason,
+  AIMessage,
+  AIPart,
+  AIRequest,
+  AIResponse,
+  AIUsage,
+} from './AITypes';
+import {AIRequestError} from './AIRequestQueue';
+import {BaseAIModel} from './BaseAIModel';
+
+const logger = getLogger('LocalLLM');
+
+type LocalContentPart =
+  | {type: 'text'; text: string}
+  | {type: 'image_url'; image_url: {url: string}};
+
+interface LocalToolCall {
+  id?: string;
+  type?: 'function';
+  function: {
+    name: string;
+    /** A JSON string in OpenAI-compatible APIs and an object in Ollama's. */
+    arguments: string | Record<string, unknown>;
+  };
+}
+
+interface LocalChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LocalContentPart[] | null;
+  /** Base64 images, used by Ollama's native API. */
+  images?: string[];
+  tool_calls?: LocalToolCall[];
+  /** The answered call, used by OpenAI-compatible APIs. */
+  tool_call_id?: string;
+  /** The name of the called tool, used by Ollama's native API. */
+  tool_name?: string;
+}
+
+interface LocalResponseMessage {
+  content?: string | null;
+  tool_calls?: LocalToolCall[];
+}
+
+function toFinishReason(
+  reason: string | null | undefined,
+  toolCallCount: number
+): AIFinishReason {
+  if (toolCallCount > 0) return 'toolCalls';
+  switch (reason) {
+    case undefined:
+    case null:
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'safety';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * A model served by a local or self-hosted server, through Ollama's native
+ * API or an OpenAI-compatible API. Supports text, images and tool calling
+ * without cloud API keys, e.g. to develop and demo offline.
+ */
+export class LocalLLM extends BaseAIModel {
+  static requiresApiKey = false;
+
+  private inited = false;
+
+  /**
+   * @param options - The options of the model.
+   * @param proxy - Sends requests through a proxy instead of to the server of
+   * the options.
+   */
+  constructor(
+    protected options: LocalLLMOptions,
+    protected proxy?: AIProxy
+  ) {
+    super();
+  }
+
+  async init() {
+    this.inited = true;
+    const baseUrl = this.proxy
+      ? this.proxy.getModelUrl('local')
+      : this.options.baseUrl;
+    logger.info(
+      `Using ${this.options.model} at ${baseUrl} (${this.options.api} API)`
+    );
+  }
+
+  isAvailable() {
+    return this.inited;
+  }
+
+  async chat(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
+    if (!this.isAvailable()) {
+      throw new Error('Local model is not initialized.');
+    }
+    const ollama = this.options.api === 'ollama';
+    const messages: LocalChatMessage[] = [];
+    // Ollama enforces JSON schemas, OpenAI-compatible servers vary.
+    const systemInstruction = this.createSystemInstruction(
+      request,
+      this.options.systemInstruction,
+      !ollama
+    );
+    if (systemInstruction) {
+      messages.push({role: 'system', content: systemInstruction});
+    }
+    for (const message of request.messages) {
+      messages.push(this.createMessage(message));
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.options.model,
+      messages,
+      stream: false,
+    };
+    if (request.tools?.length) {
+      body.tools = request.tools.map((tool) => tool.toOpenAITool());
+    }
+    const config = request.config ?? {};
+    if (ollama) {
+      if (request.responseSchema) {
+        body.format = toJsonSchema(request.responseSchema);
+      }
+      body.options = {
+        temperature: config.temperature,
+        top_p: config.topP,
+        num_predict: config.maxOutputTokens,
+        stop: config.stopSequences,
+      };
+    } else {
+      Object.assign(body, {
+        temperature: config.temperature,
+        top_p: config.topP,
+        max_tokens: config.maxOutputTokens,
+        stop: config.stopSequences,
+      });
+    }
+
+    try {
+      const {message, finishReason, usage} = await this.post(body, signal);
+      const toolCalls: ToolCall[] = [];
+      for (const toolCall of message?.tool_calls ?? []) {
+        if (!toolCall.function?.name) continue;
+        const args = toolCall.function.arguments;
+        toolCalls.push({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          args: typeof args === 'string' ? JSON.parse(args || '{}') : args,
+        });
+      }
+      return {
+        text: message?.content || null,
+        toolCalls,
+        finishReason: toFinishReason(finishReason, toolCalls.length),
+        usage,
+      };
+    } catch (error) {
+      logger.error('Error querying local model:', error);
+      throw error;
+    }
+  }
+
+  async generate(): Promise<string | undefined> {
+    throw new Error('Image generation is not supported by local models.');
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal) {
+    const ollama = this.options.api === 'ollama';
+    const path = ollama ? '/api/chat' : '/v1/chat/completions';
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.options.headers,
+    };
+    const apiKey = this.proxy
+      ? await this.proxy.getToken()
+      : this.options.apiKey;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    const baseUrl = this.proxy
+      ? this.proxy.getModelUrl('local')
+      : this.options.baseUrl;
+    const response = await fetch(baseUrl.replace(/\/$/, '') + path, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new AIRequestError(
+        `Local model request failed with ${response.status}: ${await response.text()}`,
+        response.status
+      );
+    }
+    const json = await response.json();
+    if (ollama) {
+      const inputTokens = json.prompt_eval_count ?? 0;
+      const outputTokens = json.eval_count ?? 0;
+      return {
+        message: json.message as LocalResponseMessage | undefined,
+        finishReason: json.done_reason as string | undefined,
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        } as AIUsage,
+      };
+    }
+    const choice = json.choices?.[0];
+    return {
+      message: choice?.message as LocalResponseMessage | undefined,
+      finishReason: choice?.finish_reason as string | undefined,
+      usage: json.usage
+        ? ({
+            inputTokens: json.usage.prompt_tokens ?? 0,
+            outputTokens: json.usage.completion_tokens ?? 0,
+            totalTokens: json.usage.total_tokens ?? 0,
+          } as AIUsage)
+        : undefined,
+    };
+  }
+
+  private createMessage(message: AIMessage): LocalChatMessage {
+    const ollama = this.options.api === 'ollama';
+    switch (message.role) {
+      case 'user':
+        return this.createUserMessage(message.parts);
+      case 'assistant': {
+        const text = message.parts
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('');
+        const result: LocalChatMessage = {role: 'assistant', content: text};
+        if (message.toolCalls?.length) {
+          result.tool_calls = message.toolCalls.map((toolCall) => ({
+            ...(!ollama && {
+              id: toolCall.id ?? toolCall.name,
+              type: 'function' as const,
+            }),
+            function: {
+              name: toolCall.name,
+              arguments: ollama
+                ? ((toolCall.args ?? {}) as Record<string, unknown>)
+                : JSON.stringify(toolCall.args ?? {}),
+            },
+          }));
+        }
+        return result;
+      }
+      case 'tool': {
+        const {toolCall, result} = message;
+        return {
+          role: 'tool',
+          content: JSON.stringify(result ?? null),
+          ...(ollama
+            ? {tool_name: toolCall.name}
+            : {tool_call_id: toolCall.id ?? toolCall.name}),
+        };
+      }
+    }
+  }
+
+  private createUserMessage(parts: AIPart[]): LocalChatMessage {
+    const texts: string[] = [];
+    const images: {mimeType: string; data: string}[] = [];
+    const imageUrls: string[] = [];
+    for (const part of parts) {
+      if (part.type === 'text') {
+        texts.push(part.text);
+      } else if (part.type === 'image' && part.uri) {
+        imageUrls.push(part.uri);
+      } else if (part.type === 'image' && part.data) {
+        images.push({mimeType: part.mimeType ?? 'image/png', data: part.data});
+      } else {
+        logger.warn(`Ignoring unsupported ${part.type} part.`);
+      }
+    }
+    const text = texts.join('\n');
+    if (this.options.api === 'ollama') {
+      if (imageUrls.length) {
+        throw new Error(
+          'Image URIs are only supported by OpenAI-compatible servers.'
+        );
+      }
+      return images.length
+        ? {role: 'user', content: text, images: images.map((i) => i.data)}
+        : {role: 'user', content: text};
+    }
+    if (!images.length && !imageUrls.length) {
+      return {role: 'user', content: text};
+    }
+    const content: LocalContentPart[] = [];
+    if (text) {
+      content.push({type: 'text', text});
+    }
+    for (const {mimeType, data} of images) {
+      content.push({
+        type: 'image_url',
+        image_url: {url: `data:${mimeType};base64,${data}`},
+      });
+    }
+    for (const url of imageUrls) {
+      content.push({type: 'image_url', image_url: {url}});
+    }
+    return {role: 'user', content};
+  }
+}
@@ -0,0 +1,356 @@
+import type * as GoogleGenAITypes from '@google/genai';
+
+import {getLogger} from '../logging/Logger';
+
+import {MockAIFixture, MockAIOptions} from './AIOptions';
+import {AIProxy} from './AIProxy';
+import {AIRequest, AIResponse, AIStreamEvent} from './AITypes';
+import {AIRequestError} from './AIRequestQueue';
+import {BaseAIModel} from './BaseAIModel';
+
+const logger = getLogger('MockAI');
+
+// A transparent 1x1 PNG, returned as the image of generate() without a
+// fixture.
+const PLACEHOLDER_IMAGE =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+type MockAIFixtureKind = 'chat' | 'generate' | 'live';
+
+/**
+ * A call to the mock model, recorded for assertions in tests.
+ */
+export type MockAICall =
+  | {type: 'chat'; request: AIRequest}
+  | {
+      type: 'generate';
+      prompt: string | string[];
+      systemInstruction?: string;
+      model?: string;
+    }
+  | {
+      type: 'startLiveSession';
+      config: GoogleGenAITypes.LiveConnectConfig;
+      model?: string;
+    }
+  | {type: 'stopLiveSession'}
+  | {
+      type: 'realtimeInput';
+      input: GoogleGenAITypes.LiveSendRealtimeInputParameters;
+    }
+  | {
+      type: 'toolResponse';
+      response: GoogleGenAITypes.LiveSendToolResponseParameters;
+    };
+
+/**
+ * The kind of request a fixture answers: images answer `generate()`, live
+ * messages answer live sessions and other fixtures answer `chat()`. Fixtures
+ * with only an error answer any request.
+ */
+function getFixtureKind(fixture: MockAIFixture): MockAIFixtureKind | undefined {
+  if (fixture.image !== undefined) return 'generate';
+  if (fixture.liveMessages !== undefined) return 'live';
+  if (
+    fixture.error &&
+    fixture.text === undefined &&
+    fixture.toolCalls === undefined &&
+    fixture.json === undefined
+  ) {
+    return undefined;
+  }
+  return 'chat';
+}
+
+/**
+ * The text a fixture of a chat request is matched against: the text of the
+ * last user message.
+ */
+function getRequestText(request: AIRequest) {
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    const message = request.messages[i];
+    if (message.role === 'user') {
+      return message.parts
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('\n');
+    }
+  }
+  return '';
+}
+
+/**
+ * Estimates the tokens of a text, for fixtures without usage.
+ */
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function wait(milliseconds: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/**
+ * A model which replays scripted fixtures instead of sending requests, for
+ * deterministic tests and offline demos. It answers chats, image generation
+ * and live sessions, simulates latency and errors, and records its calls.
+ *
+ * ```ts
+ * options.ai.model = 'mock';
+ * options.ai.mock.enabled = true;
+ * options.ai.mock.fixtures = [{match: 'weather', text: 'It is sunny.'}];
+ * ```
+ */
+export class MockAI extends BaseAIModel {
+  static requiresApiKey = false;
+
+  /** The calls to the model, in order. */
+  calls: MockAICall[] = [];
+  liveCallbacks: Partial<GoogleGenAITypes.LiveCallbacks> = {};
+
+  private inited = false;
+  private fixtures: MockAIFixture[] = [];
+  private liveActive = false;
+
+  /**
+   * @param options - The options of the model.
+   * @param _proxy - Ignored, as the mock model sends no requests.
+   */
+  constructor(
+    protected options: MockAIOptions,
+    _proxy?: AIProxy
+  ) {
+    super();
+  }
+
+  async init() {
+    this.fixtures = [...this.options.fixtures];
+    if (this.options.fixturesUrl) {
+      const response = await fetch(this.options.fixturesUrl);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to load mock fixtures from ${this.options.fixturesUrl}: ${response.status}`
+        );
+      }
+      this.addFixtures(...((await response.json()) as MockAIFixture[]));
+    }
+    this.inited = true;
+    logger.info(`Using ${this.fixtures.length} mock fixtures`);
+  }
+
+  isAvailable() {
+    return this.inited;
+  }
+
+  /**
+   * Adds fixtures after the remaining ones.
+   */
+  addFixtures(...fixtures: MockAIFixture[]) {
+    this.fixtures.push(...fixtures);
+  }
+
+  /**
+   * Forgets the recorded calls.
+   */
+  clearCalls() {
+    this.calls = [];
+  }
+
+  async chat(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
+    this.calls.push({type: 'chat', request});
+    const fixture = await this.respond('chat', getRequestText(request), signal);
+    const text =
+      fixture?.json !== undefined
+        ? JSON.stringify(fixture.json)
+        : (fixture?.text ??
+          (fixture?.toolCalls ? null : this.options.defaultText));
+    const toolCalls = fixture?.toolCalls ?? [];
+    const inputTokens = estimateTokens(JSON.stringify(request.messages));
+    const outputTokens = estimateTokens(text ?? JSON.stringify(toolCalls));
+    return {
+      text,
+      toolCalls,
+      finishReason: toolCalls.length ? 'toolCalls' : 'stop',
+      usage: fixture?.usage ?? {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  /**
+   * Streams the response of `chat()` word by word.
+   */
+  override async *chatStream(
+    request: AIRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamEvent> {
+    const response = await this.chat(request, signal);
+    for (const word of response.text?.match(/\S+\s*|\s+/g) ?? []) {
+      signal?.throwIfAborted();
+      yield {type: 'text', text: word};
+    }
+    for (const toolCall of response.toolCalls) {
+      yield {type: 'toolCall', toolCall};
+    }
+    yield {
+      type: 'finish',
+      finishReason: response.finishReason,
+      usage: response.usage,
+    };
+  }
+
+  async generate(
+    prompt: string | string[],
+    _type: 'image' = 'image',
+    systemInstruction?: string,
+    model?: string,
+    signal?: AbortSignal
+  ) {
+    this.calls.push({type: 'generate', prompt, systemInstruction, model});
+    const texts = (Array.isArray(prompt) ? prompt : [prompt]).filter(
+      (item) => !item.startsWith('data:')
+    );
+    const fixture = await this.respond('generate', texts.join('\n'), signal);
+    return fixture?.image ?? PLACEHOLDER_IMAGE;
+  }
+
+  isLiveAvailable() {
+    return this.isAvailable();
+  }
+
+  /**
+   * Opens a simulated live session, which replays the messages of the next
+   * live fixture without a match.
+   */
+  async startLiveSession(
+    config: GoogleGenAITypes.LiveConnectConfig = {},
+    model?: string
+  ) {
+    this.calls.push({type: 'startLiveSession', config, model});
+    if (this.liveActive) return;
+    const fixture = await this.respond('live', '');
+    this.liveActive = true;
+    logger.info('Mock live session opened.');
+    this.liveCallbacks.onopen?.();
+    this.replayLiveMessages(fixture);
+  }
+
+  async stopLiveSession() {
+    this.calls.push({type: 'stopLiveSession'});
+    if (!this.liveActive) return;
+    this.liveActive = false;
+    this.liveCallbacks.onclose?.(new CloseEvent('close'));
+  }
+
+  setLiveCallbacks(callbacks: GoogleGenAITypes.LiveCallbacks) {
+    this.liveCallbacks = callbacks;
+  }
+
+  /**
+   * Records the response and replays the live fixture matching the names
+   * of the responded functions.
+   */
+  sendToolResponse(response: GoogleGenAITypes.LiveSendToolResponseParameters) {
+    this.calls.push({type: 'toolResponse', response});
+    const functionResponses = response.functionResponses ?? [];
+    const names = (
+      Array.isArray(functionResponses) ? functionResponses : [functionResponses]
+    ).map((functionResponse) => functionResponse.name ?? '');
+    this.respondLive(names.join('\n'));
+  }
+
+  /**
+   * Records the input and replays the live fixture matching its text.
+   */
+  sendRealtimeInput(input: GoogleGenAITypes.LiveSendRealtimeInputParameters) {
+    this.calls.push({type: 'realtimeInput', input});
+    if (!this.liveActive) return;
+    if (input.text) {
+      this.respondLive(input.text);
+    }
+  }
+
+  getLiveSessionStatus() {
+    return {
+      isActive: this.liveActive,
+      hasSession: this.liveActive,
+      isAvailable: this.isLiveAvailable(),
+    };
+  }
+
+  /**
+   * Takes the first fixture of the kind matching the text, waits for its
+   * latency and throws its error.
+   */
+  private async respond(
+    kind: MockAIFixtureKind,
+    text: string,
+    signal?: AbortSignal
+  ) {
+    const fixture = this.takeFixture(kind, text);
+    const latency = fixture?.latency ?? this.options.latency;
+    if (latency > 0) {
+      await wait(latency, signal);
+    }
+    signal?.throwIfAborted();
+    if (fixture?.error) {
+      throw new AIRequestError(
+        fixture.error.message,
+        fixture.error.status ?? 500
+      );
+    }
+    return fixture;
+  }
+
+  private takeFixture(kind: MockAIFixtureKind, text: string) {
+    const index = this.fixtures.findIndex((fixture) => {
+      const fixtureKind = getFixtureKind(fixture);
+      if (fixtureKind && fixtureKind !== kind) return false;
+      const {match} = fixture;
+      if (match === undefined) return kind !== 'live' || !text;
+      return typeof match === 'string'
+        ? text.includes(match)
+        : match.test(text);
+    });
+    if (index < 0) return undefined;
+    const fixture = this.fixtures[index];
+    if (!fixture.repeat) {
+      this.fixtures.splice(index, 1);
+    }
+    return fixture;
+  }
+
+  private respondLive(text: string) {
+    if (!this.liveActive) return;
+    this.respond('live', text).then(
+      (fixture) => this.replayLiveMessages(fixture),
+      (error: Error) =>
+        this.liveCallbacks.onerror?.(
+          new ErrorEvent('error', {error, message: error.message})
+        )
+    );
+  }
+
+  private async replayLiveMessages(fixture?: MockAIFixture) {
+    const messages = fixture?.liveMessages ?? [];
+    for (let i = 0; i < messages.length; i++) {
+      if (i > 0 && this.options.latency > 0) {
+        await wait(this.options.latency);
+      }
+      if (!this.liveActive) return;
+      this.liveCallbacks.onmessage?.(messages[i]);
+    }
+  }
+}
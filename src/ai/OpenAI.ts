@@ -1,8 +1,29 @@
 import type OpenAIType from 'openai';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions';
+import type {CompletionUsage} from 'openai/resources/completions';
+
+import {toJsonSchema, ToolCall} from '../agent/Tool';
+import {getLogger} from '../logging/Logger';
 
 import {OpenAIOptions} from './AIOptions';
+import {AIProxy} from './AIProxy';
+import {
+  AIFinishReason,
+  AIMessage,
+  AIPart,
+  AIRequest,
+  AIResponse,
+  AIStreamEvent,
+  AIUsage,
+} from './AITypes';
 import {BaseAIModel} from './BaseAIModel';
 
+const logger = getLogger('OpenAI');
+
 let OpenAIApi: typeof OpenAIType | null = null;
 
 async function loadOpenAIModule() {
@@ -12,9 +33,9 @@ async function loadOpenAIModule() {
   try {
     const openAIModule = await import('openai');
     OpenAIApi = openAIModule.default;
-    console.log("'openai' module loaded successfully.");
+    logger.info("'openai' module loaded successfully.");
   } catch (error) {
-    console.warn(
+    logger.warn(
       "'openai' module not found. Using fallback implementations.",
       'Error details:',
       error
@@ -22,23 +43,118 @@ async function loadOpenAIModule() {
   }
 }
 
+type FinishReason = ChatCompletionChunk.Choice['finish_reason'];
+
+function toOpenAIPart(part: AIPart): ChatCompletionContentPart {
+  switch (part.type) {
+    case 'text':
+      return {type: 'text', text: part.text};
+    case 'image':
+      return {
+        type: 'image_url',
+        image_url: {
+          url:
+            part.uri ??
+            `data:${part.mimeType ?? 'image/png'};base64,${part.data}`,
+        },
+      };
+    case 'audio':
+      return {
+        type: 'input_audio',
+        input_audio: {
+          data: part.data,
+          format: /mp3|mpeg/.test(part.mimeType) ? 'mp3' : 'wav',
+        },
+      };
+  }
+}
+
+function toOpenAIMessage(message: AIMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'user':
+      return {role: 'user', content: message.parts.map(toOpenAIPart)};
+    case 'assistant': {
+      const text = message.parts
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('');
+      return {
+        role: 'assistant',
+        content: text || null,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((toolCall) => ({
+            id: toolCall.id ?? toolCall.name,
+            type: 'function' as const,
+            function: {
+              name: toolCall.name,
+              arguments: JSON.stringify(toolCall.args ?? {}),
+            },
+          })),
+        }),
+      };
+    }
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCall.id ?? message.toolCall.name,
+        content: JSON.stringify(message.result ?? null),
+      };
+  }
+}
+
+function toFinishReason(reason: FinishReason): AIFinishReason {
+  switch (reason) {
+    case null:
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'tool_calls':
+    case 'function_call':
+      return 'toolCalls';
+    case 'content_filter':
+      return 'safety';
+  }
+}
+
+function toUsage(usage?: CompletionUsage | null): AIUsage | undefined {
+  if (!usage) return;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
 export class OpenAI extends BaseAIModel {
   openai?: OpenAIType;
 
-  constructor(protected options: OpenAIOptions) {
+  private proxyToken?: string;
+
+  /**
+   * @param options - The options of the model.
+   * @param proxy - Sends requests through a proxy instead of using the API
+   * key of the options.
+   */
+  constructor(
+    protected options: OpenAIOptions,
+    protected proxy?: AIProxy
+  ) {
     super();
   }
 
   async init() {
     await loadOpenAIModule();
-    if (this.options.apiKey && OpenAIApi) {
+    if (this.proxy && OpenAIApi) {
+      await this.getClient();
+      logger.info('OpenAI model initialized with proxy');
+    } else if (this.options.apiKey && OpenAIApi) {
       this.openai = new OpenAIApi({
         apiKey: this.options.apiKey,
         dangerouslyAllowBrowser: true,
       });
-      console.log('OpenAI model initialized');
+      logger.info('OpenAI model initialized');
     } else {
-      console.error('OpenAI API key is missing or module failed to load.');
+      logger.error('OpenAI API key is missing or module failed to load.');
     }
   }
 
@@ -46,28 +162,185 @@ export class OpenAI extends BaseAIModel {
     return !!this.openai;
   }
 
-  async query(input: {prompt: string}, _tools?: never[]) {
+  async chat(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
     if (!this.isAvailable()) {
       throw new Error('OpenAI model is not initialized.');
     }
 
     try {
-      const completion = await this.openai!.chat.completions.create({
-        messages: [{role: 'user', content: input.prompt}],
-        model: this.options.model,
-      });
-      const content = completion.choices[0].message.content;
-      if (content) {
-        return {text: content};
+      const client = await this.getClient();
+      const completion = await client.chat.completions.create(
+        this.createParams(request),
+        {signal}
+      );
+      const choice = completion.choices[0];
+      const toolCalls: ToolCall[] = [];
+      for (const toolCall of choice.message.tool_calls ?? []) {
+        if (toolCall.type !== 'function') continue;
+        toolCalls.push({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          args: JSON.parse(toolCall.function.arguments || '{}'),
+        });
       }
-      return null;
+      return {
+        text: choice.message.content || null,
+        toolCalls,
+        finishReason: toFinishReason(choice.finish_reason),
+        usage: toUsage(completion.usage),
+      };
     } catch (error) {
-      console.error('Error querying OpenAI:', error);
+      logger.error('Error querying OpenAI:', error);
       throw error;
     }
   }
 
-  async generate() {
-    throw new Error('Wrapper not implemented');
+  /**
+   * Streams the response as text deltas and tool calls.
+   * @param request - The request.
+   * @param signal - Aborts the request.
+   */
+  override async *chatStream(
+    request: AIRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<AIStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new Error('OpenAI model is not initialized.');
+    }
+
+    const client = await this.getClient();
+    const stream = await client.chat.completions.create(
+      {
+        ...this.createParams(request),
+        stream: true,
+        stream_options: {include_usage: true},
+      },
+      {signal}
+    );
+    // Tool calls are streamed in fragments, keyed by their index.
+    const toolCalls: {id?: string; name: string; arguments: string}[] = [];
+    let finishReason: FinishReason = null;
+    let usage: AIUsage | undefined;
+    for await (const chunk of stream) {
+      usage = toUsage(chunk.usage) ?? usage;
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+      finishReason = choice.finish_reason ?? finishReason;
+      if (choice.delta.content) {
+        yield {type: 'text', text: choice.delta.content};
+      }
+      for (const toolCallDelta of choice.delta.tool_calls ?? []) {
+        const toolCall = (toolCalls[toolCallDelta.index] ??= {
+          name: '',
+          arguments: '',
+        });
+        toolCall.id ??= toolCallDelta.id;
+        toolCall.name += toolCallDelta.function?.name ?? '';
+        toolCall.arguments += toolCallDelta.function?.arguments ?? '';
+      }
+    }
+    for (const toolCall of toolCalls) {
+      if (!toolCall?.name) continue;
+      yield {
+        type: 'toolCall',
+        toolCall: {
+          id: toolCall.id,
+          name: toolCall.name,
+          args: JSON.parse(toolCall.arguments || '{}'),
+        },
+      };
+    }
+    yield {type: 'finish', finishReason: toFinishReason(finishReason), usage};
+  }
+
+  /**
+   * Generates an image from a text prompt.
+   * @param prompt - The prompt, or a list of prompt parts of which only text
+   * is used.
+   * @param type - The type of content to generate.
+   * @param systemInstruction - Instructions prepended to the prompt.
+   * @param model - The image model.
+   * @param signal - Aborts the request.
+   * @returns The image as a data URL.
+   */
+  async generate(
+    prompt: string | string[],
+    type: 'image' = 'image',
+    systemInstruction = 'Generate an image',
+    model = 'gpt-image-1',
+    signal?: AbortSignal
+  ) {
+    if (!this.isAvailable() || type !== 'image') return;
+
+    const texts = (Array.isArray(prompt) ? prompt : [prompt]).filter(
+      (part) => !part.startsWith('data:')
+    );
+    const client = await this.getClient();
+    const response = await client.images.generate(
+      {
+        model,
+        prompt: [systemInstruction, ...texts].join('\n'),
+        size: '1536x1024',
+      },
+      {signal}
+    );
+    const data = response.data?.[0]?.b64_json;
+    return data ? 'data:image/png;base64,' + data : undefined;
+  }
+
+  /**
+   * Returns the client, which is recreated with a new session token when the
+   * proxy's token was renewed.
+   */
+  private async getClient() {
+    if (this.proxy) {
+      const token = await this.proxy.getToken();
+      if (token !== this.proxyToken) {
+        this.proxyToken = token;
+        this.openai = new OpenAIApi!({
+          apiKey: token,
+          baseURL: this.proxy.getModelUrl('openai') + '/v1',
+          dangerouslyAllowBrowser: true,
+        });
+      }
+    }
+    return this.openai!;
+  }
+
+  private createParams(request: AIRequest) {
+    // Structured outputs need an object at the root of the schema, other
+    // schemas are described in the system instruction.
+    const schema =
+      request.responseSchema && toJsonSchema(request.responseSchema);
+    const enforceSchema = schema?.type === 'object';
+    const messages: ChatCompletionMessageParam[] = [];
+    const systemInstruction = this.createSystemInstruction(
+      request,
+      this.options.systemInstruction,
+      !enforceSchema
+    );
+    if (systemInstruction) {
+      messages.push({role: 'system', content: systemInstruction});
+    }
+    messages.push(...request.messages.map(toOpenAIMessage));
+
+    const config = request.config ?? {};
+    return {
+      model: this.options.model,
+      messages,
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => tool.toOpenAITool()),
+      }),
+      ...(enforceSchema && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: {name: 'response', schema},
+        },
+      }),
+      temperature: config.temperature,
+      top_p: config.topP,
+      max_completion_tokens: config.maxOutputTokens,
+      stop: config.stopSequences,
+    };
   }
 }
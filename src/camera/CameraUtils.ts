@@ -1,11 +1,14 @@
 import * as THREE from 'three';
 
 import {Depth} from '../depth/Depth';
+import {getLogger} from '../logging/Logger';
 import {clamp} from '../utils/utils';
 import {DEFAULT_RGB_TO_DEPTH_PARAMS} from './CameraOptions';
 
 import {XRDeviceCamera} from './XRDeviceCamera';
 
+const logger = getLogger('CameraUtils');
+
 export const aspectRatios = {
   depth: 1.0,
   RGB: 4 / 3,
@@ -47,7 +50,7 @@ export function transformRgbToRenderCameraClip(
     return new THREE.Vector2(2 * u - 1, 2 * v - 1);
   }
   if (!aspectRatios || !aspectRatios.depth || !aspectRatios.RGB) {
-    console.error('Invalid aspect ratios provided.');
+    logger.error('Invalid aspect ratios provided.');
     return null;
   }
   const params =
@@ -226,7 +229,7 @@ export async function cropImage(base64Image: string, boundingBox: THREE.Box2) {
   await new Promise((resolve, reject) => {
     img.onload = resolve;
     img.onerror = (err) => {
-      console.error('Error loading image for cropping:', err);
+      logger.error('Error loading image for cropping:', err);
       reject(new Error('Failed to load image for cropping.'));
     };
     img.src = base64Image.startsWith('data:image')
@@ -1,3 +1,4 @@
+import {getLogger} from '../logging/Logger';
 import {SimulatorCamera} from '../simulator/SimulatorCamera';
 import {SimulatorMediaDeviceInfo} from '../simulator/SimulatorMediaDeviceInfo';
 import {
@@ -12,6 +13,8 @@ import {
   RgbToDepthParams,
 } from './CameraOptions';
 
+const logger = getLogger('XRDeviceCamera');
+
 export type MediaOrSimulatorMediaDeviceInfo =
   | MediaDeviceInfo
   | SimulatorMediaDeviceInfo;
@@ -56,7 +59,7 @@ export class XRDeviceCamera extends VideoStream<XRDeviceCameraDetails> {
    */
   async getAvailableVideoDevices() {
     if (!navigator.mediaDevices?.enumerateDevices) {
-      console.warn(
+      logger.warn(
         'navigator.mediaDevices.enumerateDevices() is not supported.'
       );
       return [];
@@ -83,11 +86,11 @@ export class XRDeviceCamera extends VideoStream<XRDeviceCameraDetails> {
         await this.initStream_();
       } else {
         this.setState_(StreamState.NO_DEVICES_FOUND);
-        console.warn('No video devices found.');
+        logger.warn('No video devices found.');
       }
     } catch (error) {
       this.setState_(StreamState.ERROR, {error: error as Error});
-      console.error('Error initializing XRDeviceCamera:', error);
+      logger.error('Error initializing XRDeviceCamera:', error);
       throw error;
     }
   }
@@ -106,7 +109,7 @@ export class XRDeviceCamera extends VideoStream<XRDeviceCameraDetails> {
     this.currentTrackSettings_ = undefined;
     this.currentDeviceIndex_ = -1;
     try {
-      console.debug(
+      logger.debug(
         'Requesting media stream with constraints:',
         this.videoConstraints_
       );
@@ -149,14 +152,14 @@ export class XRDeviceCamera extends VideoStream<XRDeviceCameraDetails> {
       // After the stream is active, we can get the track ID.
       const activeTrack = videoTracks[0];
       this.currentTrackSettings_ = activeTrack.getSettings();
-      console.debug('Active track settings:', this.currentTrackSettings_);
+      logger.debug('Active track settings:', this.currentTrackSettings_);
 
       if (this.currentTrackSettings_.deviceId) {
         this.currentDeviceIndex_ = this.availableDevices_.findIndex(
           (device) => device.deviceId === this.currentTrackSettings_!.deviceId
         );
       } else {
-        console.warn('Stream started without deviceId as it was unavailable');
+        logger.warn('Stream started without deviceId as it was unavailable');
       }
 
       this.stop_(); // Stop any previous stream before starting new one.
@@ -207,7 +210,7 @@ export class XRDeviceCamera extends VideoStream<XRDeviceCameraDetails> {
       throw new Error(`Device with ID ${deviceId} not found.`);
     }
     if (newIndex === this.currentDeviceIndex_) {
-      console.log(`Device ${deviceId} is already active.`);
+      logger.info(`Device ${deviceId} is already active.`);
       return;
     }
     delete this.videoConstraints_.facingMode;
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+
+import {Component} from '../core/Component';
+
+// Reusable objects for performance.
+const cameraPosition = new THREE.Vector3();
+const objectPosition = new THREE.Vector3();
+
+export interface BillboardComponentOptions {
+  /**
+   * Whether the object only turns around the vertical axis, so it stays
+   * upright.
+   */
+  lockYAxis?: boolean;
+}
+
+/**
+ * Turns the object to face the camera every frame.
+ */
+export class BillboardComponent extends Component {
+  static dependencies = {camera: THREE.Camera};
+
+  lockYAxis: boolean;
+  private camera!: THREE.Camera;
+
+  constructor({lockYAxis = false}: BillboardComponentOptions = {}) {
+    super();
+    this.lockYAxis = lockYAxis;
+  }
+
+  init({camera}: {camera: THREE.Camera}) {
+    this.camera = camera;
+  }
+
+  update() {
+    this.camera.getWorldPosition(cameraPosition);
+    if (this.lockYAxis) {
+      this.object.getWorldPosition(objectPosition);
+      cameraPosition.y = objectPosition.y;
+    }
+    this.object.lookAt(cameraPosition);
+  }
+}
@@ -0,0 +1,41 @@
+import {Component} from '../core/Component';
+import {DragMode, Draggable, HasDraggingMode} from '../ux/DragManager';
+
+export interface DraggableComponentOptions {
+  /** How the object moves while dragged. */
+  mode?: DragMode;
+  /** Whether the object turns to face the camera while dragged. */
+  facingCamera?: boolean;
+}
+
+/**
+ * Lets the user drag the object with the DragManager while the component is
+ * enabled.
+ */
+export class DraggableComponent extends Component {
+  mode: DragMode;
+  facingCamera: boolean;
+
+  constructor({
+    mode = DragMode.TRANSLATING,
+    facingCamera = false,
+  }: DraggableComponentOptions = {}) {
+    super();
+    this.mode = mode;
+    this.facingCamera = facingCamera;
+  }
+
+  onEnable() {
+    const object = this.object as Partial<Draggable & HasDraggingMode>;
+    object.draggable = true;
+    object.draggingMode = this.mode;
+    object.dragFacingCamera = this.facingCamera;
+  }
+
+  onDisable() {
+    const object = this.object as Partial<Draggable & HasDraggingMode>;
+    object.draggable = false;
+    delete object.draggingMode;
+    delete object.dragFacingCamera;
+  }
+}
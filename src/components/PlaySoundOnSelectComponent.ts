@@ -0,0 +1,56 @@
+import {Component} from '../core/Component';
+import {CoreSound} from '../sound/CoreSound';
+import {SOUND_PRESETS} from '../sound/SoundSynthesizer';
+
+export interface PlaySoundOnSelectComponentOptions {
+  /** The sound preset to play. */
+  preset?: keyof typeof SOUND_PRESETS;
+  volume?: number;
+  /** Whether touching the object with a hand also plays the sound. */
+  playOnTouch?: boolean;
+}
+
+/**
+ * Plays a sound preset when the object is selected.
+ */
+export class PlaySoundOnSelectComponent extends Component {
+  static dependencies = {sound: CoreSound};
+
+  preset: keyof typeof SOUND_PRESETS;
+  volume: number;
+  playOnTouch: boolean;
+  private sound!: CoreSound;
+
+  constructor({
+    preset = 'CLICK',
+    volume = 0.5,
+    playOnTouch = false,
+  }: PlaySoundOnSelectComponentOptions = {}) {
+    super();
+    this.preset = preset;
+    this.volume = volume;
+    this.playOnTouch = playOnTouch;
+  }
+
+  init({sound}: {sound: CoreSound}) {
+    this.sound = sound;
+  }
+
+  onObjectSelectStart() {
+    this.play();
+    return false;
+  }
+
+  onObjectTouchStart() {
+    if (this.playOnTouch) {
+      this.play();
+    }
+  }
+
+  /**
+   * Plays the sound preset.
+   */
+  play() {
+    this.sound.soundSynthesizer.playPresetTone(this.preset, this.volume);
+  }
+}
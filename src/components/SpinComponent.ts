@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+
+import {Component} from '../core/Component';
+
+export interface SpinComponentOptions {
+  /** The axis in the object's local space. Defaults to the y-axis. */
+  axis?: THREE.Vector3;
+  /** The angular speed in radians per second. */
+  speed?: number;
+}
+
+/**
+ * Rotates the object around an axis at a constant speed, following the clock
+ * so pausing or scaling the clock also affects the rotation.
+ */
+export class SpinComponent extends Component {
+  static dependencies = {timer: THREE.Timer};
+
+  axis = new THREE.Vector3(0, 1, 0);
+  speed: number;
+  private timer!: THREE.Timer;
+
+  constructor({axis, speed = Math.PI / 2}: SpinComponentOptions = {}) {
+    super();
+    if (axis) {
+      this.axis.copy(axis).normalize();
+    }
+    this.speed = speed;
+  }
+
+  init({timer}: {timer: THREE.Timer}) {
+    this.timer = timer;
+  }
+
+  update() {
+    this.object.rotateOnAxis(this.axis, this.speed * this.timer.getDelta());
+  }
+}
@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+
+import type {Physics} from '../physics/Physics';
+import type {Injectable} from '../utils/DependencyInjection';
+import type {Constructor} from '../utils/Types';
+
+import type {Tasks} from './components/TaskScheduler';
+import type {
+  KeyEvent,
+  ObjectGrabEvent,
+  ObjectTouchEvent,
+  PhysicsStepEvent,
+  SelectEvent,
+} from './Script';
+
+/**
+ * A lightweight behavior attached to any `THREE.Object3D`, including meshes
+ * loaded by `ModelLoader`, with `addComponent(object, component)`. Unlike a
+ * Script, a component is not part of the scene graph itself, so several
+ * components can be combined on one object without subclassing it.
+ *
+ * Components of objects in the scene receive the same lifecycle and
+ * interaction callbacks as scripts, including `static dependencies` for
+ * `init`. Interaction callbacks such as `onObjectSelectStart` and
+ * `onHoverEnter` are called when the object or one of its descendants is the
+ * target.
+ *
+ * See /docs/manual/Scripts.md for the full documentation.
+ */
+export class Component implements Injectable {
+  isXRComponent = true;
+
+  /** The name of the component used in error messages. */
+  name = '';
+
+  /** The object the component is attached to. */
+  object!: THREE.Object3D;
+
+  /**
+   * Whether the component receives lifecycle and input callbacks. `onEnable`
+   * and `onDisable` are called at the start of the next frame after this
+   * changes.
+   */
+  enabled = true;
+
+  /**
+   * Components and scripts with a lower execution order receive each callback
+   * first.
+   */
+  executionOrder = 0;
+
+  /**
+   * Awaitable waits for sequenced behavior. Assigned before `init` and
+   * cancelled whenever the component is disabled or disposed.
+   */
+  tasks!: Tasks;
+
+  /**
+   * Called when the object of the component is found in the scene. If this
+   * returns a promise, we will wait for it.
+   */
+  init(_?: object): void | Promise<void> {}
+
+  /**
+   * Runs per frame.
+   */
+  update(_time?: number, _frame?: XRFrame) {}
+
+  /**
+   * Called after init if the component is enabled, and whenever it is
+   * re-enabled.
+   */
+  onEnable() {}
+
+  /**
+   * Called when the component is disabled, and before dispose if it is
+   * enabled.
+   */
+  onDisable() {}
+
+  initPhysics(_physics: Physics): void | Promise<void> {}
+
+  /**
+   * Runs once per fixed physics step, possibly several times per frame.
+   */
+  physicsStep(_event?: PhysicsStepEvent) {}
+
+  onXRSessionStarted(_session?: XRSession) {}
+  onXRSessionEnded() {}
+  onSimulatorStarted() {}
+
+  /**
+   * Called when the app is paused because the tab is hidden or the XR session
+   * is not fully visible.
+   */
+  onPause() {}
+
+  /**
+   * Called when the app resumes after `onPause`.
+   */
+  onResume() {}
+
+  // Global controller callbacks, see Script.
+  onSelectStart(_event: SelectEvent) {}
+  onSelectEnd(_event: SelectEvent) {}
+  onSelect(_event: SelectEvent) {}
+  onSelecting(_event: SelectEvent) {}
+  onSqueezeStart(_event: SelectEvent) {}
+  onSqueezeEnd(_event: SelectEvent) {}
+  onSqueeze(_event: SelectEvent) {}
+  onSqueezing(_event: SelectEvent) {}
+  onKeyDown(_event: KeyEvent) {}
+  onKeyUp(_event: KeyEvent) {}
+
+  // Object-specific controller callbacks, see Script.
+  /**
+   * Called when a controller starts selecting the object.
+   * @returns Whether the event was handled, which stops it from propagating
+   * to ancestors of the object.
+   */
+  onObjectSelectStart(_event: SelectEvent) {
+    return false;
+  }
+  /**
+   * Called when a controller stops selecting the object.
+   * @returns Whether the event was handled, which stops it from propagating
+   * to ancestors of the object.
+   */
+  onObjectSelectEnd(_event: SelectEvent) {
+    return false;
+  }
+  onHoverEnter(_controller: THREE.Object3D) {}
+  onHoverExit(_controller: THREE.Object3D) {}
+  onHovering(_controller: THREE.Object3D) {}
+  onObjectTouchStart(_event: ObjectTouchEvent) {}
+  onObjectTouching(_event: ObjectTouchEvent) {}
+  onObjectTouchEnd(_event: ObjectTouchEvent) {}
+  onObjectGrabStart(_event: ObjectGrabEvent) {}
+  onObjectGrabbing(_event: ObjectGrabEvent) {}
+  onObjectGrabEnd(_event: ObjectGrabEvent) {}
+
+  /**
+   * Called when the component or its object is removed from the scene.
+   * Opposite of init.
+   */
+  dispose() {}
+}
+
+const componentsByObject = new WeakMap<THREE.Object3D, Component[]>();
+const noComponents: readonly Component[] = [];
+
+/**
+ * Attaches a component to an object. The component is initialized once the
+ * object is in the scene.
+ * @param object - The object to attach the component to.
+ * @param component - The component, which must not be attached elsewhere.
+ * @returns The component.
+ */
+export function addComponent<T extends Component>(
+  object: THREE.Object3D,
+  component: T
+) {
+  if (
+    component.object &&
+    component.object !== object &&
+    getComponents(component.object).includes(component)
+  ) {
+    throw new Error(
+      `Component ${component.constructor.name} is already attached to another object.`
+    );
+  }
+  let components = componentsByObject.get(object);
+  if (!components) {
+    components = [];
+    componentsByObject.set(object, components);
+  }
+  if (!components.includes(component)) {
+    component.object = object;
+    components.push(component);
+  }
+  return component;
+}
+
+/**
+ * Detaches a component from its object. It is disposed at the start of the
+ * next frame.
+ * @param object - The object the component is attached to.
+ * @param component - The component to detach.
+ * @returns Whether the component was attached to the object.
+ */
+export function removeComponent(object: THREE.Object3D, component: Component) {
+  const components = componentsByObject.get(object);
+  const index = components?.indexOf(component) ?? -1;
+  if (index < 0) {
+    return false;
+  }
+  components!.splice(index, 1);
+  if (components!.length == 0) {
+    componentsByObject.delete(object);
+  }
+  return true;
+}
+
+/**
+ * @param object - The object.
+ * @param type - The class of the component.
+ * @returns The first component of the given class attached to the object.
+ */
+export function getComponent<T extends Component>(
+  object: THREE.Object3D,
+  type: Constructor<T>
+) {
+  return componentsByObject
+    .get(object)
+    ?.find((component): component is T => component instanceof type);
+}
+
+/**
+ * @param object - The object.
+ * @returns The components attached to the object.
+ */
+export function getComponents(object: THREE.Object3D): readonly Component[] {
+  return componentsByObject.get(object) ?? noComponents;
+}
@@ -11,6 +11,9 @@ import {GestureRecognition} from '../input/gestures/GestureRecognition';
 import {GestureRecognitionOptions} from '../input/gestures/GestureRecognitionOptions.js';
 import {Input} from '../input/Input';
 import {Lighting} from '../lighting/Lighting';
+import {logManager} from '../logging/Logger';
+import {LogPanel} from '../logging/LogPanel';
+import {WebSocketLogSink} from '../logging/LogSinks';
 import {Physics} from '../physics/Physics';
 import {Simulator} from '../simulator/Simulator';
 import {SimulatorOptions} from '../simulator/SimulatorOptions';
@@ -24,9 +27,18 @@ import {DragManager} from '../ux/DragManager';
 import {World} from '../world/World';
 import {WorldOptions} from '../world/WorldOptions';
 
+import {Clock} from './components/Clock';
+import {CommandHistory} from './components/CommandHistory';
+import {EventBus} from './components/EventBus';
+import {PluginManager} from './components/PluginManager';
+import {Profiler} from './components/Profiler';
+import {ProfilerHUD} from './components/ProfilerHUD';
 import {Registry} from './components/Registry';
+import {SceneSerializer} from './components/SceneSerializer';
 import {ScreenshotSynthesizer} from './components/ScreenshotSynthesizer';
+import {ScriptErrorOverlay} from './components/ScriptErrorOverlay';
 import {ScriptsManager} from './components/ScriptsManager';
+import {TaskScheduler} from './components/TaskScheduler';
 import {WaitFrame} from './components/WaitFrame';
 import {
   IMMERSIVE_AR,
@@ -36,7 +48,9 @@ import {
 import {XRButton} from './components/XRButton';
 import {XREffects} from './components/XREffects';
 import {XRTransition} from './components/XRTransition';
-import {Options} from './Options';
+import type {Component} from './Component';
+import {ClockOptions, Options} from './Options';
+import type {Plugin} from './Plugin';
 import {Script} from './Script';
 import {User} from './User';
 import {PermissionsManager} from './components/PermissionsManager';
@@ -63,9 +77,29 @@ export class Core {
   registry = new Registry();
 
   /**
-   * A clock for tracking time deltas. Call clock.getDeltaTime().
+   * App-wide event bus on which scripts and core subsystems publish and
+   * subscribe to typed topics.
    */
-  timer = new THREE.Timer();
+  eventBus = new EventBus();
+
+  /**
+   * The clock driving all per-frame updates. Call timer.getDelta() for the
+   * time since the previous frame in seconds. Registered as both `Clock` and
+   * `THREE.Timer`.
+   */
+  timer = new Clock();
+
+  /** Creates the awaitable `tasks` of scripts and simulator journeys. */
+  taskScheduler = new TaskScheduler(this.waitFrame, this.timer);
+
+  /** Measures time spent in subsystems and scripts each frame. */
+  profiler = new Profiler();
+
+  /** The app-wide undo/redo history of spatial edits. */
+  commandHistory = new CommandHistory();
+
+  /** Filters log messages of all modules and passes them to sinks. */
+  logManager = logManager;
 
   /** Manages hand, mouse, gaze inputs. */
   input = new Input();
@@ -116,12 +150,17 @@ export class Core {
   gestureRecognition?: GestureRecognition;
   transition?: XRTransition;
   currentFrame?: XRFrame;
-  scriptsManager = new ScriptsManager(async (script: Script) => {
-    await callInitWithDependencyInjection(script, this.registry, this);
-    if (this.physics) {
-      await script.initPhysics(this.physics);
-    }
-  });
+  scriptsManager = new ScriptsManager(
+    async (script: Script | Component) => {
+      await callInitWithDependencyInjection(script, this.registry, this);
+      if (this.physics) {
+        await script.initPhysics(this.physics);
+      }
+    },
+    this.eventBus,
+    this.taskScheduler,
+    this.profiler
+  );
   renderSceneOverride?: (
     renderer: THREE.WebGLRenderer,
     scene: THREE.Scene,
@@ -130,6 +169,43 @@ export class Core {
   webXRSessionManager?: WebXRSessionManager;
   permissionsManager = new PermissionsManager();
 
+  /** Shows errors thrown from scripts in XR and in the simulator. */
+  scriptErrorOverlay?: ScriptErrorOverlay;
+
+  /**
+   * Shows the slowest profiled sections in a floating panel. Created if
+   * `options.profiler.showHud` is set.
+   */
+  profilerHUD?: ProfilerHUD;
+
+  /**
+   * Shows recent log messages in a floating panel. Created if
+   * `options.logging.showPanel` is set.
+   */
+  logPanel?: LogPanel;
+
+  /** Saves and restores serializable scripts as JSON snapshots. */
+  sceneSerializer = new SceneSerializer(
+    this.scene,
+    this.registry,
+    this.scriptsManager
+  );
+
+  /** Installs plugins and calls their hooks. */
+  pluginManager = new PluginManager(this);
+
+  /**
+   * Whether the app is paused because the browser tab is hidden or the XR
+   * session is not fully visible. Physics does not step while paused.
+   */
+  paused = false;
+
+  private xrVisibilityState: XRVisibilityState = 'visible';
+  private updatePausedBound = this.updatePaused.bind(this);
+
+  /** Elapsed time in milliseconds of frames advanced with `step()`. */
+  private headlessTime = 0;
+
   /**
    * Core is a singleton manager that manages all XR "blocks".
    * It initializes core components and abstractions like the scene, camera,
@@ -153,9 +229,15 @@ export class Core {
     this.scene.add(this.world);
 
     this.registry.register(this.registry);
+    this.registry.register(this.eventBus);
     this.registry.register(this.waitFrame);
     this.registry.register(this.scene);
     this.registry.register(this.timer);
+    this.registry.register(this.timer, THREE.Timer);
+    this.registry.register(this.taskScheduler);
+    this.registry.register(this.profiler);
+    this.registry.register(this.commandHistory);
+    this.registry.register(this.logManager);
     this.registry.register(this.input);
     this.registry.register(this.user);
     this.registry.register(this.ui);
@@ -164,9 +246,24 @@ export class Core {
     this.registry.register(this.user);
     this.registry.register(this.simulator);
     this.registry.register(this.scriptsManager);
+    this.registry.register(this.sceneSerializer);
+    this.registry.register(this.pluginManager);
     this.registry.register(this.depth);
   }
 
+  /**
+   * Installs a plugin which adds a custom subsystem to Core. Call before
+   * `init()` so the plugin's WebXR features can be requested. Plugins
+   * installed after `init()` are initialized in the background, and errors
+   * of their initialization are logged.
+   * @param plugin - The plugin to install.
+   * @returns The instance for chaining.
+   */
+  use(plugin: Plugin) {
+    this.pluginManager.use(plugin);
+    return this;
+  }
+
   /**
    * Initializes the Core system with a given set of options. This includes
    * setting up the renderer, enabling features like controllers, depth
@@ -175,7 +272,12 @@ export class Core {
    * session.
    */
   async init(options = new Options()) {
-    loadingSpinnerManager.showSpinner();
+    if (!options.headless) {
+      loadingSpinnerManager.showSpinner();
+      if (options.urlOverrides) {
+        options.applyUrlParams();
+      }
+    }
 
     this.registry.register(options, Options);
     this.registry.register(options.depth, DepthOptions);
@@ -184,6 +286,23 @@ export class Core {
     this.registry.register(options.ai, AIOptions);
     this.registry.register(options.sound, SoundOptions);
     this.registry.register(options.gestures, GestureRecognitionOptions);
+    this.registry.register(options.clock, ClockOptions);
+
+    for (const plugin of options.plugins) {
+      await this.pluginManager.use(plugin);
+    }
+
+    this.logManager.configure(options.logging, options.debugging);
+    if (options.logging.webSocketUrl && !options.headless) {
+      this.logManager.addSink(
+        new WebSocketLogSink(options.logging.webSocketUrl)
+      );
+    }
+
+    this.timer.init(options.clock);
+    this.scriptsManager.maxFailures = options.scriptErrors.maxFailures;
+    this.profiler.enabled = options.profiler.enabled;
+    this.profiler.setWindowSize(options.profiler.windowSize);
 
     if (options.transition.enabled) {
       this.transition = new XRTransition();
@@ -193,12 +312,20 @@ export class Core {
 
     this.camera = new THREE.PerspectiveCamera(
       /*fov=*/ 90,
-      window.innerWidth / window.innerHeight,
+      options.headless ? 1 : window.innerWidth / window.innerHeight,
       /*near=*/ options.camera.near,
       /*far=*/ options.camera.far
     );
     this.registry.register(this.camera, THREE.Camera);
     this.registry.register(this.camera, THREE.PerspectiveCamera);
+
+    this.options = options;
+
+    if (options.headless) {
+      await this.initHeadless(options);
+      return;
+    }
+
     this.renderer = new THREE.WebGLRenderer({
       canvas: options.canvas,
       antialias: options.antialias,
@@ -223,21 +350,24 @@ export class Core {
       xrContainer.appendChild(this.renderer.domElement);
     }
 
-    this.options = options;
+    if (options.scriptErrors.showOverlay) {
+      this.scriptErrorOverlay = new ScriptErrorOverlay();
+      this.scene.add(this.scriptErrorOverlay);
+    }
+
+    if (options.profiler.showHud) {
+      this.profilerHUD = new ProfilerHUD();
+      this.scene.add(this.profilerHUD);
+    }
+
+    if (options.logging.showPanel) {
+      this.logPanel = new LogPanel();
+      this.scene.add(this.logPanel);
+    }
 
     // Sets up controllers.
     if (options.controllers.enabled) {
-      this.input.init({
-        scene: this.scene,
-        options: options,
-        renderer: this.renderer,
-      });
-      this.input.bindSelectStart(this.scriptsManager.callSelectStartBound);
-      this.input.bindSelectEnd(this.scriptsManager.callSelectEndBound);
-      this.input.bindSelect(this.scriptsManager.callSelectBound);
-      this.input.bindSqueezeStart(this.scriptsManager.callSqueezeStartBound);
-      this.input.bindSqueezeEnd(this.scriptsManager.callSqueezeEndBound);
-      this.input.bindSqueeze(this.scriptsManager.callSqueezeBound);
+      this.initInput(options);
       this.input.bindKeyDown(this.scriptsManager.callKeyDownBound);
       this.input.bindKeyUp(this.scriptsManager.callKeyUpBound);
     }
@@ -272,12 +402,7 @@ export class Core {
     }
     if (options.hands.enabled) {
       webXRRequiredFeatures.push('hand-tracking');
-      this.user.hands = new Hands(this.input.hands);
-      if (options.gestures.enabled) {
-        this.gestureRecognition = new GestureRecognition();
-        this.scene.add(this.gestureRecognition);
-        this.registry.register(this.gestureRecognition);
-      }
+      this.initHands(options);
     }
     if (options.world.planes.enabled) {
       webXRRequiredFeatures.push('plane-detection');
@@ -296,19 +421,16 @@ export class Core {
     }
 
     // Sets up physics.
-    if (options.physics && options.physics.RAPIER) {
-      this.physics = new Physics();
-      this.registry.register(this.physics);
-      await this.physics.init({physicsOptions: options.physics});
-
-      if (options.depth.enabled) {
-        this.depth.depthMesh?.initRapierPhysics(
-          this.physics.RAPIER,
-          this.physics.blendedWorld
-        );
-      }
+    await this.initPhysics(options);
+    if (this.physics && options.depth.enabled) {
+      this.depth.depthMesh?.initRapierPhysics(
+        this.physics.RAPIER,
+        this.physics.blendedWorld
+      );
     }
 
+    this.pluginManager.addFeatures(this.webXRSettings);
+
     this.webXRSessionManager = new WebXRSessionManager(
       this.renderer,
       this.webXRSettings,
@@ -322,6 +444,13 @@ export class Core {
       WebXRSessionEventType.SESSION_END,
       this.onXRSessionEnded.bind(this)
     );
+    this.webXRSessionManager.addEventListener(
+      WebXRSessionEventType.VISIBILITY_CHANGE,
+      (event) => {
+        this.xrVisibilityState = event.visibilityState;
+        this.updatePaused();
+      }
+    );
 
     // Sets up xrButton.
     let shouldAutostartSimulator =
@@ -360,24 +489,21 @@ export class Core {
     }
 
     // Sets up AI services.
-    if (options.ai.enabled) {
-      this.registry.register(this.ai);
-      this.scene.add(this.ai);
-      // Manually init the script in case other scripts rely on it.
-      await this.scriptsManager.initScript(this.ai);
-    }
+    await this.initAI(options);
+
+    await this.pluginManager.init(options);
 
     await this.scriptsManager.syncScriptsWithScene(this.scene);
 
+    this.profilerHUD?.show();
+    this.logPanel?.show();
+
     // For desktop only:
     window.addEventListener('resize', this.onWindowResize.bind(this));
+    document.addEventListener('visibilitychange', this.updatePausedBound);
 
     this.renderer.setAnimationLoop(this.update.bind(this));
 
-    if (this.physics) {
-      setInterval(this.physicsStep.bind(this), 1000 * this.physics.timestep);
-    }
-
     if (this.options.reticles.enabled) {
       this.input.addReticles();
     }
@@ -391,6 +517,100 @@ export class Core {
     }
   }
 
+  /**
+   * Initializes Core without a renderer, DOM, or WebXR session. Only
+   * subsystems which do not depend on rendering are set up; frames are
+   * advanced manually with `step()`.
+   * @param options - Configuration options for the session.
+   */
+  private async initHeadless(options: Options) {
+    this.timer.reset(this.headlessTime);
+    if (options.controllers.enabled) {
+      this.initInput(options);
+    }
+    if (options.hands.enabled) {
+      this.initHands(options);
+    }
+    await this.initPhysics(options);
+    await this.initAI(options);
+    await this.pluginManager.init(options);
+    await this.scriptsManager.syncScriptsWithScene(this.scene);
+    if (this.options.reticles.enabled) {
+      this.input.addReticles();
+    }
+  }
+
+  /**
+   * Sets up controllers and forwards their events to scripts.
+   * @param options - Configuration options for the session.
+   */
+  private initInput(options: Options) {
+    this.input.init({
+      scene: this.scene,
+      options: options,
+      renderer: this.renderer,
+    });
+    this.input.bindSelectStart(this.scriptsManager.callSelectStartBound);
+    this.input.bindSelectEnd(this.scriptsManager.callSelectEndBound);
+    this.input.bindSelect(this.scriptsManager.callSelectBound);
+    this.input.bindSqueezeStart(this.scriptsManager.callSqueezeStartBound);
+    this.input.bindSqueezeEnd(this.scriptsManager.callSqueezeEndBound);
+    this.input.bindSqueeze(this.scriptsManager.callSqueezeBound);
+  }
+
+  /**
+   * Sets up hands and, if enabled, gesture recognition.
+   * @param options - Configuration options for the session.
+   */
+  private initHands(options: Options) {
+    this.user.hands = new Hands(this.input.hands);
+    if (options.gestures.enabled) {
+      this.gestureRecognition = new GestureRecognition();
+      this.scene.add(this.gestureRecognition);
+      this.registry.register(this.gestureRecognition);
+    }
+  }
+
+  /**
+   * Sets up physics if a RAPIER module is provided in the options.
+   * @param options - Configuration options for the session.
+   */
+  private async initPhysics(options: Options) {
+    if (options.physics && options.physics.RAPIER) {
+      this.physics = new Physics();
+      this.registry.register(this.physics);
+      await this.physics.init({physicsOptions: options.physics});
+    }
+  }
+
+  /**
+   * Sets up AI services if enabled.
+   * @param options - Configuration options for the session.
+   */
+  private async initAI(options: Options) {
+    if (options.ai.enabled) {
+      this.registry.register(this.ai);
+      this.scene.add(this.ai);
+      // Manually init the script in case other scripts rely on it.
+      await this.scriptsManager.initScript(this.ai);
+    }
+  }
+
+  /**
+   * Advances a headless Core by one frame. Scripts added to the scene since
+   * the previous step are initialized before the frame runs.
+   * @param dtMs - The time since the previous frame in milliseconds.
+   * @param frame - An optional (mock) WebXR frame passed to scripts.
+   */
+  async step(dtMs: number, frame?: XRFrame) {
+    if (!this.options?.headless) {
+      throw new Error('Core.step() is only available in headless mode.');
+    }
+    this.headlessTime += dtMs;
+    await this.scriptsManager.syncScriptsWithScene(this.scene);
+    this.update(this.headlessTime, frame);
+  }
+
   /**
    * The main update loop, called every frame by the renderer. It orchestrates
    * all per-frame updates for subsystems and scripts.
@@ -399,65 +619,101 @@ export class Core {
    * 1. Depth
    * 2. World Perception
    * 3. Input / Reticles / UIs
-   * 4. Scripts
-   * @param time - The current time in milliseconds.
+   * 4. Physics
+   * 5. Scripts
+   * 6. Rendering
+   * Plugins are called before and after input and rendering.
+   * @param timestamp - The wall-clock time of the frame in milliseconds.
    * @param frame - The WebXR frame object, if in an XR session.
    */
-  private update(time: number, frame: XRFrame) {
+  private update(timestamp: number, frame?: XRFrame) {
+    const profiler = this.profiler;
+    profiler.beginFrame();
     this.currentFrame = frame;
-    this.timer.update(time);
+    this.timer.update(timestamp);
+    const time = 1000 * this.timer.getElapsed();
     if (this.simulatorRunning) {
       this.simulator.simulatorUpdate();
+      this.pluginManager.simulatorUpdate();
     }
+    let startTime = profiler.now();
     this.depth.update(frame);
+    profiler.record('depth', startTime);
 
     if (this.lighting) {
+      startTime = profiler.now();
       this.lighting.update();
+      profiler.record('lighting', startTime);
     }
 
     // Traverse the scene to find all scripts.
     this.scriptsManager.syncScriptsWithScene(this.scene);
 
+    this.pluginManager.callPhase('preInput', time, frame);
+
     // Updates reticles and UIs.
+    startTime = profiler.now();
     for (const script of this.scriptsManager.scripts) {
       script.ux.reset();
     }
     this.input.update();
+    profiler.record('input', startTime);
 
     // Updates scripts with user interactions.
     for (const controller of this.input.controllers) {
       if (controller.userData.selected) {
-        for (const script of this.scriptsManager.scripts) {
-          script.onSelecting({target: controller});
-        }
+        this.scriptsManager.callSelecting({target: controller});
       }
     }
 
     for (const controller of this.input.controllers) {
       if (controller.userData.squeezing) {
-        for (const script of this.scriptsManager.scripts) {
-          script.onSqueezing({target: controller});
-        }
+        this.scriptsManager.callSqueezing({target: controller});
       }
     }
 
+    this.pluginManager.callPhase('postInput', time, frame);
+
     // Run callbacks that use wait frame.
     this.waitFrame.onFrame();
 
-    // Updates renderings.
-    for (const script of this.scriptsManager.scripts) {
-      script.update(time, frame);
+    if (this.physics && !this.paused) {
+      startTime = profiler.now();
+      const steps = this.physics.advance(this.timer.getDelta());
+      for (let i = 0; i < steps; ++i) {
+        this.physicsStep();
+      }
+      this.physics.interpolate();
+      profiler.record('physics', startTime);
     }
 
-    this.renderSimulatorAndScene();
-    this.screenshotSynthesizer.onAfterRender(
-      this.renderer,
-      this.renderSceneBound,
-      this.deviceCamera
-    );
-    if (this.simulatorRunning) {
-      this.simulator.renderSimulatorScene();
+    // Updates renderings.
+    startTime = profiler.now();
+    this.scriptsManager.callUpdate(time, frame);
+    profiler.record('scripts', startTime);
+
+    this.pluginManager.callPhase('preRender', time, frame);
+
+    if (!this.options.headless) {
+      startTime = profiler.now();
+      this.renderSimulatorAndScene();
+      profiler.record('render', startTime);
+      startTime = profiler.now();
+      this.screenshotSynthesizer.onAfterRender(
+        this.renderer,
+        this.renderSceneBound,
+        this.deviceCamera
+      );
+      profiler.record('screenshot', startTime);
+      if (this.simulatorRunning) {
+        startTime = profiler.now();
+        this.simulator.renderSimulatorScene();
+        profiler.record('render', startTime);
+      }
     }
+
+    this.pluginManager.callPhase('postRender', time, frame);
+    profiler.endFrame();
   }
 
   /**
@@ -465,10 +721,13 @@ export class Core {
    * corresponding physics update on all active scripts.
    */
   private physicsStep() {
-    this.physics!.physicsStep();
-    for (const script of this.scriptsManager.scripts) {
-      script.physicsStep();
-    }
+    const physics = this.physics!;
+    physics.physicsStep();
+    this.scriptsManager.callPhysicsStep({
+      timestep: physics.timestep,
+      alpha: physics.alpha,
+    });
+    this.waitFrame.onPhysicsStep();
   }
 
   /**
@@ -496,6 +755,27 @@ export class Core {
    */
   private onXRSessionEnded() {
     this.scriptsManager.onXRSessionEnded();
+    this.xrVisibilityState = 'visible';
+    this.updatePaused();
+  }
+
+  /**
+   * Pauses or resumes the app when the visibility of the tab or of the XR
+   * session changes, notifying all active scripts.
+   */
+  private updatePaused() {
+    const paused =
+      document.visibilityState == 'hidden' ||
+      this.xrVisibilityState != 'visible';
+    if (paused == this.paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.scriptsManager.onPause();
+    } else {
+      // Do not let the time spent paused advance the timeline.
+      this.timer.reset();
+      this.scriptsManager.onResume();
+    }
   }
 
   /**
@@ -505,6 +785,7 @@ export class Core {
   private onSimulatorStarted() {
     this.simulatorRunning = true;
     this.scriptsManager.onSimulatorStarted();
+    this.pluginManager.onSimulatorStarted();
     if (this.lighting) {
       this.lighting.simulatorRunning = true;
     }
@@ -6,15 +6,164 @@ import {
 } from '../camera/CameraOptions.js';
 import {DepthOptions, xrDepthMeshOptions} from '../depth/DepthOptions.js';
 import {HandsOptions} from '../input/HandsOptions.js';
+import {Handedness} from '../input/Hands';
 import {GestureRecognitionOptions} from '../input/gestures/GestureRecognitionOptions.js';
 import {LightingOptions} from '../lighting/LightingOptions.js';
+import {getLogger, LOG_LEVELS} from '../logging/Logger';
+import {LoggingOptions} from '../logging/LoggingOptions';
 import {PhysicsOptions} from '../physics/PhysicsOptions';
-import {SimulatorOptions} from '../simulator/SimulatorOptions';
+import {SimulatorMode, SimulatorOptions} from '../simulator/SimulatorOptions';
 import {SoundOptions} from '../sound/SoundOptions';
+import {
+  checkOptions,
+  inferOptionsSchema,
+  OptionsIssue,
+  OptionsSchema,
+  OptionsValidationError,
+  parseOptionsParam,
+} from '../utils/OptionsSchema';
 import {deepMerge} from '../utils/OptionsUtils';
 import {DeepPartial, DeepReadonly} from '../utils/Types';
 import {WorldOptions} from '../world/WorldOptions';
 
+import type {Plugin} from './Plugin';
+
+const logger = getLogger('Options');
+
+/** The prefix of URL parameters which override options. */
+const URL_PARAM_PREFIX = 'xb.';
+
+const GESTURE_SCHEMA: OptionsSchema = {
+  type: 'object',
+  properties: {enabled: {type: 'boolean'}, threshold: {type: 'number'}},
+};
+
+const ANY_RECORD_SCHEMA: OptionsSchema = {
+  type: 'object',
+  properties: {},
+  additionalProperties: {type: 'any'},
+};
+
+/**
+ * Schemas of options which can't be inferred from the defaults, keyed by
+ * dotted path.
+ */
+const OPTIONS_SCHEMA_OVERRIDES: Record<string, OptionsSchema> = {
+  canvas: {type: 'any', urlOverride: false},
+  webxrRequiredFeatures: {type: 'array', items: {type: 'string'}},
+  referenceSpaceType: {
+    type: 'string',
+    values: ['viewer', 'local', 'local-floor', 'bounded-floor', 'unbounded'],
+  },
+  plugins: {type: 'array', urlOverride: false},
+  pluginOptions: ANY_RECORD_SCHEMA,
+  'depth.depthTypeRequest': {
+    type: 'array',
+    items: {type: 'string', values: ['raw', 'smooth']},
+  },
+  'deviceCamera.videoConstraints': {type: 'any'},
+  'gestures.provider': {
+    type: 'string',
+    values: ['heuristics', 'mediapipe', 'tfjs'],
+  },
+  'gestures.gestures': {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.keys(new GestureRecognitionOptions().gestures).map((name) => [
+        name,
+        GESTURE_SCHEMA,
+      ])
+    ),
+  },
+  'ai.model': {type: 'string', values: ['gemini', 'openai', 'local', 'mock']},
+  'ai.gemini.apiKey': {type: 'string', urlOverride: false},
+  'ai.gemini.urlParam': {type: 'string', urlOverride: false},
+  'ai.gemini.config': ANY_RECORD_SCHEMA,
+  'ai.gemini.live.startOfSpeechSensitivity': {
+    type: 'string',
+    values: ['LOW', 'HIGH'],
+  },
+  'ai.gemini.live.endOfSpeechSensitivity': {
+    type: 'string',
+    values: ['LOW', 'HIGH'],
+  },
+  'ai.openai.apiKey': {type: 'string', urlOverride: false},
+  'ai.openai.urlParam': {type: 'string', urlOverride: false},
+  'ai.local.api': {type: 'string', values: ['ollama', 'openai']},
+  'ai.local.baseUrl': {type: 'string', urlOverride: false},
+  'ai.local.apiKey': {type: 'string', urlOverride: false},
+  'ai.local.headers': {
+    type: 'object',
+    properties: {},
+    additionalProperties: {type: 'string'},
+    urlOverride: false,
+  },
+  'ai.proxy.enabled': {type: 'boolean', urlOverride: false},
+  'ai.proxy.url': {type: 'string', urlOverride: false},
+  'ai.proxy.sessionPath': {type: 'string', urlOverride: false},
+  'ai.proxy.headers': {
+    type: 'object',
+    properties: {},
+    additionalProperties: {type: 'string'},
+    urlOverride: false,
+  },
+  'ai.queue.modelConcurrency': {
+    type: 'object',
+    properties: {
+      gemini: {type: 'number'},
+      openai: {type: 'number'},
+      local: {type: 'number'},
+      mock: {type: 'number'},
+    },
+  },
+  'ai.cache.mode': {type: 'string', values: ['cache', 'record', 'replay']},
+  'ai.usage.pricing': {
+    type: 'object',
+    properties: {},
+    additionalProperties: {
+      type: 'object',
+      properties: {
+        input: {type: 'number'},
+        output: {type: 'number'},
+        image: {type: 'number'},
+      },
+    },
+  },
+  'ai.usage.budget.action': {type: 'string', values: ['warn', 'block']},
+  'ai.mock.fixtures': {type: 'array', items: ANY_RECORD_SCHEMA},
+  'ai.mock.fixturesUrl': {type: 'string', urlOverride: false},
+  'simulator.videoPath': {type: 'string'},
+  'simulator.defaultMode': {
+    type: 'string',
+    values: Object.values(SimulatorMode),
+  },
+  'simulator.defaultHand': {
+    type: 'number',
+    values: [Handedness.NONE, Handedness.LEFT, Handedness.RIGHT],
+  },
+  'simulator.blendingMode': {type: 'string', values: ['normal', 'screen']},
+  'world.objects.backendConfig.activeBackend': {
+    type: 'string',
+    values: ['gemini', 'mediapipe'],
+  },
+  'world.objects.backendConfig.gemini.responseSchema': {type: 'any'},
+  'world.objects.backendConfig.mediapipe': ANY_RECORD_SCHEMA,
+  'physics.RAPIER': {type: 'any', urlOverride: false},
+  'logging.level': {type: 'string', values: LOG_LEVELS},
+  'logging.levels': {
+    type: 'object',
+    properties: {},
+    additionalProperties: {type: 'string', values: LOG_LEVELS},
+  },
+  'logging.webSocketUrl': {type: 'string', urlOverride: false},
+};
+
+function reportIssues(issues: OptionsIssue[]) {
+  for (const {path, message} of issues) {
+    logger.warn(`Invalid option '${path}': ${message}`);
+  }
+}
+
 /**
  * Default options for XR controllers, which encompass hands by default in
  * Android XR, mouse input on desktop, tracked controllers, and gamepads.
@@ -51,6 +200,51 @@ export class XRTransitionOptions {
   defaultBackgroundColor = 0xffffff;
 }
 
+/**
+ * Options for the clock which drives all per-frame updates.
+ */
+export class ClockOptions {
+  /**
+   * Whether each frame advances time by `timestep` instead of the elapsed
+   * wall-clock time. Enable for reproducible runs.
+   */
+  fixedTimestep = false;
+  /** The duration of a fixed or single-stepped frame in seconds. */
+  timestep = 1 / 60;
+  /** Multiplier applied to every frame's delta, e.g. 0.5 for slow motion. */
+  timescale = 1;
+  /** Whether the clock starts paused. */
+  paused = false;
+}
+
+/**
+ * Options for handling errors thrown from script callbacks.
+ */
+export class ScriptErrorOptions {
+  /**
+   * The number of errors after which a script is disabled. If 0, scripts are
+   * never disabled.
+   */
+  maxFailures = 5;
+  /**
+   * Whether to show a diagnostic panel in XR and in the simulator when a
+   * script throws.
+   */
+  showOverlay = true;
+}
+
+/**
+ * Options for measuring where frame time is spent.
+ */
+export class ProfilerOptions {
+  /** Whether Core subsystems and script updates are measured. */
+  enabled = false;
+  /** The number of frames statistics are aggregated over. */
+  windowSize = 120;
+  /** Whether to show the profiler HUD panel after init. */
+  showHud = false;
+}
+
 /**
  * A central configuration class for the entire XR Blocks system. It aggregates
  * all settings and provides chainable methods for enabling common features.
@@ -79,6 +273,22 @@ export class Options {
    */
   canvas?: HTMLCanvasElement;
 
+  /**
+   * Whether to run without a WebGL renderer, DOM, or WebXR session, e.g. for
+   * testing scripts in Node. Frames are not scheduled automatically and must
+   * be advanced with `core.step()`. Rendering-dependent subsystems such as
+   * depth, lighting, device camera, post-processing and the simulator are
+   * not available in this mode.
+   */
+  headless = false;
+
+  /**
+   * Whether options can be overridden with URL parameters prefixed with
+   * `xb.`, e.g. `?xb.depth.enabled=true`, so features can be toggled on a
+   * device without rebuilding. Applied by `core.init()`.
+   */
+  urlOverrides = true;
+
   /**
    * Any additional required features when initializing webxr.
    */
@@ -101,6 +311,19 @@ export class Options {
   world = new WorldOptions();
   physics = new PhysicsOptions();
   transition = new XRTransitionOptions();
+  clock = new ClockOptions();
+  scriptErrors = new ScriptErrorOptions();
+  profiler = new ProfilerOptions();
+  logging = new LoggingOptions();
+
+  /**
+   * Plugins to install into Core, in addition to the ones installed with
+   * `core.use()`.
+   */
+  plugins: Plugin[] = [];
+
+  /** Options blocks of plugins, keyed by plugin name. */
+  pluginOptions: Record<string, object> = {};
   camera = {
     near: 0.01,
     far: 500,
@@ -138,13 +361,91 @@ export class Options {
 
   /**
    * Constructs the Options object by merging default values with provided
-   * custom options.
+   * custom options. Unknown keys and values of the wrong type are reported as
+   * warnings.
    * @param options - A custom options object to override the defaults.
    */
   constructor(options?: DeepReadonly<DeepPartial<Options>>) {
+    if (options) {
+      const schema = inferOptionsSchema(this, OPTIONS_SCHEMA_OVERRIDES);
+      reportIssues(checkOptions(schema, options).issues);
+    }
     deepMerge(this, options);
   }
 
+  /**
+   * @returns The schema of all options, inferred from the defaults.
+   */
+  static getSchema() {
+    return inferOptionsSchema(new Options(), OPTIONS_SCHEMA_OVERRIDES);
+  }
+
+  /**
+   * Validates options, e.g. parsed from JSON, without applying them.
+   * @param options - The options to validate.
+   * @returns The problems found, such as unknown keys and type mismatches.
+   */
+  static validate(options: unknown) {
+    return checkOptions(Options.getSchema(), options).issues;
+  }
+
+  /**
+   * Creates options from JSON. Invalid values are skipped and reported as
+   * warnings, or throw in strict mode.
+   * @param json - A JSON string or parsed JSON object.
+   * @param strict - Whether to throw an `OptionsValidationError` instead.
+   * @returns The options.
+   */
+  static fromJSON(json: string | object, strict = false) {
+    const parsed = typeof json === 'string' ? JSON.parse(json) : json;
+    const {value, issues} = checkOptions(Options.getSchema(), parsed);
+    if (strict && issues.length) {
+      throw new OptionsValidationError(issues);
+    }
+    reportIssues(issues);
+    return new Options(value as ConstructorParameters<typeof Options>[0]);
+  }
+
+  /**
+   * Loads options from a JSON file.
+   * @param url - The URL of the JSON file.
+   * @param strict - Whether to throw an `OptionsValidationError` for invalid
+   * values instead of skipping them.
+   * @returns The options.
+   */
+  static async load(url: string, strict = false) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load options from ${url}: ${response.status}`);
+    }
+    return Options.fromJSON(await response.json(), strict);
+  }
+
+  /**
+   * Applies URL parameters prefixed with `xb.`, e.g.
+   * `?xb.depth.enabled=true&xb.simulator.defaultMode=Hands`. Arrays and
+   * objects are given as JSON. Invalid parameters are skipped and reported as
+   * warnings.
+   * @param search - The query string, defaults to the page's.
+   * @returns The problems found.
+   */
+  applyUrlParams(search = window.location.search) {
+    const schema = inferOptionsSchema(this, OPTIONS_SCHEMA_OVERRIDES);
+    const issues: OptionsIssue[] = [];
+    for (const [key, text] of new URLSearchParams(search)) {
+      if (!key.startsWith(URL_PARAM_PREFIX)) continue;
+      const path = key.slice(URL_PARAM_PREFIX.length);
+      const {value, issue} = parseOptionsParam(schema, path, text);
+      if (issue) {
+        issues.push(issue);
+      } else {
+        deepMerge(this, value);
+      }
+    }
+    reportIssues(issues);
+    return issues;
+  }
+
   /**
    * Enables a standard set of options for a UI-focused experience.
    * @returns The instance for chaining.
@@ -173,6 +474,16 @@ export class Options {
     return this;
   }
 
+  /**
+   * Enables the profiler and shows its HUD panel.
+   * @returns The instance for chaining.
+   */
+  enableProfiler() {
+    this.profiler.enabled = true;
+    this.profiler.showHud = true;
+    return this;
+  }
+
   /**
    * Enables plane detection.
    * @returns The instance for chaining.
@@ -0,0 +1,66 @@
+import type {Simulator} from '../simulator/Simulator';
+
+import type {Core} from './Core';
+
+/**
+ * The phases of Core's frame loop which plugins can hook into:
+ * - `preInput`: After scripts are synced with the scene, before controllers
+ *   and reticles are updated.
+ * - `postInput`: After controller callbacks, before physics and script
+ *   updates.
+ * - `preRender`: After script updates, before the scene is rendered.
+ * - `postRender`: After the scene is rendered.
+ */
+export type PluginPhase = 'preInput' | 'postInput' | 'preRender' | 'postRender';
+
+/**
+ * A plugin adds a custom subsystem to Core without editing `Core.init`.
+ * Install plugins with `core.use(plugin)` or `options.plugins` before calling
+ * `core.init()`.
+ */
+export interface Plugin<TOptions extends object = object> {
+  /**
+   * A unique name of the plugin. It is also the key of the plugin's options
+   * in `options.pluginOptions`.
+   */
+  name: string;
+
+  /**
+   * The default options block of the plugin. Values in
+   * `options.pluginOptions[name]` are merged into it before `init` and the
+   * merged block is stored back in `options.pluginOptions[name]`. If it is a
+   * class instance, it is also registered in the `Registry`.
+   */
+  options?: TOptions;
+
+  /** WebXR features which the XR session requires. */
+  requiredFeatures?: string[];
+
+  /** WebXR features which the XR session uses if available. */
+  optionalFeatures?: string[];
+
+  /**
+   * Called once during `Core.init` after the built-in subsystems are set up
+   * and before scripts in the scene are initialized. Register instances in
+   * `core.registry` or add scripts to `core.scene` here.
+   */
+  init?(core: Core, options: TOptions): void | Promise<void>;
+
+  /** Called every frame in the `preInput` phase. */
+  preInput?(time: number, frame?: XRFrame): void;
+
+  /** Called every frame in the `postInput` phase. */
+  postInput?(time: number, frame?: XRFrame): void;
+
+  /** Called every frame in the `preRender` phase. */
+  preRender?(time: number, frame?: XRFrame): void;
+
+  /** Called every frame in the `postRender` phase. */
+  postRender?(time: number, frame?: XRFrame): void;
+
+  /** Called when the desktop simulator starts. */
+  onSimulatorStarted?(simulator: Simulator): void;
+
+  /** Called every frame while the desktop simulator is running. */
+  simulatorUpdate?(simulator: Simulator): void;
+}
@@ -6,6 +6,8 @@ import type {Injectable} from '../utils/DependencyInjection';
 import type {Constructor} from '../utils/Types';
 import {UX} from '../ux/UX';
 
+import type {Tasks} from './components/TaskScheduler';
+
 export interface SelectEvent {
   target: Controller;
 }
@@ -24,6 +26,16 @@ export interface KeyEvent {
   code: string;
 }
 
+export interface PhysicsStepEvent {
+  /** The duration of the physics step in seconds. */
+  timestep: number;
+  /**
+   * The interpolation alpha once all physics steps of the current frame have
+   * run. See `Physics.alpha`.
+   */
+  alpha: number;
+}
+
 /**
  * The Script class facilities development by providing useful life cycle
  * functions similar to MonoBehaviors in Unity.
@@ -53,6 +65,27 @@ export function ScriptMixin<TBase extends Constructor<THREE.Object3D>>(
     ux = new UX(this);
     isXRScript = true;
 
+    /**
+     * Whether the script receives lifecycle and input callbacks. A disabled
+     * script stays in the scene graph. `onEnable` and `onDisable` are called
+     * at the start of the next frame after this changes.
+     */
+    enabled = true;
+
+    /**
+     * Scripts with a lower execution order receive each callback before
+     * scripts with a higher one. Scripts with the same execution order are
+     * called in the order they were initialized.
+     */
+    executionOrder = 0;
+
+    /**
+     * Awaitable waits for sequenced behavior, e.g.
+     * `await this.tasks.seconds(2)`. Assigned before `init` and cancelled
+     * whenever the script is disabled or disposed.
+     */
+    tasks!: Tasks;
+
     /**
      * Initializes an instance with XR controllers, grips, hands, raycaster, and
      * default options. We allow all scripts to quickly access its user (e.g.,
@@ -67,15 +100,44 @@ export function ScriptMixin<TBase extends Constructor<THREE.Object3D>>(
      */
     update(_time?: number, _frame?: XRFrame) {}
 
+    /**
+     * Called after init if the script is enabled, and whenever it is
+     * re-enabled.
+     */
+    onEnable() {}
+
+    /**
+     * Called when the script is disabled, and before dispose if it is enabled.
+     */
+    onDisable() {}
+
     /**
      * Enables depth-aware interactions with physics. See /demos/ballpit
      */
     initPhysics(_physics: Physics): void | Promise<void> {}
-    physicsStep() {}
+
+    /**
+     * Runs once per fixed physics step, possibly several times per frame.
+     * @param _event - Contains the timestep and the interpolation alpha which
+     * can be used to smooth rendered transforms between steps.
+     */
+    physicsStep(_event?: PhysicsStepEvent) {}
 
     onXRSessionStarted(_session?: XRSession) {}
     onXRSessionEnded() {}
 
+    /**
+     * Called when the app is paused because the browser tab is hidden or the
+     * XR session is not fully visible, e.g. while the system menu is open.
+     * Stop streaming media or network traffic here.
+     */
+    onPause() {}
+
+    /**
+     * Called when the app resumes after `onPause`.
+     */
+    onResume() {}
+
     onSimulatorStarted() {}
 
     // Global controller callbacks.
@@ -191,6 +253,22 @@ export function ScriptMixin<TBase extends Constructor<THREE.Object3D>>(
      */
     onObjectGrabEnd(_event: ObjectGrabEvent) {}
 
+    /**
+     * Returns JSON-compatible data to save in a scene snapshot. Only called for
+     * scripts registered with `SceneSerializer.registerType`; the transform
+     * is saved automatically.
+     */
+    serialize(): unknown {
+      return undefined;
+    }
+
+    /**
+     * Restores the data returned by `serialize` from a scene snapshot. Called
+     * after the restored script is initialized.
+     * @param _data - The data saved in the snapshot.
+     */
+    deserialize(_data: unknown): void | Promise<void> {}
+
     /**
      * Called when the script is removed from the scene. Opposite of init.
      */
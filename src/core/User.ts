@@ -6,7 +6,9 @@ import {Input} from '../input/Input';
 import {View} from '../ui/core/View';
 import {objectIsDescendantOf} from '../utils/SceneGraphUtils';
 
+import {Component, getComponents} from './Component';
 import {ObjectGrabEvent, ObjectTouchEvent, Script, SelectEvent} from './Script';
+import {ScriptCallbackName, ScriptsManager} from './components/ScriptsManager';
 
 type MaybeXRScript = THREE.Object3D & {isXRScript?: boolean};
 type MaybeView = THREE.Object3D & {isView?: boolean};
@@ -16,6 +18,15 @@ type MaybeHasIgnoreReticleRaycast = {
 
 const tempBox = new THREE.Box3();
 
+/**
+ * Whether an object is a script which currently receives callbacks.
+ */
+function isEnabledScript(object: THREE.Object3D) {
+  return (
+    (object as MaybeXRScript).isXRScript === true && (object as Script).enabled
+  );
+}
+
 /**
  * User is an embodied instance to manage hands, controllers, speech, and
  * avatars. It extends Script to update human-world interaction.
@@ -28,6 +39,7 @@ export class User extends Script {
   static dependencies = {
     input: Input,
     scene: THREE.Scene,
+    scriptsManager: ScriptsManager,
   };
 
   /**
@@ -106,6 +118,7 @@ export class User extends Script {
   input!: Input;
   scene!: THREE.Scene;
   controllers!: Controller[];
+  scriptsManager!: ScriptsManager;
 
   /**
    * Constructs a new User.
@@ -117,10 +130,19 @@ export class User extends Script {
   /**
    * Initializes the User.
    */
-  init({input, scene}: {input: Input; scene: THREE.Scene}) {
+  init({
+    input,
+    scene,
+    scriptsManager,
+  }: {
+    input: Input;
+    scene: THREE.Scene;
+    scriptsManager: ScriptsManager;
+  }) {
     this.input = input;
     this.controllers = input.controllers;
     this.scene = scene;
+    this.scriptsManager = scriptsManager;
   }
 
   /**
@@ -512,9 +534,7 @@ export class User extends Script {
    */
   callHoverExit(controller: Controller, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onHoverExit(controller);
-    }
+    this.callTarget(target, 'onHoverExit', [controller]);
     this.callHoverExit(controller, target.parent);
   }
 
@@ -525,9 +545,7 @@ export class User extends Script {
    */
   callHoverEnter(controller: Controller, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onHoverEnter(controller);
-    }
+    this.callTarget(target, 'onHoverEnter', [controller]);
     this.callHoverEnter(controller, target.parent);
   }
 
@@ -538,9 +556,7 @@ export class User extends Script {
    */
   callOnHovering(controller: Controller, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onHovering(controller);
-    }
+    this.callTarget(target, 'onHovering', [controller]);
     this.callOnHovering(controller, target.parent);
   }
 
@@ -552,10 +568,7 @@ export class User extends Script {
    */
   callObjectSelectStart(event: SelectEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if (
-      (target as MaybeXRScript).isXRScript &&
-      (target as Script).onObjectSelectStart(event)
-    ) {
+    if (this.callTarget(target, 'onObjectSelectStart', [event])) {
       // The event was handled already so do not propagate up.
       return;
     }
@@ -570,10 +583,7 @@ export class User extends Script {
    */
   callObjectSelectEnd(event: SelectEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if (
-      (target as MaybeXRScript).isXRScript &&
-      (target as Script).onObjectSelectEnd(event)
-    ) {
+    if (this.callTarget(target, 'onObjectSelectEnd', [event])) {
       // The event was handled already so do not propagate up.
       return;
     }
@@ -587,9 +597,7 @@ export class User extends Script {
    */
   callObjectTouchStart(event: ObjectTouchEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectTouchStart(event);
-    }
+    this.callTarget(target, 'onObjectTouchStart', [event]);
     this.callObjectTouchStart(event, target.parent);
   }
 
@@ -600,9 +608,7 @@ export class User extends Script {
    */
   callObjectTouching(event: ObjectTouchEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectTouching(event);
-    }
+    this.callTarget(target, 'onObjectTouching', [event]);
     this.callObjectTouching(event, target.parent);
   }
 
@@ -613,9 +619,7 @@ export class User extends Script {
    */
   callObjectTouchEnd(event: ObjectTouchEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectTouchEnd(event);
-    }
+    this.callTarget(target, 'onObjectTouchEnd', [event]);
     this.callObjectTouchEnd(event, target.parent);
   }
 
@@ -626,9 +630,7 @@ export class User extends Script {
    */
   callObjectGrabStart(event: ObjectGrabEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectGrabStart(event);
-    }
+    this.callTarget(target, 'onObjectGrabStart', [event]);
     this.callObjectGrabStart(event, target.parent);
   }
 
@@ -639,9 +641,7 @@ export class User extends Script {
    */
   callObjectGrabbing(event: ObjectGrabEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectGrabbing(event);
-    }
+    this.callTarget(target, 'onObjectGrabbing', [event]);
     this.callObjectGrabbing(event, target.parent);
   }
 
@@ -652,12 +652,44 @@ export class User extends Script {
    */
   callObjectGrabEnd(event: ObjectGrabEvent, target: THREE.Object3D | null) {
     if (target == null) return;
-    if ((target as MaybeXRScript).isXRScript) {
-      (target as Script).onObjectGrabEnd(event);
-    }
+    this.callTarget(target, 'onObjectGrabEnd', [event]);
     this.callObjectGrabEnd(event, target.parent);
   }
 
+  /**
+   * Calls a callback on a target script and its enabled components. Each is
+   * called separately, so an error is reported for and disables only the
+   * target which threw, not the User.
+   * @param target - The object receiving the callback.
+   * @param callback - The name of the callback.
+   * @param args - The arguments of the callback.
+   * @returns Whether the script or a component handled the event.
+   */
+  private callTarget<K extends ScriptCallbackName>(
+    target: THREE.Object3D,
+    callback: K,
+    args: Parameters<(Script | Component)[K]>
+  ) {
+    let handled = false;
+    if (isEnabledScript(target)) {
+      const result = this.scriptsManager.callScript(
+        target as Script,
+        callback,
+        args
+      );
+      handled = result === true;
+    }
+    for (const component of getComponents(target)) {
+      if (
+        component.enabled &&
+        this.scriptsManager.callScript(component, callback, args) === true
+      ) {
+        handled = true;
+      }
+    }
+    return handled;
+  }
+
   /**
    * Checks if a controller is selecting a specific object. Returns the
    * intersection details if true.
@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+
+import type {ClockOptions} from '../Options';
+
+/**
+ * Clock is the single timeline from which Core, physics, simulator journeys
+ * and animations advance. It is a drop-in replacement for `THREE.Timer` and is
+ * registered as both, so any script depending on `THREE.Timer` receives it.
+ *
+ * Unlike `THREE.Timer`, the clock can be paused, single-stepped, slowed down
+ * or fast-forwarded, and can advance by a fixed timestep per frame instead of
+ * the elapsed wall-clock time, which makes runs reproducible.
+ */
+export class Clock extends THREE.Timer {
+  /** Whether the timeline is currently paused. */
+  paused = false;
+
+  /**
+   * Whether each frame advances the timeline by `timestep` instead of the
+   * elapsed wall-clock time.
+   */
+  fixedTimestep = false;
+
+  /** The duration of a fixed or single-stepped frame in seconds. */
+  timestep = 1 / 60;
+
+  /** The number of frames which advanced the timeline. */
+  frameCount = 0;
+
+  private timescale = 1;
+  private delta = 0;
+  private elapsed = 0;
+  private lastTimestamp?: number;
+  private pendingSteps = 0;
+
+  /**
+   * Applies the clock configuration from the options.
+   * @param options - The clock options.
+   */
+  init(options: ClockOptions) {
+    this.paused = options.paused;
+    this.fixedTimestep = options.fixedTimestep;
+    this.timestep = options.timestep;
+    this.timescale = options.timescale;
+  }
+
+  /**
+   * Advances the timeline for a new frame. Called once per frame by Core.
+   * @param timestamp - The wall-clock time of the frame in milliseconds.
+   * Defaults to `performance.now()`.
+   * @returns The instance for chaining.
+   */
+  update(timestamp = performance.now()) {
+    const wallDelta =
+      this.lastTimestamp === undefined
+        ? 0
+        : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    let delta = 0;
+    if (!this.paused) {
+      delta = this.fixedTimestep ? this.timestep : wallDelta;
+    } else if (this.pendingSteps > 0) {
+      --this.pendingSteps;
+      delta = this.timestep;
+    }
+    this.delta = delta * this.timescale;
+    this.elapsed += this.delta;
+    if (this.delta > 0) {
+      ++this.frameCount;
+    }
+    return this;
+  }
+
+  /**
+   * @returns The time in seconds the timeline advanced in the current frame.
+   */
+  getDelta() {
+    return this.delta;
+  }
+
+  /**
+   * @returns The total time in seconds the timeline has advanced.
+   */
+  getElapsed() {
+    return this.elapsed;
+  }
+
+  /**
+   * @returns The multiplier applied to every frame's delta.
+   */
+  getTimescale() {
+    return this.timescale;
+  }
+
+  /**
+   * Sets the multiplier applied to every frame's delta. Values below 1 slow
+   * the timeline down, values above 1 fast-forward it.
+   * @param timescale - The new timescale.
+   * @returns The instance for chaining.
+   */
+  setTimescale(timescale: number) {
+    this.timescale = timescale;
+    return this;
+  }
+
+  /**
+   * Pauses the timeline. Frames keep running but advance it by zero.
+   */
+  pause() {
+    this.paused = true;
+  }
+
+  /**
+   * Resumes a paused timeline.
+   */
+  resume() {
+    this.paused = false;
+    this.pendingSteps = 0;
+  }
+
+  /**
+   * Advances a paused timeline by `timestep` on each of the next `frames`
+   * frames.
+   * @param frames - The number of frames to step.
+   */
+  stepFrames(frames = 1) {
+    this.pendingSteps += frames;
+  }
+
+  /**
+   * Resets the reference timestamp, so the next frame's wall-clock delta is
+   * measured from `timestamp` rather than from the previous frame.
+   * @param timestamp - The new reference time in milliseconds. If undefined,
+   * the next frame advances the timeline by zero.
+   * @returns The instance for chaining.
+   */
+  reset(timestamp?: number) {
+    this.lastTimestamp = timestamp;
+    return this;
+  }
+}
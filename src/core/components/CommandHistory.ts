@@ -0,0 +1,221 @@
+import * as THREE from 'three';
+
+/**
+ * A reversible operation recorded in the `CommandHistory`.
+ */
+export interface Command {
+  /** A short description of the operation, e.g. for an edit menu. */
+  name?: string;
+
+  /**
+   * The object which made the edit, e.g. a SketchPanel, so its own edits can
+   * be undone and redone without affecting edits of others.
+   */
+  owner?: object;
+
+  /** Applies the operation. Called again on redo. */
+  execute(): void;
+
+  /** Reverts the operation. */
+  undo(): void;
+}
+
+export interface CommandHistoryEventMap {
+  change: object;
+}
+
+/**
+ * An app-wide undo/redo history of reversible commands, registered in the
+ * `Registry` and available as `core.commandHistory`. Spatial edits such as
+ * drags with the DragManager and strokes on a SketchPanel are recorded
+ * automatically; apps can record their own edits and bind `undo()` and
+ * `redo()` to UI buttons. In the simulator, Ctrl+Z undoes and Ctrl+Y or
+ * Ctrl+Shift+Z redoes. Passing an owner to `undo()` and `redo()` limits them
+ * to the commands made by that owner.
+ */
+export class CommandHistory extends THREE.EventDispatcher<CommandHistoryEventMap> {
+  /** The maximum number of commands which can be undone. */
+  maxSize = 100;
+
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+
+  /**
+   * Executes a command and records it so it can be undone.
+   * @param command - The command to execute.
+   */
+  execute(command: Command) {
+    command.execute();
+    this.record(command);
+  }
+
+  /**
+   * Records a command which was already applied, e.g. at the end of a drag.
+   * Clears the commands which could be redone.
+   * @param command - The applied command.
+   */
+  record(command: Command) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.dispatchEvent({type: 'change'});
+  }
+
+  /**
+   * Reverts the most recent command.
+   * @param owner - If provided, reverts the most recent command of this
+   * owner instead.
+   * @returns Whether there was a command to undo.
+   */
+  undo(owner?: object) {
+    const command = this.take(this.undoStack, owner);
+    if (!command) return false;
+    command.undo();
+    this.redoStack.push(command);
+    this.dispatchEvent({type: 'change'});
+    return true;
+  }
+
+  /**
+   * Applies the most recently undone command again.
+   * @param owner - If provided, applies the most recently undone command of
+   * this owner instead.
+   * @returns Whether there was a command to redo.
+   */
+  redo(owner?: object) {
+    const command = this.take(this.redoStack, owner);
+    if (!command) return false;
+    command.execute();
+    this.undoStack.push(command);
+    this.dispatchEvent({type: 'change'});
+    return true;
+  }
+
+  /**
+   * @param owner - If provided, only considers the commands of this owner.
+   */
+  canUndo(owner?: object) {
+    return this.peekUndo(owner) !== undefined;
+  }
+
+  /**
+   * @param owner - If provided, only considers the commands of this owner.
+   */
+  canRedo(owner?: object) {
+    return this.peekRedo(owner) !== undefined;
+  }
+
+  /**
+   * @param owner - If provided, only considers the commands of this owner.
+   * @returns The command which `undo()` would revert, if any.
+   */
+  peekUndo(owner?: object): Command | undefined {
+    return this.undoStack[this.findLast(this.undoStack, owner)];
+  }
+
+  /**
+   * @param owner - If provided, only considers the commands of this owner.
+   * @returns The command which `redo()` would apply, if any.
+   */
+  peekRedo(owner?: object): Command | undefined {
+    return this.redoStack[this.findLast(this.redoStack, owner)];
+  }
+
+  /**
+   * Removes all recorded commands.
+   */
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.dispatchEvent({type: 'change'});
+  }
+
+  /**
+   * Returns the index of the most recent command in a stack, or of the most
+   * recent command of an owner if provided, or -1 if there is none.
+   */
+  private findLast(stack: Command[], owner?: object) {
+    for (let i = stack.length - 1; i >= 0; --i) {
+      if (owner === undefined || stack[i].owner === owner) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Removes and returns the command which `findLast()` finds.
+   */
+  private take(stack: Command[], owner?: object) {
+    const index = this.findLast(stack, owner);
+    return index >= 0 ? stack.splice(index, 1)[0] : undefined;
+  }
+}
+
+/**
+ * The local transform of an object.
+ */
+export interface Transform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+}
+
+/**
+ * Moves, rotates and scales an object between two local transforms.
+ */
+export class TransformCommand implements Command {
+  name = 'Transform';
+  private before: Transform;
+  private after: Transform;
+
+  /**
+   * @param object - The object which was transformed.
+   * @param before - The transform before the operation.
+   * @param after - The transform after the operation. Defaults to the
+   * object's current transform.
+   */
+  constructor(
+    public object: THREE.Object3D,
+    before: Transform,
+    after: Transform = object
+  ) {
+    this.before = TransformCommand.copyTransform(before);
+    this.after = TransformCommand.copyTransform(after);
+  }
+
+  /**
+   * @returns Whether the command changes the transform at all.
+   */
+  changesTransform() {
+    return (
+      !this.before.position.equals(this.after.position) ||
+      !this.before.quaternion.equals(this.after.quaternion) ||
+      !this.before.scale.equals(this.after.scale)
+    );
+  }
+
+  execute() {
+    this.apply(this.after);
+  }
+
+  undo() {
+    this.apply(this.before);
+  }
+
+  private apply(transform: Transform) {
+    this.object.position.copy(transform.position);
+    this.object.quaternion.copy(transform.quaternion);
+    this.object.scale.copy(transform.scale);
+  }
+
+  private static copyTransform(transform: Transform): Transform {
+    return {
+      position: transform.position.clone(),
+      quaternion: transform.quaternion.clone(),
+      scale: transform.scale.clone(),
+    };
+  }
+}
@@ -0,0 +1,268 @@
+import type {AIBudget, AIUsageEvent} from '../../ai/AIUsageTracker';
+import type {GestureEventDetail} from '../../input/gestures/GestureEvents';
+import {getLogger} from '../../logging/Logger';
+import type {DetectedObject} from '../../world/objects/DetectedObject';
+import type {DetectedPlane} from '../../world/planes/DetectedPlane';
+
+import type {ScriptErrorEvent} from './ScriptsManager';
+
+const logger = getLogger('EventBus');
+
+/**
+ * The topics published on the event bus and the payload of each topic. Topics
+ * are namespaced by a prefix followed by a colon, e.g. `speech:result`.
+ *
+ * Apps can add their own topics through declaration merging:
+ * ```ts
+ * declare module 'xrblocks' {
+ *   interface EventBusTopicMap {
+ *     'game:scored': {points: number};
+ *   }
+ * }
+ * ```
+ */
+export interface EventBusTopicMap {
+  'gesture:start': GestureEventDetail;
+  'gesture:update': GestureEventDetail;
+  'gesture:end': GestureEventDetail;
+  'speech:start': object;
+  'speech:result': {
+    transcript: string;
+    confidence: number;
+    command?: string;
+    isFinal: boolean;
+  };
+  'speech:end': object;
+  'speech:error': {error: string};
+  'ai:inputTranscription': {message: string};
+  'ai:outputTranscription': {message: string};
+  'ai:turnComplete': object;
+  'ai:interrupted': object;
+  'ai:usage': AIUsageEvent;
+  'ai:budgetExceeded': {budget: AIBudget; limit: number; value: number};
+  'world:objectsDetected': {objects: DetectedObject[]};
+  'world:planeAdded': {plane: DetectedPlane};
+  'world:planeRemoved': {plane: DetectedPlane};
+  'script:error': ScriptErrorEvent;
+}
+
+export type EventBusTopic = keyof EventBusTopicMap & string;
+
+/**
+ * A subscription to all topics (`*`) or to all topics of a namespace, e.g.
+ * `speech:*`.
+ */
+export type EventBusWildcard = '*' | `${string}:*`;
+
+export type EventBusListener<T extends EventBusTopic> = (
+  payload: EventBusTopicMap[T],
+  topic: T
+) => void;
+
+export type EventBusWildcardListener = (
+  payload: unknown,
+  topic: EventBusTopic
+) => void;
+
+type Subscription = {
+  listener: (payload: unknown, topic: EventBusTopic) => void;
+  owner?: object;
+  once: boolean;
+};
+
+/**
+ * An app-wide publish/subscribe channel, registered in the `Registry` so
+ * scripts can request it through `static dependencies`. Core subsystems such
+ * as gesture recognition, speech recognition, AI live sessions and world
+ * detection publish onto it, so apps have one place to listen.
+ *
+ * Subscriptions made with a script as their `owner` are removed automatically
+ * when the script is uninitialized by the `ScriptsManager`. Scripts which
+ * request the bus through `static dependencies` receive a view of it from
+ * `forOwner()`, so they own their subscriptions without passing an owner.
+ */
+export class EventBus {
+  private subscriptions: Map<string, Set<Subscription>>;
+
+  /**
+   * @param parent - The bus whose subscriptions a view of `forOwner()`
+   * shares.
+   * @param defaultOwner - The owner of subscriptions made without one.
+   */
+  constructor(
+    parent?: EventBus,
+    private defaultOwner?: object
+  ) {
+    this.subscriptions = parent?.subscriptions ?? new Map();
+  }
+
+  /**
+   * Returns a view of this bus which shares its subscriptions, but owns the
+   * subscriptions made without an owner by the given owner.
+   * @param owner - The default owner, usually a script.
+   * @returns The view of the bus.
+   */
+  forOwner(owner: object) {
+    return new EventBus(this, owner);
+  }
+
+  /**
+   * Subscribes to a topic, all topics of a namespace (`speech:*`), or all
+   * topics (`*`).
+   * @param topic - The topic or wildcard to subscribe to.
+   * @param listener - Called with the payload and topic of each event.
+   * @param owner - The object owning the subscription, usually a script.
+   * Defaults to the owner of a view of `forOwner()`.
+   * @returns A function which removes the subscription.
+   */
+  on<T extends EventBusTopic>(
+    topic: T,
+    listener: EventBusListener<T>,
+    owner?: object
+  ): () => void;
+  on(
+    topic: EventBusWildcard,
+    listener: EventBusWildcardListener,
+    owner?: object
+  ): () => void;
+  on(
+    topic: string,
+    listener: (payload: never, topic: never) => void,
+    owner?: object
+  ) {
+    return this.subscribe(topic, listener, owner, false);
+  }
+
+  /**
+   * Subscribes to the next event of a topic or wildcard only.
+   * @param topic - The topic or wildcard to subscribe to.
+   * @param listener - Called with the payload and topic of the next event.
+   * @param owner - The object owning the subscription, usually a script.
+   * Defaults to the owner of a view of `forOwner()`.
+   * @returns A function which removes the subscription.
+   */
+  once<T extends EventBusTopic>(
+    topic: T,
+    listener: EventBusListener<T>,
+    owner?: object
+  ): () => void;
+  once(
+    topic: EventBusWildcard,
+    listener: EventBusWildcardListener,
+    owner?: object
+  ): () => void;
+  once(
+    topic: string,
+    listener: (payload: never, topic: never) => void,
+    owner?: object
+  ) {
+    return this.subscribe(topic, listener, owner, true);
+  }
+
+  /**
+   * Removes a listener from a topic or wildcard.
+   * @param topic - The topic or wildcard the listener was subscribed to.
+   * @param listener - The listener to remove.
+   */
+  off<T extends EventBusTopic>(topic: T, listener: EventBusListener<T>): void;
+  off(topic: EventBusWildcard, listener: EventBusWildcardListener): void;
+  off(topic: string, listener: (payload: never, topic: never) => void) {
+    const subscriptions = this.subscriptions.get(topic);
+    if (!subscriptions) return;
+    for (const subscription of subscriptions) {
+      if (subscription.listener === listener) {
+        subscriptions.delete(subscription);
+      }
+    }
+    if (subscriptions.size == 0) {
+      this.subscriptions.delete(topic);
+    }
+  }
+
+  /**
+   * Removes all subscriptions of an owner.
+   * @param owner - The owner passed when subscribing.
+   */
+  offOwner(owner: object) {
+    for (const [topic, subscriptions] of this.subscriptions) {
+      for (const subscription of subscriptions) {
+        if (subscription.owner === owner) {
+          subscriptions.delete(subscription);
+        }
+      }
+      if (subscriptions.size == 0) {
+        this.subscriptions.delete(topic);
+      }
+    }
+  }
+
+  /**
+   * Publishes an event to the listeners of its topic, of its namespaces, and
+   * of all topics.
+   * @param topic - The topic of the event.
+   * @param payload - The data passed to listeners.
+   */
+  emit<T extends EventBusTopic>(topic: T, payload: EventBusTopicMap[T]) {
+    const subscriptions = [...(this.subscriptions.get(topic) ?? [])];
+    for (
+      let i = topic.lastIndexOf(':');
+      i > 0;
+      i = topic.lastIndexOf(':', i - 1)
+    ) {
+      subscriptions.push(
+        ...(this.subscriptions.get(`${topic.slice(0, i)}:*`) ?? [])
+      );
+    }
+    subscriptions.push(...(this.subscriptions.get('*') ?? []));
+
+    for (const subscription of subscriptions) {
+      if (subscription.once) {
+        this.removeSubscription(subscription);
+      }
+      try {
+        subscription.listener(payload, topic);
+      } catch (error) {
+        logger.error(`Listener for "${topic}" failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * @param topic - The topic or wildcard.
+   * @returns Whether the topic or wildcard has any subscriptions.
+   */
+  hasListeners(topic: EventBusTopic | EventBusWildcard) {
+    return this.subscriptions.has(topic);
+  }
+
+  private subscribe(
+    topic: string,
+    listener: (payload: never, topic: never) => void,
+    owner: object | undefined,
+    once: boolean
+  ) {
+    const subscription: Subscription = {
+      listener: listener as Subscription['listener'],
+      owner: owner ?? this.defaultOwner,
+      once,
+    };
+    let subscriptions = this.subscriptions.get(topic);
+    if (!subscriptions) {
+      subscriptions = new Set();
+      this.subscriptions.set(topic, subscriptions);
+    }
+    subscriptions.add(subscription);
+    return () => this.removeSubscription(subscription);
+  }
+
+  private removeSubscription(subscription: Subscription) {
+    for (const [topic, subscriptions] of this.subscriptions) {
+      if (subscriptions.delete(subscription)) {
+        if (subscriptions.size == 0) {
+          this.subscriptions.delete(topic);
+        }
+        return;
+      }
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import {getLogger} from '../../logging/Logger';
+
+const logger = getLogger('PermissionsManager');
 /**
  * Interface representing the result of a permission request.
  */
@@ -239,7 +242,7 @@ export class PermissionsManager {
       return result.state;
     } catch (error) {
       // Firefox and Safari have incomplete Permissions API support
-      console.warn(
+      logger.warn(
         `Error checking permission status for ${permissionName}`,
         error
       );
@@ -0,0 +1,145 @@
+import {getLogger} from '../../logging/Logger';
+import {deepMerge} from '../../utils/OptionsUtils';
+import type {Constructor} from '../../utils/Types';
+import type {Core} from '../Core';
+import type {Options} from '../Options';
+import type {Plugin, PluginPhase} from '../Plugin';
+
+const logger = getLogger('PluginManager');
+
+/**
+ * Installs plugins into Core and calls their hooks.
+ */
+export class PluginManager {
+  /** The installed plugins in installation order. */
+  plugins: Plugin[] = [];
+
+  private initialized = false;
+
+  constructor(private core: Core) {}
+
+  /**
+   * Installs a plugin. Plugins installed after `Core.init` are initialized
+   * immediately, but their WebXR features are not requested, and errors of
+   * their initialization are logged.
+   * @param plugin - The plugin to install.
+   */
+  async use(plugin: Plugin) {
+    if (this.plugins.includes(plugin)) {
+      return;
+    }
+    if (this.get(plugin.name)) {
+      logger.warn(`Plugin "${plugin.name}" is already used.`);
+      return;
+    }
+    this.plugins.push(plugin);
+    if (this.initialized) {
+      if (plugin.requiredFeatures?.length || plugin.optionalFeatures?.length) {
+        logger.warn(
+          `WebXR features of "${plugin.name}" are ignored since Core is already initialized.`
+        );
+      }
+      try {
+        await this.initPlugin(plugin, this.core.options);
+      } catch (error) {
+        logger.error(`${plugin.name}.init threw:`, error);
+      }
+    }
+  }
+
+  /**
+   * @param name - The name of the plugin.
+   * @returns The installed plugin with the name, if any.
+   */
+  get(name: string) {
+    return this.plugins.find((plugin) => plugin.name === name);
+  }
+
+  /**
+   * Adds the WebXR features requested by all plugins to the session init.
+   * @param sessionInit - The session init to add features to.
+   */
+  addFeatures(sessionInit: XRSessionInit) {
+    for (const plugin of this.plugins) {
+      for (const feature of plugin.requiredFeatures ?? []) {
+        sessionInit.requiredFeatures ??= [];
+        if (!sessionInit.requiredFeatures.includes(feature)) {
+          sessionInit.requiredFeatures.push(feature);
+        }
+      }
+      for (const feature of plugin.optionalFeatures ?? []) {
+        sessionInit.optionalFeatures ??= [];
+        if (!sessionInit.optionalFeatures.includes(feature)) {
+          sessionInit.optionalFeatures.push(feature);
+        }
+      }
+    }
+  }
+
+  /**
+   * Initializes all installed plugins in installation order.
+   * @param options - The options Core was initialized with.
+   */
+  async init(options: Options) {
+    for (const plugin of this.plugins) {
+      await this.initPlugin(plugin, options);
+    }
+    this.initialized = true;
+  }
+
+  /**
+   * Calls a frame loop hook on all plugins. Errors are logged so a failing
+   * plugin does not stop the frame loop.
+   * @param phase - The phase of the frame loop.
+   * @param time - The time of the frame in milliseconds.
+   * @param frame - The WebXR frame, if in an XR session.
+   */
+  callPhase(phase: PluginPhase, time: number, frame?: XRFrame) {
+    for (const plugin of this.plugins) {
+      try {
+        plugin[phase]?.(time, frame);
+      } catch (error) {
+        logger.error(`${plugin.name}.${phase} threw:`, error);
+      }
+    }
+  }
+
+  /**
+   * Notifies all plugins that the desktop simulator started.
+   */
+  onSimulatorStarted() {
+    for (const plugin of this.plugins) {
+      try {
+        plugin.onSimulatorStarted?.(this.core.simulator);
+      } catch (error) {
+        logger.error(`${plugin.name}.onSimulatorStarted threw:`, error);
+      }
+    }
+  }
+
+  /**
+   * Calls the simulator update hook on all plugins.
+   */
+  simulatorUpdate() {
+    for (const plugin of this.plugins) {
+      try {
+        plugin.simulatorUpdate?.(this.core.simulator);
+      } catch (error) {
+        logger.error(`${plugin.name}.simulatorUpdate threw:`, error);
+      }
+    }
+  }
+
+  private async initPlugin(plugin: Plugin, options: Options) {
+    const pluginOptions = plugin.options ?? {};
+    deepMerge(pluginOptions, options.pluginOptions[plugin.name]);
+    options.pluginOptions[plugin.name] = pluginOptions;
+    if (pluginOptions.constructor !== Object) {
+      this.core.registry.register(
+        pluginOptions,
+        pluginOptions.constructor as Constructor<object>
+      );
+    }
+    await plugin.init?.(this.core, pluginOptions);
+  }
+}
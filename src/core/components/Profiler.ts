@@ -0,0 +1,199 @@
+/**
+ * Timings of one profiled section over the rolling window, in milliseconds
+ * per frame.
+ */
+export interface ProfilerSectionStats {
+  name: string;
+  /** The average time per frame. */
+  average: number;
+  /** The longest time in a single frame. */
+  max: number;
+  /** The time in the most recent frame. */
+  last: number;
+}
+
+/**
+ * A summary of all profiled sections which can be exported and compared
+ * across builds.
+ */
+export interface ProfilerReport {
+  /** The number of frames the statistics are aggregated over. */
+  frames: number;
+  sections: ProfilerSectionStats[];
+}
+
+/**
+ * The frame times of one section in a ring buffer.
+ */
+class ProfilerSection {
+  samples: Float64Array;
+  currentFrameTime = 0;
+
+  constructor(
+    public name: string,
+    windowSize: number
+  ) {
+    this.samples = new Float64Array(windowSize);
+  }
+}
+
+/**
+ * Measures time spent in Core subsystems and in each script's `update`,
+ * aggregated over a rolling window of frames. Registered in the `Registry`
+ * and available as `core.profiler`. Measuring is skipped unless `enabled` is
+ * set, e.g. with `options.enableProfiler()`.
+ *
+ * Core profiles the sections `depth`, `lighting`, `input`, `physics`,
+ * `scripts`, `render`, `screenshot` and `frame`. Each script's `update` is
+ * profiled as `script:<name>`, where scripts with the same name or class are
+ * combined. Custom sections can be measured with:
+ * ```ts
+ * const startTime = profiler.now();
+ * doWork();
+ * profiler.record('myWork', startTime);
+ * ```
+ */
+export class Profiler {
+  /** Whether sections are measured. */
+  enabled = false;
+
+  private windowSize = 120;
+  private sections = new Map<string, ProfilerSection>();
+  private frameCount = 0;
+  private frameStartTime = 0;
+
+  /**
+   * Sets the number of frames statistics are aggregated over and clears all
+   * samples.
+   * @param windowSize - The number of frames.
+   */
+  setWindowSize(windowSize: number) {
+    this.windowSize = Math.max(1, Math.floor(windowSize));
+    this.reset();
+  }
+
+  /**
+   * Clears all samples.
+   */
+  reset() {
+    this.sections.clear();
+    this.frameCount = 0;
+  }
+
+  /**
+   * @returns The current time in milliseconds to pass to `record`.
+   */
+  now() {
+    return performance.now();
+  }
+
+  /**
+   * Adds the time since a start time to a section of the current frame. A
+   * section may be recorded several times per frame.
+   * @param name - The name of the section.
+   * @param startTime - The time returned by `now()` before the measured work.
+   */
+  record(name: string, startTime: number) {
+    if (!this.enabled) return;
+    let section = this.sections.get(name);
+    if (!section) {
+      section = new ProfilerSection(name, this.windowSize);
+      this.sections.set(name, section);
+    }
+    section.currentFrameTime += performance.now() - startTime;
+  }
+
+  /**
+   * Starts measuring a frame. Called by Core.
+   */
+  beginFrame() {
+    this.frameStartTime = performance.now();
+  }
+
+  /**
+   * Ends the current frame and stores the time of each section in the
+   * rolling window. Called by Core.
+   */
+  endFrame() {
+    if (!this.enabled) return;
+    this.record('frame', this.frameStartTime);
+    const index = this.frameCount % this.windowSize;
+    for (const section of this.sections.values()) {
+      section.samples[index] = section.currentFrameTime;
+      section.currentFrameTime = 0;
+    }
+    ++this.frameCount;
+  }
+
+  /**
+   * @returns The statistics of all sections over the rolling window, sorted
+   * by average time in descending order.
+   */
+  getStats(): ProfilerSectionStats[] {
+    const frames = Math.min(this.frameCount, this.windowSize);
+    if (frames == 0) return [];
+    const lastIndex = (this.frameCount - 1) % this.windowSize;
+    const stats = [];
+    for (const section of this.sections.values()) {
+      let sum = 0;
+      let max = 0;
+      for (let i = 0; i < frames; ++i) {
+        sum += section.samples[i];
+        max = Math.max(max, section.samples[i]);
+      }
+      stats.push({
+        name: section.name,
+        average: sum / frames,
+        max,
+        last: section.samples[lastIndex],
+      });
+    }
+    return stats.sort((a, b) => b.average - a.average);
+  }
+
+  /**
+   * @returns A summary of all sections.
+   */
+  toJSON(): ProfilerReport {
+    return {
+      frames: Math.min(this.frameCount, this.windowSize),
+      sections: this.getStats(),
+    };
+  }
+
+  /**
+   * @returns The statistics of all sections as CSV with a header row.
+   */
+  toCSV() {
+    const rows = ['section,average_ms,max_ms,last_ms'];
+    for (const {name, average, max, last} of this.getStats()) {
+      const escapedName = /[",\n]/.test(name)
+        ? `"${name.replaceAll('"', '""')}"`
+        : name;
+      rows.push(
+        `${escapedName},${average.toFixed(3)},${max.toFixed(3)},${last.toFixed(3)}`
+      );
+    }
+    return rows.join('\n');
+  }
+
+  /**
+   * Downloads the statistics as a file in the browser.
+   * @param format - The file format.
+   * @param filename - The name of the downloaded file.
+   */
+  download(format: 'csv' | 'json' = 'json', filename = `profile.${format}`) {
+    const blob =
+      format == 'csv'
+        ? new Blob([this.toCSV()], {type: 'text/csv'})
+        : new Blob([JSON.stringify(this.toJSON(), null, 2)], {
+            type: 'application/json',
+          });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
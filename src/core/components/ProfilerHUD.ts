@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+
+import {TextView} from '../../ui/components/TextView';
+import {SpatialPanel} from '../../ui/layouts/SpatialPanel';
+import {Script} from '../Script';
+
+import {Profiler} from './Profiler';
+
+const PANEL_DISTANCE = 1.0;
+
+// Reusable objects for performance.
+const cameraPosition = new THREE.Vector3();
+const cameraDirection = new THREE.Vector3();
+
+/**
+ * A floating panel which shows the slowest profiled sections, so frame budget
+ * problems can be found on device without a developer console. Showing the
+ * HUD enables the profiler.
+ */
+export class ProfilerHUD extends Script {
+  static dependencies = {profiler: Profiler, camera: THREE.Camera};
+
+  /** The time between refreshes of the panel in milliseconds. */
+  refreshInterval = 500;
+
+  /** The number of sections shown on the panel. */
+  maxSections = 8;
+
+  private profiler!: Profiler;
+  private camera!: THREE.Camera;
+  private panel?: SpatialPanel;
+  private statsView?: TextView;
+  private lastRefreshTime = -Infinity;
+
+  init({profiler, camera}: {profiler: Profiler; camera: THREE.Camera}) {
+    this.profiler = profiler;
+    this.camera = camera;
+  }
+
+  /**
+   * Whether the panel is shown.
+   */
+  get shown() {
+    return this.panel != null;
+  }
+
+  /**
+   * Opens the panel in front of the user and enables the profiler.
+   */
+  show() {
+    if (this.panel) return;
+    this.profiler.enabled = true;
+    this.openPanel();
+  }
+
+  /**
+   * Closes the panel. The profiler stays enabled.
+   */
+  hide() {
+    if (!this.panel) return;
+    this.remove(this.panel);
+    this.panel = undefined;
+    this.statsView = undefined;
+  }
+
+  /**
+   * Shows the panel if it is hidden and hides it otherwise.
+   */
+  toggle() {
+    if (this.panel) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  update() {
+    if (!this.statsView) return;
+    const now = this.profiler.now();
+    if (now - this.lastRefreshTime < this.refreshInterval) return;
+    this.lastRefreshTime = now;
+    const lines = this.profiler
+      .getStats()
+      .slice(0, this.maxSections)
+      .map(
+        ({name, average, max}) =>
+          `${name}: ${average.toFixed(2)} ms (max ${max.toFixed(2)})`
+      );
+    this.statsView.setText(lines.length ? lines.join('\n') : 'No samples yet');
+  }
+
+  dispose() {
+    this.hide();
+  }
+
+  private openPanel() {
+    const panel = new SpatialPanel({
+      backgroundColor: '#102030dd',
+      useDefaultPosition: false,
+      width: 1.0,
+      height: 0.6,
+    });
+    panel.name = 'ProfilerPanel';
+    this.camera.getWorldPosition(cameraPosition);
+    this.camera.getWorldDirection(cameraDirection);
+    panel.position
+      .copy(cameraPosition)
+      .addScaledVector(cameraDirection, PANEL_DISTANCE);
+    panel.lookAt(cameraPosition);
+
+    const grid = panel.addGrid();
+    grid.addRow({weight: 0.15}).addText({
+      text: 'Profiler',
+      fontSize: 0.045,
+      fontColor: '#80d8ff',
+    });
+    this.statsView = grid.addRow({weight: 0.7}).addText({
+      text: '',
+      fontSize: 0.03,
+      textAlign: 'left',
+      anchorX: 'left',
+    });
+    const closeButton = grid.addRow({weight: 0.15}).addTextButton({
+      text: 'Close',
+      fontSize: 0.04,
+    });
+    closeButton.onTriggered = () => this.hide();
+
+    this.panel = panel;
+    this.lastRefreshTime = -Infinity;
+    this.add(panel);
+  }
+}
@@ -0,0 +1,436 @@
+import * as THREE from 'three';
+
+import {getLogger} from '../../logging/Logger';
+import {Panel} from '../../ui/core/Panel';
+import {ModelViewer} from '../../ui/interaction/ModelViewer';
+import {SketchPanel} from '../../ui/interaction/SketchPanel';
+import {UI} from '../../ui/UI';
+import type {Constructor} from '../../utils/Types';
+import type {Script} from '../Script';
+
+import {Registry} from './Registry';
+import {ScriptsManager} from './ScriptsManager';
+
+const logger = getLogger('SceneSerializer');
+
+type MaybeScript = THREE.Object3D & {isXRScript?: boolean};
+
+/**
+ * The current version of the scene snapshot format. Snapshots with a newer
+ * version cannot be restored.
+ */
+export const SCENE_SNAPSHOT_VERSION = 2;
+
+/**
+ * The transform of a serialized object.
+ */
+export type SerializedTransform = {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: [number, number, number];
+};
+
+/**
+ * A script saved in a scene snapshot.
+ */
+export type SerializedScript = {
+  /** The type name the script's class is registered with. */
+  type: string;
+  name: string;
+  /** The world transform of the script. */
+  transform: SerializedTransform;
+  /**
+   * The path from the root to the parent of the script. Empty or missing if
+   * the parent is the root.
+   */
+  parent?: number[];
+  /** The data returned by the script's `serialize()`. */
+  data?: unknown;
+};
+
+/**
+ * A panel saved in a scene snapshot which is neither serializable itself nor
+ * part of a composed UI, so only its transform is restored in place.
+ */
+export type SerializedPanel = {
+  /** The path from the root to the panel. */
+  path: number[];
+  /** The local transform of the panel. */
+  transform: SerializedTransform;
+};
+
+/**
+ * A versioned, JSON-compatible snapshot of the serializable scripts in a
+ * scene.
+ */
+export type SceneSnapshot = {
+  version: number;
+  /** The time the snapshot was taken in milliseconds since the epoch. */
+  createdAt: number;
+  scripts: SerializedScript[];
+  panels?: SerializedPanel[];
+  /** Data of registered singletons such as `UI`, keyed by type name. */
+  singletons: Record<string, unknown>;
+};
+
+// Reusable objects for performance.
+const position = new THREE.Vector3();
+const quaternion = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+const matrix = new THREE.Matrix4();
+const inverseParentMatrix = new THREE.Matrix4();
+
+/**
+ * Saves and restores the scripts of a scene as JSON snapshots, e.g. to resume
+ * a session where the user left off or to share layouts.
+ *
+ * Scripts opt in by registering their class with a type name and overriding
+ * `serialize()` and `deserialize()`. Registered scripts are instantiated with
+ * no constructor arguments on restore, so their constructor must support
+ * that. The world transform and parent of each script are saved
+ * automatically; a script's children are its own responsibility and are not
+ * traversed. Parents are saved as paths of child indices which skip the
+ * objects a snapshot restores, so they resolve in a scene built the same way.
+ * Scripts in UIs composed with `UI.compose` are restored with their
+ * composition instead, and other panels keep their objects and only get
+ * their transforms restored.
+ */
+export class SceneSerializer {
+  /**
+   * A static registry mapping type names to serializable script classes.
+   */
+  static TypeRegistry = new Map<string, Constructor<Script>>();
+
+  /**
+   * A static registry mapping type names to singleton script classes, which
+   * are looked up in the `Registry` and restored in place.
+   */
+  static SingletonRegistry = new Map<string, Constructor<Script>>();
+
+  constructor(
+    private scene: THREE.Scene,
+    private registry: Registry,
+    private scriptsManager: ScriptsManager
+  ) {}
+
+  /**
+   * Registers a script class with a type name, making its instances part of
+   * scene snapshots.
+   * @param typeName - The name stored in snapshots.
+   * @param scriptClass - The class constructor of the script.
+   */
+  static registerType(typeName: string, scriptClass: Constructor<Script>) {
+    if (SceneSerializer.TypeRegistry.has(typeName)) {
+      logger.warn(`Type "${typeName}" is being overwritten.`);
+    }
+    SceneSerializer.TypeRegistry.set(typeName, scriptClass);
+  }
+
+  /**
+   * Registers a singleton script class, such as `UI`, whose registered
+   * instance is serialized and restored in place.
+   * @param typeName - The name stored in snapshots.
+   * @param scriptClass - The class the instance is registered as.
+   */
+  static registerSingleton(typeName: string, scriptClass: Constructor<Script>) {
+    SceneSerializer.SingletonRegistry.set(typeName, scriptClass);
+  }
+
+  /**
+   * Creates a snapshot of all serializable scripts under the root.
+   * @param root - The object to search for scripts. Defaults to the scene.
+   * @returns The snapshot.
+   */
+  serialize(root: THREE.Object3D = this.scene): SceneSnapshot {
+    const scripts: SerializedScript[] = [];
+    for (const script of this.findSerializableScripts(root)) {
+      script.updateWorldMatrix(true, false);
+      script.matrixWorld.decompose(position, quaternion, scale);
+      scripts.push({
+        type: this.getTypeName(script)!,
+        name: script.name,
+        transform: this.toSerializedTransform(position, quaternion, scale),
+        parent: this.getPath(root, script.parent!),
+        data: script.serialize(),
+      });
+    }
+    const panels = this.findPanels(root).map((panel) => ({
+      path: this.getPath(root, panel),
+      transform: this.toSerializedTransform(
+        panel.position,
+        panel.quaternion,
+        panel.scale
+      ),
+    }));
+    const singletons: Record<string, unknown> = {};
+    for (const [typeName, scriptClass] of SceneSerializer.SingletonRegistry) {
+      const instance = this.registry.get(scriptClass);
+      if (instance) {
+        singletons[typeName] = instance.serialize();
+      }
+    }
+    return {
+      version: SCENE_SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      scripts,
+      panels,
+      singletons,
+    };
+  }
+
+  /**
+   * Restores a snapshot into the root. The transforms of panels are restored
+   * first. Each script is then added to its saved parent, or to the root if
+   * the parent is not found, at its saved world transform, initialized, and
+   * then receives its data through `deserialize()`.
+   * @param snapshot - The snapshot to restore.
+   * @param root - The object to add scripts to. Defaults to the scene.
+   * @param clear - Whether to first remove the serializable scripts currently
+   * under the root.
+   * @returns The restored scripts.
+   */
+  async deserialize(
+    snapshot: SceneSnapshot,
+    root: THREE.Object3D = this.scene,
+    clear = true
+  ) {
+    if (
+      typeof snapshot?.version !== 'number' ||
+      snapshot.version > SCENE_SNAPSHOT_VERSION
+    ) {
+      throw new Error(
+        `Unsupported scene snapshot version: ${snapshot?.version}.`
+      );
+    }
+    if (clear) {
+      for (const script of this.findSerializableScripts(root)) {
+        script.removeFromParent();
+        this.scriptsManager.uninitScript(script);
+      }
+    }
+
+    for (const serializedPanel of snapshot.panels ?? []) {
+      const panel = this.resolvePath(root, serializedPanel.path);
+      if (panel instanceof Panel) {
+        const {transform} = serializedPanel;
+        panel.position.fromArray(transform.position);
+        panel.quaternion.fromArray(transform.quaternion);
+        panel.scale.fromArray(transform.scale);
+      }
+    }
+
+    const restoredScripts: Script[] = [];
+    for (const serializedScript of snapshot.scripts) {
+      const ScriptClass = SceneSerializer.TypeRegistry.get(
+        serializedScript.type
+      );
+      if (!ScriptClass) {
+        logger.error(
+          `Unknown type "${serializedScript.type}". Make sure it's registered.`
+        );
+        continue;
+      }
+      const script = new ScriptClass();
+      script.name = serializedScript.name;
+      let parent = this.resolvePath(root, serializedScript.parent ?? []);
+      if (!parent) {
+        logger.warn(
+          `Parent of "${serializedScript.name}" not found, adding it to the root.`
+        );
+        parent = root;
+      }
+      // Transforms are saved in world space, so they are converted into the
+      // local space of the parent.
+      parent.updateWorldMatrix(true, false);
+      inverseParentMatrix.copy(parent.matrixWorld).invert();
+      const {transform} = serializedScript;
+      matrix
+        .compose(
+          position.fromArray(transform.position),
+          quaternion.fromArray(transform.quaternion),
+          scale.fromArray(transform.scale)
+        )
+        .premultiply(inverseParentMatrix)
+        .decompose(script.position, script.quaternion, script.scale);
+      parent.add(script);
+      await this.scriptsManager.initScript(script);
+      await script.deserialize(serializedScript.data);
+      restoredScripts.push(script);
+    }
+
+    for (const [typeName, data] of Object.entries(snapshot.singletons ?? {})) {
+      const scriptClass = SceneSerializer.SingletonRegistry.get(typeName);
+      const instance = scriptClass && this.registry.get(scriptClass);
+      if (instance) {
+        await instance.deserialize(data);
+      }
+    }
+    return restoredScripts;
+  }
+
+  /**
+   * Saves a snapshot of the scene to localStorage.
+   * @param key - The localStorage key.
+   */
+  saveToLocalStorage(key = 'xrblocks-scene') {
+    localStorage.setItem(key, JSON.stringify(this.serialize()));
+  }
+
+  /**
+   * Restores a snapshot from localStorage, if one was saved.
+   * @param key - The localStorage key.
+   * @returns The restored scripts, or undefined if there was no snapshot.
+   */
+  async loadFromLocalStorage(key = 'xrblocks-scene') {
+    const json = localStorage.getItem(key);
+    if (json == null) {
+      return undefined;
+    }
+    return this.deserialize(JSON.parse(json));
+  }
+
+  /**
+   * Downloads a snapshot of the scene as a JSON file.
+   * @param filename - The name of the downloaded file.
+   */
+  download(filename = 'scene.json') {
+    const blob = new Blob([JSON.stringify(this.serialize(), null, 2)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private getTypeName(script: Script) {
+    for (const [typeName, scriptClass] of SceneSerializer.TypeRegistry) {
+      if (script.constructor === scriptClass) {
+        return typeName;
+      }
+    }
+    return undefined;
+  }
+
+  private toSerializedTransform(
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion,
+    scale: THREE.Vector3
+  ): SerializedTransform {
+    return {
+      position: position.toArray(),
+      quaternion: quaternion.toArray() as [number, number, number, number],
+      scale: scale.toArray(),
+    };
+  }
+
+  /**
+   * Whether an object is recreated when a snapshot is restored, i.e. it's a
+   * script of a registered type or the root of a composed UI.
+   */
+  private isRestored(object: THREE.Object3D) {
+    return this.isSerializableScript(object) || this.isComposition(object);
+  }
+
+  private isSerializableScript(object: THREE.Object3D) {
+    return (
+      !!(object as MaybeScript).isXRScript &&
+      this.getTypeName(object as Script) !== undefined
+    );
+  }
+
+  private isComposition(object: THREE.Object3D) {
+    return !!this.registry.get(UI)?.isComposition(object);
+  }
+
+  /**
+   * Returns the children of an object which are kept when a snapshot is
+   * restored, which paths index into.
+   */
+  private getKeptChildren(object: THREE.Object3D) {
+    return object.children.filter((child) => !this.isRestored(child));
+  }
+
+  /**
+   * Returns the path from the root to an object under it.
+   */
+  private getPath(root: THREE.Object3D, object: THREE.Object3D) {
+    const path: number[] = [];
+    for (let node = object; node !== root && node.parent; node = node.parent) {
+      path.unshift(this.getKeptChildren(node.parent).indexOf(node));
+    }
+    return path;
+  }
+
+  /**
+   * Returns the object at a path from the root, or undefined if there is
+   * none.
+   */
+  private resolvePath(root: THREE.Object3D, path: number[]) {
+    let object: THREE.Object3D | undefined = root;
+    for (const index of path) {
+      object = object && this.getKeptChildren(object)[index];
+    }
+    return object;
+  }
+
+  /**
+   * Finds the outermost scripts of a registered type under the root, except
+   * those in composed UIs.
+   */
+  private findSerializableScripts(root: THREE.Object3D) {
+    const scripts: Script[] = [];
+    this.visitKept(root, (object) => {
+      if (!this.isComposition(object)) {
+        scripts.push(object as Script);
+      }
+    });
+    return scripts;
+  }
+
+  /**
+   * Finds the panels under the root which are kept when a snapshot is
+   * restored.
+   */
+  private findPanels(root: THREE.Object3D) {
+    const panels: Panel[] = [];
+    this.visitKept(root, undefined, (object) => {
+      if (object instanceof Panel) {
+        panels.push(object);
+      }
+    });
+    return panels;
+  }
+
+  /**
+   * Traverses the objects under the root. Objects which are recreated on
+   * restore are passed to `onRestored` and not traversed further, and others
+   * are passed to `onKept`.
+   */
+  private visitKept(
+    root: THREE.Object3D,
+    onRestored?: (object: THREE.Object3D) => void,
+    onKept?: (object: THREE.Object3D) => void
+  ) {
+    const visit = (object: THREE.Object3D) => {
+      if (this.isRestored(object)) {
+        onRestored?.(object);
+        return;
+      }
+      onKept?.(object);
+      for (const child of object.children) {
+        visit(child);
+      }
+    };
+    for (const child of root.children) {
+      visit(child);
+    }
+  }
+}
+
+// Pre-register the built-in serializable scripts.
+SceneSerializer.registerType('ModelViewer', ModelViewer);
+SceneSerializer.registerType('SketchPanel', SketchPanel);
+SceneSerializer.registerSingleton('UI', UI);
@@ -2,6 +2,9 @@ import * as THREE from 'three';
 import {FullScreenQuad} from 'three/addons/postprocessing/Pass.js';
 
 import {XRDeviceCamera} from '../../camera/XRDeviceCamera.js';
+import {getLogger} from '../../logging/Logger';
+
+const logger = getLogger('ScreenshotSynthesizer');
 
 // Use a small canvas since a full size canvas can consume a lot of memory and
 // cause toDataUrl to be slow.
@@ -178,7 +181,7 @@ export class ScreenshotSynthesizer {
     deviceCamera: XRDeviceCamera
   ) {
     if (!deviceCamera.loaded) {
-      console.debug('Waiting for device camera to be loaded');
+      logger.debug('Waiting for device camera to be loaded');
       return null;
     }
     const mainRenderTarget = renderer.getRenderTarget();
@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+
+import {TextView} from '../../ui/components/TextView';
+import {SpatialPanel} from '../../ui/layouts/SpatialPanel';
+import {Component} from '../Component';
+import {Script} from '../Script';
+
+import {EventBus} from './EventBus';
+import type {ScriptErrorEvent} from './ScriptsManager';
+
+const MAX_STACK_LINES = 6;
+const PANEL_DISTANCE = 1.0;
+
+// Reusable objects for performance.
+const cameraPosition = new THREE.Vector3();
+const cameraDirection = new THREE.Vector3();
+
+/**
+ * Shows a compact diagnostic panel in front of the user whenever a script
+ * throws, with the script name, the failing callback and the stack, so errors
+ * can be read in XR and in the simulator without a developer console. Select
+ * the panel's button to dismiss it.
+ */
+export class ScriptErrorOverlay extends Script {
+  static dependencies = {eventBus: EventBus, camera: THREE.Camera};
+
+  private camera!: THREE.Camera;
+  private panel?: SpatialPanel;
+  private titleView?: TextView;
+  private detailsView?: TextView;
+  private errorCount = 0;
+
+  init({eventBus, camera}: {eventBus: EventBus; camera: THREE.Camera}) {
+    this.camera = camera;
+    eventBus.on('script:error', (event) => this.showError(event), this);
+  }
+
+  /**
+   * Shows an error on the panel, opening the panel in front of the user if it
+   * is not already shown.
+   * @param event - The error to show.
+   */
+  showError(event: ScriptErrorEvent) {
+    if (this.isOverlayScript(event.script)) {
+      return;
+    }
+    if (!this.panel) {
+      this.openPanel();
+    }
+    ++this.errorCount;
+    const error = event.error as Partial<Error> | undefined;
+    const message = error?.message ?? String(event.error);
+    const stack = (error?.stack ?? '')
+      .split('\n')
+      .slice(1, MAX_STACK_LINES + 1)
+      .map((line) => line.trim())
+      .join('\n');
+    let title = `${event.scriptName}.${event.callback}() threw`;
+    if (event.disabled) {
+      title += ' and was disabled';
+    }
+    if (this.errorCount > 1) {
+      title += ` (${this.errorCount} errors)`;
+    }
+    this.titleView!.setText(title);
+    this.detailsView!.setText(stack ? `${message}\n${stack}` : message);
+  }
+
+  /**
+   * Hides the panel and resets the error count.
+   */
+  dismiss() {
+    if (!this.panel) return;
+    this.remove(this.panel);
+    this.panel = undefined;
+    this.titleView = undefined;
+    this.detailsView = undefined;
+    this.errorCount = 0;
+  }
+
+  private openPanel() {
+    const panel = new SpatialPanel({
+      backgroundColor: '#3a0b0bee',
+      useDefaultPosition: false,
+      width: 1.2,
+      height: 0.6,
+    });
+    panel.name = 'ScriptErrorPanel';
+    this.camera.getWorldPosition(cameraPosition);
+    this.camera.getWorldDirection(cameraDirection);
+    panel.position
+      .copy(cameraPosition)
+      .addScaledVector(cameraDirection, PANEL_DISTANCE);
+    panel.lookAt(cameraPosition);
+
+    const grid = panel.addGrid();
+    this.titleView = grid.addRow({weight: 0.2}).addText({
+      text: '',
+      fontSize: 0.045,
+      fontColor: '#ff8a80',
+    });
+    this.detailsView = grid.addRow({weight: 0.6}).addText({
+      text: '',
+      fontSize: 0.03,
+      textAlign: 'left',
+      anchorX: 'left',
+    });
+    const dismissButton = grid.addRow({weight: 0.2}).addTextButton({
+      text: 'Dismiss',
+      fontSize: 0.04,
+    });
+    dismissButton.onTriggered = () => this.dismiss();
+
+    this.panel = panel;
+    this.add(panel);
+  }
+
+  /**
+   * Whether a script is part of the overlay itself, so errors of the panel do
+   * not reopen it.
+   */
+  private isOverlayScript(script: Script | Component) {
+    let object: THREE.Object3D | null =
+      script instanceof Component ? script.object : script;
+    while (object) {
+      if (object === this) return true;
+      object = object.parent;
+    }
+    return false;
+  }
+}
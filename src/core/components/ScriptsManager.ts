@@ -1,13 +1,84 @@
 import * as THREE from 'three';
 
-import {KeyEvent, Script, SelectEvent} from '../Script';
+import {getLogger} from '../../logging/Logger';
+import {Component, getComponents} from '../Component';
+import {KeyEvent, PhysicsStepEvent, Script, SelectEvent} from '../Script';
+
+import type {EventBus} from './EventBus';
+import type {Profiler} from './Profiler';
+import type {TaskScheduler} from './TaskScheduler';
+
+const logger = getLogger('ScriptsManager');
 
 type MaybeScript = THREE.Object3D & {isXRScript?: boolean};
 
+/** A script or a component, which receive the same callbacks. */
+type Behavior = Script | Component;
+
+/**
+ * The script callbacks dispatched by the ScriptsManager.
+ */
+export type ScriptCallbackName =
+  | 'update'
+  | 'physicsStep'
+  | 'onEnable'
+  | 'onDisable'
+  | 'onSelectStart'
+  | 'onSelectEnd'
+  | 'onSelect'
+  | 'onSelecting'
+  | 'onSqueezeStart'
+  | 'onSqueezeEnd'
+  | 'onSqueeze'
+  | 'onSqueezing'
+  | 'onKeyDown'
+  | 'onKeyUp'
+  | 'onXRSessionStarted'
+  | 'onXRSessionEnded'
+  | 'onSimulatorStarted'
+  | 'onPause'
+  | 'onResume'
+  | 'onObjectSelectStart'
+  | 'onObjectSelectEnd'
+  | 'onHoverEnter'
+  | 'onHoverExit'
+  | 'onHovering'
+  | 'onObjectTouchStart'
+  | 'onObjectTouching'
+  | 'onObjectTouchEnd'
+  | 'onObjectGrabStart'
+  | 'onObjectGrabbing'
+  | 'onObjectGrabEnd';
+
+/**
+ * Describes an error thrown from a script's or component's callback.
+ */
+export interface ScriptErrorEvent {
+  script: Script | Component;
+  /** The name of the script, or of its class if it has none. */
+  scriptName: string;
+  /** The callback which threw, e.g. `update` or `init`. */
+  callback: ScriptCallbackName | 'init' | 'dispose';
+  error: unknown;
+  /** The number of errors the script has thrown so far. */
+  failures: number;
+  /** Whether the script was disabled because of this error. */
+  disabled: boolean;
+}
+
 export class ScriptsManager {
   /** The set of all currently initialized scripts. */
   scripts = new Set<Script>();
 
+  /** The set of all currently initialized components. */
+  components = new Set<Component>();
+
+  /**
+   * The number of errors after which a script is disabled. If 0, scripts are
+   * never disabled.
+   */
+  maxFailures = 0;
+
   callSelectStartBound = this.callSelectStart.bind(this);
   callSelectEndBound = this.callSelectEnd.bind(this);
   callSelectBound = this.callSelect.bind(this);
@@ -17,59 +88,194 @@ export class ScriptsManager {
   callKeyDownBound = this.callKeyDown.bind(this);
   callKeyUpBound = this.callKeyUp.bind(this);
 
-  /** The set of scripts currently being initialized. */
-  private initializingScripts = new Set<Script>();
+  /** The set of scripts and components currently being initialized. */
+  private initializingScripts = new Set<Behavior>();
+
+  /** The initialized scripts and components sorted by execution order. */
+  private orderedScripts: Behavior[] = [];
+  private orderedScriptsDirty = false;
+
+  /** The enabled state of each script when it was last checked. */
+  private enabledStates = new Map<Behavior, boolean>();
+
+  /** The number of errors thrown by each script. */
+  private failureCounts = new Map<Behavior, number>();
+
+  /** Scripts whose init failed, which are not retried when found again. */
+  private failedScripts = new WeakSet<Behavior>();
 
-  private seenScripts = new Set<Script>();
+  private seenScripts = new Set<Behavior>();
   private syncPromises: Promise<void>[] = [];
   private checkScriptBound = this.checkScript.bind(this);
 
-  constructor(private initScriptFunction: (script: Script) => Promise<void>) {}
+  /**
+   * @param initScriptFunction - Initializes a script, e.g. with dependency
+   * injection.
+   * @param eventBus - If provided, subscriptions owned by a script are removed
+   * when the script is uninitialized.
+   * @param taskScheduler - If provided, creates the `tasks` of each script.
+   * @param profiler - If provided and enabled, measures each script's update.
+   */
+  constructor(
+    private initScriptFunction: (script: Behavior) => Promise<void>,
+    private eventBus?: EventBus,
+    private taskScheduler?: TaskScheduler,
+    private profiler?: Profiler
+  ) {}
 
   /**
    * Initializes a script and adds it to the set of scripts which will receive
    * callbacks. This will be called automatically by Core when a script is found
-   * in the scene but can also be called manually.
-   * @param script - The script to initialize
+   * in the scene but can also be called manually. If init throws, the error is
+   * reported and the script does not receive callbacks. Components attached
+   * to objects in the scene are initialized the same way.
+   * @param script - The script or component to initialize
    * @returns A promise which resolves when the script is initialized.
    */
-  async initScript(script: Script) {
-    if (this.scripts.has(script) || this.initializingScripts.has(script)) {
+  async initScript(script: Behavior) {
+    if (this.isInitialized(script) || this.initializingScripts.has(script)) {
       return;
     }
     this.initializingScripts.add(script);
-    await this.initScriptFunction(script);
-    this.scripts.add(script);
+    this.failedScripts.delete(script);
+    if (this.taskScheduler && !script.tasks) {
+      script.tasks = this.taskScheduler.createTasks();
+    }
+    try {
+      await this.initScriptFunction(script);
+    } catch (error) {
+      this.initializingScripts.delete(script);
+      this.failedScripts.add(script);
+      this.reportError(script, 'init', error);
+      this.failureCounts.delete(script);
+      return;
+    }
+    if (script instanceof Component) {
+      this.components.add(script);
+    } else {
+      this.scripts.add(script);
+    }
     this.initializingScripts.delete(script);
+    this.orderedScriptsDirty = true;
+    this.enabledStates.set(script, script.enabled);
+    if (script.enabled) {
+      this.invoke(script, 'onEnable', []);
+    }
   }
 
   /**
    * Uninitializes a script calling dispose and removes it from the set of
-   * scripts which will receive callbacks.
-   * @param script - The script to uninitialize.
+   * scripts which will receive callbacks. The script's tasks are cancelled and
+   * event bus subscriptions owned by the script are removed.
+   * @param script - The script or component to uninitialize.
    */
-  uninitScript(script: Script) {
-    if (!this.scripts.has(script)) {
+  uninitScript(script: Behavior) {
+    if (!this.isInitialized(script)) {
       return;
     }
-    script.dispose();
-    this.scripts.delete(script);
+    if (this.enabledStates.get(script)) {
+      this.invoke(script, 'onDisable', []);
+    }
+    script.tasks?.cancel('Script disposed.');
+    try {
+      script.dispose();
+    } catch (error) {
+      this.reportError(script, 'dispose', error);
+    }
+    this.eventBus?.offOwner(script);
+    if (script instanceof Component) {
+      this.components.delete(script);
+    } else {
+      this.scripts.delete(script);
+    }
     this.initializingScripts.delete(script);
+    this.enabledStates.delete(script);
+    this.failureCounts.delete(script);
+    this.orderedScriptsDirty = true;
+  }
+
+  /**
+   * Returns the number of errors a script has thrown since it was
+   * initialized.
+   * @param script - The script or component.
+   */
+  getFailureCount(script: Behavior) {
+    return this.failureCounts.get(script) ?? 0;
+  }
+
+  /**
+   * @param script - The script or component.
+   * @returns Whether the script or component is initialized.
+   */
+  isInitialized(script: Behavior) {
+    return script instanceof Component
+      ? this.components.has(script)
+      : this.scripts.has(script);
+  }
+
+  /**
+   * Returns the initialized scripts and components sorted by execution order.
+   * Those with the same execution order keep the order in which they were
+   * initialized.
+   */
+  getOrderedScripts() {
+    if (
+      this.orderedScriptsDirty ||
+      this.orderedScripts.some(
+        (script, i) =>
+          i > 0 &&
+          this.orderedScripts[i - 1].executionOrder > script.executionOrder
+      )
+    ) {
+      this.orderedScripts = [...this.scripts, ...this.components].sort(
+        (a, b) => a.executionOrder - b.executionOrder
+      );
+      this.orderedScriptsDirty = false;
+    }
+    return this.orderedScripts;
+  }
+
+  /**
+   * Calls onEnable or onDisable on scripts whose enabled flag changed since it
+   * was last checked. The tasks of disabled scripts are cancelled.
+   */
+  private updateEnabledStates() {
+    for (const script of this.getOrderedScripts()) {
+      if (this.enabledStates.get(script) !== script.enabled) {
+        this.enabledStates.set(script, script.enabled);
+        if (script.enabled) {
+          this.invoke(script, 'onEnable', []);
+        } else {
+          script.tasks?.cancel('Script disabled.');
+          this.invoke(script, 'onDisable', []);
+        }
+      }
+    }
   }
 
   /**
    * Helper for scene traversal to avoid closure allocation.
    */
   private checkScript(obj: THREE.Object3D) {
-    if ((obj as MaybeScript).isXRScript) {
+    if (
+      (obj as MaybeScript).isXRScript &&
+      !this.failedScripts.has(obj as Script)
+    ) {
       const script = obj as Script;
       this.syncPromises.push(this.initScript(script));
       this.seenScripts.add(script);
     }
+    for (const component of getComponents(obj)) {
+      if (!this.failedScripts.has(component)) {
+        this.syncPromises.push(this.initScript(component));
+        this.seenScripts.add(component);
+      }
+    }
   }
 
   /**
-   * Finds all scripts in the scene and initializes them or uninitailizes them.
+   * Finds all scripts and components in the scene and initializes them or
+   * uninitailizes them, and notifies scripts whose enabled flag changed.
    * Returns a promise which resolves when all new scripts are finished
    * initalizing.
    * @param scene - The main scene which is used to find scripts.
@@ -88,73 +294,182 @@ export class ScriptsManager {
         this.uninitScript(script);
       }
     }
+    for (const component of this.components) {
+      if (!this.seenScripts.has(component)) {
+        this.uninitScript(component);
+      }
+    }
+
+    this.updateEnabledStates();
 
     return Promise.allSettled(this.syncPromises);
   }
 
   callSelectStart(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSelectStart(event);
-    }
+    this.callEnabledScripts('onSelectStart', [event]);
   }
 
   callSelectEnd(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSelectEnd(event);
-    }
+    this.callEnabledScripts('onSelectEnd', [event]);
   }
 
   callSelect(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSelect(event);
-    }
+    this.callEnabledScripts('onSelect', [event]);
   }
 
   callSqueezeStart(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSqueezeStart(event);
-    }
+    this.callEnabledScripts('onSqueezeStart', [event]);
   }
 
   callSqueezeEnd(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSqueezeEnd(event);
-    }
+    this.callEnabledScripts('onSqueezeEnd', [event]);
   }
 
   callSqueeze(event: SelectEvent) {
-    for (const script of this.scripts) {
-      script.onSqueeze(event);
-    }
+    this.callEnabledScripts('onSqueeze', [event]);
   }
 
   callKeyDown(event: KeyEvent) {
-    for (const script of this.scripts) {
-      script.onKeyDown(event);
-    }
+    this.callEnabledScripts('onKeyDown', [event]);
   }
 
   callKeyUp(event: KeyEvent) {
-    for (const script of this.scripts) {
-      script.onKeyUp(event);
+    this.callEnabledScripts('onKeyUp', [event]);
+  }
+
+  callSelecting(event: SelectEvent) {
+    this.callEnabledScripts('onSelecting', [event]);
+  }
+
+  callSqueezing(event: SelectEvent) {
+    this.callEnabledScripts('onSqueezing', [event]);
+  }
+
+  callUpdate(time: number, frame?: XRFrame) {
+    const profiler = this.profiler;
+    if (!profiler?.enabled) {
+      this.callEnabledScripts('update', [time, frame]);
+      return;
+    }
+    for (const script of this.getOrderedScripts()) {
+      if (script.enabled) {
+        const startTime = profiler.now();
+        this.invoke(script, 'update', [time, frame]);
+        profiler.record(`script:${this.getScriptName(script)}`, startTime);
+      }
     }
   }
 
+  callPhysicsStep(event: PhysicsStepEvent) {
+    this.callEnabledScripts('physicsStep', [event]);
+  }
+
   onXRSessionStarted(session: XRSession) {
-    for (const script of this.scripts) {
-      script.onXRSessionStarted(session);
-    }
+    this.callEnabledScripts('onXRSessionStarted', [session]);
   }
 
   onXRSessionEnded() {
-    for (const script of this.scripts) {
-      script.onXRSessionEnded();
-    }
+    this.callEnabledScripts('onXRSessionEnded', []);
   }
 
   onSimulatorStarted() {
-    for (const script of this.scripts) {
-      script.onSimulatorStarted();
+    this.callEnabledScripts('onSimulatorStarted', []);
+  }
+
+  onPause() {
+    this.callEnabledScripts('onPause', []);
+  }
+
+  onResume() {
+    this.callEnabledScripts('onResume', []);
+  }
+
+  /**
+   * Calls a callback on all enabled scripts in execution order.
+   */
+  private callEnabledScripts<K extends ScriptCallbackName>(
+    callback: K,
+    args: Parameters<Behavior[K]>
+  ) {
+    for (const script of this.getOrderedScripts()) {
+      if (script.enabled) {
+        this.invoke(script, callback, args);
+      }
+    }
+  }
+
+  /**
+   * Calls a callback on a single script or component, e.g. an interaction
+   * event on its target, so an error it throws is reported for and disables
+   * only that script.
+   * @returns The result of the callback, or undefined if it threw.
+   */
+  callScript<K extends ScriptCallbackName>(
+    script: Behavior,
+    callback: K,
+    args: Parameters<Behavior[K]>
+  ) {
+    return this.invoke(script, callback, args);
+  }
+
+  /**
+   * Calls a callback on a script, reporting any error it throws or any
+   * promise it returns which rejects.
+   */
+  private invoke<K extends ScriptCallbackName>(
+    script: Behavior,
+    callback: K,
+    args: Parameters<Behavior[K]>
+  ) {
+    try {
+      const result: unknown = (
+        script[callback] as (...args: Parameters<Behavior[K]>) => unknown
+      ).apply(script, args);
+      if (result instanceof Promise) {
+        result.catch((error) => this.reportError(script, callback, error));
+      }
+      return result;
+    } catch (error) {
+      this.reportError(script, callback, error);
     }
   }
+
+  /**
+   * Logs an error thrown from a script, disables the script once it reached
+   * `maxFailures`, and publishes a `script:error` event.
+   */
+  private reportError(
+    script: Behavior,
+    callback: ScriptErrorEvent['callback'],
+    error: unknown
+  ) {
+    const scriptName = this.getScriptName(script);
+    const failures = this.getFailureCount(script) + 1;
+    this.failureCounts.set(script, failures);
+    logger.error(`${scriptName}.${callback} threw:`, error);
+    const disabled =
+      this.isInitialized(script) &&
+      script.enabled &&
+      this.maxFailures > 0 &&
+      failures >= this.maxFailures;
+    if (disabled) {
+      script.enabled = false;
+      logger.warn(`Disabled ${scriptName} after ${failures} errors.`);
+    }
+    this.eventBus?.emit('script:error', {
+      script,
+      scriptName,
+      callback,
+      error,
+      failures,
+      disabled,
+    });
+  }
+
+  /**
+   * Returns the name of a script, or of its class if it has none.
+   */
+  private getScriptName(script: Behavior) {
+    return script.name || script.constructor.name;
+  }
 }
@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+
+import {getLogger} from '../../logging/Logger';
+
+import {WaitFrame} from './WaitFrame';
+
+const logger = getLogger('TaskScheduler');
+
+/**
+ * The error a pending wait rejects with when its task is cancelled.
+ */
+export class TaskCancelledError extends Error {
+  constructor(reason = 'Task cancelled.') {
+    super(reason);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Signals the cancellation of a group of tasks.
+ */
+export class CancellationToken {
+  cancelled = false;
+  reason?: string;
+  private callbacks = new Set<() => void>();
+
+  /**
+   * Cancels the token and notifies all registered callbacks. Subsequent calls
+   * are ignored.
+   * @param reason - Describes why the tasks were cancelled.
+   */
+  cancel(reason?: string) {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.reason = reason;
+    for (const callback of this.callbacks) {
+      callback();
+    }
+    this.callbacks.clear();
+  }
+
+  /**
+   * Registers a callback which is called when the token is cancelled.
+   * @param callback - The callback.
+   * @returns A function which unregisters the callback.
+   */
+  onCancel(callback: () => void) {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Throws a `TaskCancelledError` if the token was cancelled.
+   */
+  throwIfCancelled() {
+    if (this.cancelled) {
+      throw new TaskCancelledError(this.reason);
+    }
+  }
+}
+
+/**
+ * Awaitable primitives for writing sequenced, coroutine-style behavior:
+ * ```ts
+ * await this.tasks.seconds(2);
+ * await this.tasks.until(() => user.isSelecting());
+ * ```
+ * All pending waits reject with a `TaskCancelledError` when the tasks are
+ * cancelled. Every initialized script owns a `Tasks` instance, which is
+ * cancelled when the script is disabled or disposed.
+ */
+export class Tasks {
+  /** The token of the currently running tasks. */
+  token: CancellationToken;
+
+  /**
+   * @param waitFrame - Resolves the waits for frames and physics steps.
+   * @param timer - Measures the waits for seconds.
+   * @param token - The initial token, e.g. the token of a run.
+   */
+  constructor(
+    private waitFrame: WaitFrame,
+    private timer: THREE.Timer,
+    token = new CancellationToken()
+  ) {
+    this.token = token;
+  }
+
+  /**
+   * Waits for the next frame.
+   */
+  nextFrame() {
+    return this.wait(this.waitFrame.waitFrame());
+  }
+
+  /**
+   * Waits for a number of frames.
+   * @param count - The number of frames to wait for.
+   */
+  async frames(count: number) {
+    for (let i = 0; i < count; ++i) {
+      await this.nextFrame();
+    }
+  }
+
+  /**
+   * Waits until the clock has advanced by the given duration, so pausing or
+   * scaling the clock also affects the wait.
+   * @param duration - The duration in seconds.
+   */
+  async seconds(duration: number) {
+    const endTime = this.timer.getElapsed() + duration;
+    while (this.timer.getElapsed() < endTime) {
+      await this.nextFrame();
+    }
+  }
+
+  /**
+   * Waits until a predicate returns true, evaluating it once per frame.
+   * @param predicate - The condition to wait for.
+   */
+  async until(predicate: () => boolean) {
+    while (!predicate()) {
+      await this.nextFrame();
+    }
+  }
+
+  /**
+   * Waits until the next fixed physics step has run.
+   */
+  nextPhysicsStep() {
+    return this.wait(this.waitFrame.waitPhysicsStep());
+  }
+
+  /**
+   * Runs a coroutine with tasks bound to this run, which are cancelled when
+   * these tasks are cancelled. Their waits keep checking the token of the
+   * run, so a coroutine cancelled while it awaits any other promise doesn't
+   * resume past its next wait. Cancellation ends it silently while other
+   * errors are logged.
+   * @param coroutine - The async function to run, called with the tasks of
+   * the run.
+   * @returns A promise which resolves when the coroutine ends.
+   */
+  async run(coroutine: (tasks: Tasks) => Promise<void>) {
+    const parentToken = this.token;
+    const token = new CancellationToken();
+    const removeCallback = parentToken.onCancel(() => {
+      token.cancel(parentToken.reason);
+    });
+    try {
+      await coroutine(new Tasks(this.waitFrame, this.timer, token));
+    } catch (error) {
+      if (!(error instanceof TaskCancelledError)) {
+        logger.error(error);
+      }
+    } finally {
+      removeCallback();
+    }
+  }
+
+  /**
+   * Cancels all pending waits. Waits started afterwards use a new token.
+   * @param reason - Describes why the tasks were cancelled.
+   */
+  cancel(reason?: string) {
+    const token = this.token;
+    this.token = new CancellationToken();
+    token.cancel(reason);
+  }
+
+  /**
+   * Waits for a promise, e.g. a fetch, but rejects as soon as the current
+   * token is cancelled or right away if it already is.
+   * @param promise - The promise to wait for.
+   */
+  wait<T>(promise: Promise<T>) {
+    const token = this.token;
+    return new Promise<T>((resolve, reject) => {
+      if (token.cancelled) {
+        reject(new TaskCancelledError(token.reason));
+        return;
+      }
+      const removeCallback = token.onCancel(() => {
+        reject(new TaskCancelledError(token.reason));
+      });
+      promise.then(
+        (value) => {
+          removeCallback();
+          resolve(value);
+        },
+        (error) => {
+          removeCallback();
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/**
+ * Creates `Tasks` for scripts and other sequenced behavior such as simulator
+ * journeys. Registered in the `Registry`.
+ */
+export class TaskScheduler {
+  constructor(
+    private waitFrame: WaitFrame,
+    private timer: THREE.Timer
+  ) {}
+
+  /**
+   * Creates a new, independently cancellable set of tasks.
+   */
+  createTasks() {
+    return new Tasks(this.waitFrame, this.timer);
+  }
+}
@@ -1,5 +1,9 @@
+import {getLogger} from '../../logging/Logger';
+
+const logger = getLogger('WaitFrame');
 export class WaitFrame {
   private callbacks: (() => void)[] = [];
+  private physicsStepCallbacks: (() => void)[] = [];
 
   /**
    * Executes all registered callbacks and clears the list.
@@ -9,7 +13,7 @@ export class WaitFrame {
       try {
         callback();
       } catch (e) {
-        console.error(e);
+        logger.error(e);
       }
     });
     this.callbacks.length = 0;
@@ -23,4 +27,28 @@ export class WaitFrame {
       this.callbacks.push(resolve);
     });
   }
+
+  /**
+   * Executes all callbacks waiting for a physics step and clears the list.
+   */
+  onPhysicsStep() {
+    const callbacks = this.physicsStepCallbacks;
+    this.physicsStepCallbacks = [];
+    callbacks.forEach((callback) => {
+      try {
+        callback();
+      } catch (e) {
+        logger.error(e);
+      }
+    });
+  }
+
+  /**
+   * Wait for the next fixed physics step.
+   */
+  async waitPhysicsStep() {
+    return new Promise<void>((resolve) => {
+      this.physicsStepCallbacks.push(resolve);
+    });
+  }
 }
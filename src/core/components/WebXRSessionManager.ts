@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../../logging/Logger';
+
+const logger = getLogger('WebXRSessionManager');
+
 export const IMMERSIVE_AR = 'immersive-ar';
 export const IMMERSIVE_VR = 'immersive-vr';
 
@@ -18,6 +22,7 @@ export enum WebXRSessionEventType {
   READY = 'ready',
   SESSION_START = 'sessionstart',
   SESSION_END = 'sessionend',
+  VISIBILITY_CHANGE = 'visibilitychange',
 }
 
 export type WebXRSessionManagerEventMap = THREE.Object3DEventMap & {
@@ -25,6 +30,9 @@ export type WebXRSessionManagerEventMap = THREE.Object3DEventMap & {
   [WebXRSessionEventType.READY]: {sessionOptions: XRSessionInit};
   [WebXRSessionEventType.SESSION_START]: {session: XRSession};
   [WebXRSessionEventType.SESSION_END]: object;
+  [WebXRSessionEventType.VISIBILITY_CHANGE]: {
+    visibilityState: XRVisibilityState;
+  };
 };
 
 /**
@@ -35,6 +43,7 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
   public currentSession?: XRSession;
   private sessionOptions?: XRSessionInit;
   private onSessionEndedBound = this.onSessionEndedInternal.bind(this);
+  private onVisibilityChangeBound = this.onVisibilityChangeInternal.bind(this);
   private xrModeSupported?: boolean;
   private waitingForXRSession = false;
 
@@ -53,7 +62,7 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
    */
   public async initialize() {
     if (!('xr' in navigator)) {
-      console.warn('WebXR not supported');
+      logger.warn('WebXR not supported');
       this.xrModeSupported = false;
       this.dispatchEvent({type: WebXRSessionEventType.UNSUPPORTED});
       return;
@@ -64,7 +73,7 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
       modeSupported =
         (await navigator.xr!.isSessionSupported(this.mode)) || false;
     } catch (e) {
-      console.error('Error getting isSessionSupported', e);
+      logger.error('Error getting isSessionSupported', e);
       this.xrModeSupported = false;
       this.dispatchEvent({type: WebXRSessionEventType.UNSUPPORTED});
       return;
@@ -91,11 +100,11 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
         navigator.xr!.offerSession!(this.mode, this.sessionOptions)
           .then(this.onSessionStartedInternal.bind(this))
           .catch((err) => {
-            console.warn(err);
+            logger.warn(err);
           });
       }
     } else {
-      console.log(`${this.mode} not supported`);
+      logger.info(`${this.mode} not supported`);
       this.xrModeSupported = false;
       this.dispatchEvent({type: WebXRSessionEventType.UNSUPPORTED});
     }
@@ -145,6 +154,7 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
   /** Internal callback for when a session successfully starts. */
   private async onSessionStartedInternal(session: XRSession) {
     session.addEventListener('end', this.onSessionEndedBound);
+    session.addEventListener('visibilitychange', this.onVisibilityChangeBound);
     await this.renderer.xr.setSession(session);
     this.currentSession = session;
 
@@ -161,6 +171,21 @@ export class WebXRSessionManager extends THREE.EventDispatcher<WebXRSessionManag
     this.dispatchEvent({type: WebXRSessionEventType.SESSION_END});
 
     this.currentSession?.removeEventListener('end', this.onSessionEndedBound);
+    this.currentSession?.removeEventListener(
+      'visibilitychange',
+      this.onVisibilityChangeBound
+    );
     this.currentSession = undefined;
   }
+
+  /**
+   * Internal callback for when the session becomes hidden, e.g. while the
+   * system menu is open, or visible again.
+   */
+  private onVisibilityChangeInternal(event: XRSessionEvent) {
+    this.dispatchEvent({
+      type: WebXRSessionEventType.VISIBILITY_CHANGE,
+      visibilityState: event.session.visibilityState,
+    });
+  }
 }
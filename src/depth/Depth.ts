@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 
 import {Registry} from '../core/components/Registry';
+import {getLogger} from '../logging/Logger';
 import type {Shader} from '../utils/Types';
 import {clamp} from '../utils/utils';
 
@@ -9,6 +10,8 @@ import {DepthOptions} from './DepthOptions';
 import {DepthTextures} from './DepthTextures';
 import {OcclusionPass} from './occlusion/OcclusionPass';
 
+const logger = getLogger('Depth');
+
 const DEFAULT_DEPTH_WIDTH = 160;
 const DEFAULT_DEPTH_HEIGHT = DEFAULT_DEPTH_WIDTH;
 const clipSpacePosition = new THREE.Vector3();
@@ -330,7 +333,7 @@ export class Depth {
           }
         }
       } else {
-        console.error('Pose unavailable in the current frame.');
+        logger.error('Pose unavailable in the current frame.');
       }
     }
   }
@@ -377,7 +380,7 @@ export class Depth {
     ).join('');
     // Convert binary string to base64
     const data_str = btoa(binaryString);
-    console.log(data_str);
+    logger.debug(data_str);
   }
 
   resumeDepth(client: object) {
@@ -12,6 +12,7 @@ export class DepthMesh extends MeshScript {
   static dependencies = {
     camera: THREE.Camera,
     renderer: THREE.WebGLRenderer,
+    timer: THREE.Timer,
   };
   static isDepthMesh = true;
   ignoreReticleRaycast = false;
@@ -33,7 +34,9 @@ export class DepthMesh extends MeshScript {
 
   private renderer!: THREE.WebGLRenderer;
   private camera!: THREE.Camera;
+  private timer!: THREE.Timer;
   private projectionMatrixInverse = new THREE.Matrix4();
+  /** The elapsed time of the timer in seconds when colliders were updated. */
   private lastColliderUpdateTime = 0;
   private options: DepthMeshOptions;
   private depthTextureMaterialUniforms?;
@@ -91,7 +94,6 @@ export class DepthMesh extends MeshScript {
     this.visible = options.showDebugTexture || options.renderShadow;
     this.options = options;
     this.projectionMatrixInverse = new THREE.Matrix4();
-    this.lastColliderUpdateTime = performance.now();
     this.updateVertexNormals = options.updateVertexNormals;
     this.colliderUpdateFps = options.colliderUpdateFps;
     this.depthTextureMaterialUniforms = uniforms;
@@ -115,12 +117,16 @@ export class DepthMesh extends MeshScript {
   init({
     camera,
     renderer,
+    timer,
   }: {
     camera: THREE.Camera;
     renderer: THREE.WebGLRenderer;
+    timer: THREE.Timer;
   }) {
     this.camera = camera;
     this.renderer = renderer;
+    this.timer = timer;
+    this.lastColliderUpdateTime = timer.getElapsed();
   }
 
   /**
@@ -339,8 +345,9 @@ export class DepthMesh extends MeshScript {
    * Optimizes collider updates to run periodically based on the specified FPS.
    */
   updateColliderIfNeeded() {
-    const timeSinceLastUpdate = performance.now() - this.lastColliderUpdateTime;
-    if (this.RAPIER && timeSinceLastUpdate > 1000 / this.colliderUpdateFps) {
+    const timeSinceLastUpdate =
+      this.timer.getElapsed() - this.lastColliderUpdateTime;
+    if (this.RAPIER && timeSinceLastUpdate > 1 / this.colliderUpdateFps) {
       this.getWorldPosition(this.worldPosition);
       this.getWorldQuaternion(this.worldQuaternion);
       this.rigidBody!.setTranslation(this.worldPosition, false);
@@ -377,7 +384,7 @@ export class DepthMesh extends MeshScript {
         this.collider = newCollider;
       }
 
-      this.lastColliderUpdateTime = performance.now();
+      this.lastColliderUpdateTime = this.timer.getElapsed();
     }
   }
 
@@ -409,7 +416,8 @@ export class DepthMesh extends MeshScript {
 
     this.RAPIER = RAPIER;
     this.blendedWorld = blendedWorld;
-    this.lastColliderUpdateTime = performance.now();
+    // Physics is set up before the mesh is initialized with the timer.
+    this.lastColliderUpdateTime = this.timer?.getElapsed() ?? 0;
   }
 
   getDepth(
@@ -1,7 +1,11 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../logging/Logger';
+
 import {HAND_JOINT_NAMES} from './components/HandJointNames.js';
 
+const logger = getLogger('Hands');
+
 type JointName = (typeof HAND_JOINT_NAMES)[number];
 
 /**
@@ -49,7 +53,7 @@ export class Hands {
 
     const hand = this.hands[resolvedHandednessEnum];
     if (!hand) {
-      console.log('no hand');
+      logger.debug('No hand.');
       return undefined;
     }
 
@@ -213,7 +217,7 @@ export class Hands {
     if (data.length !== expectedSize) {
       // This case should theoretically not happen with the logic above,
       // but added as a safeguard during development/debugging.
-      console.error(
+      logger.error(
         `XRHands.toPositionQuaternionArray: Output array size mismatch. Expected ${
           expectedSize
         }, got ${data.length}. Padding with zeros.`
@@ -5,6 +5,7 @@ import {XRHandModelFactory} from 'three/addons/webxr/XRHandModelFactory.js';
 import {NUM_HANDS} from '../constants';
 import {Options} from '../core/Options.js';
 import {KeyEvent, Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 import {Reticle} from '../ui/core/Reticle.js';
 
 import {ControllerRayVisual} from './components/ControllerRayVisual';
@@ -16,6 +17,8 @@ import type {
 import {GazeController} from './GazeController';
 import {MouseController} from './MouseController';
 
+const logger = getLogger('Input');
+
 export class ActiveControllers extends THREE.Object3D {}
 
 export type HasIgnoreReticleRaycast = {
@@ -26,6 +29,25 @@ export type MaybeHasIgnoreReticleRaycast = Partial<HasIgnoreReticleRaycast>;
 // Reusable objects for performance.
 const MATRIX4 = new THREE.Matrix4();
 
+/**
+ * Creates a stand-in for an XR controller's target ray space when there is no
+ * renderer, e.g. in headless mode.
+ */
+function createHeadlessController(): Controller {
+  return new THREE.Group<ControllerEventMap>();
+}
+
+/**
+ * Creates a stand-in for an XR hand space without any joints when there is no
+ * renderer, e.g. in headless mode.
+ */
+function createHeadlessHand() {
+  return Object.assign(new THREE.Group(), {
+    joints: {},
+    inputState: {pinching: false},
+  }) as unknown as THREE.XRHandSpace;
+}
+
 /**
  * The XRInput class holds all the controllers and performs raycasts through the
  * scene each frame.
@@ -52,6 +74,8 @@ export class Input {
   /**
    * Initializes an instance with XR controllers, grips, hands, raycaster, and
    * default options. Only called by Core.
+   * Without a renderer (headless mode), plain groups stand in for the XR
+   * controllers and hands, and their events can be dispatched manually.
    */
   init({
     scene,
@@ -60,7 +84,7 @@ export class Input {
   }: {
     scene: THREE.Scene;
     options: Options;
-    renderer: THREE.WebGLRenderer;
+    renderer?: THREE.WebGLRenderer;
   }) {
     scene.add(this.activeControllers);
 
@@ -71,7 +95,9 @@ export class Input {
     const controllerGrips = this.controllerGrips;
 
     for (let i = 0; i < NUM_HANDS; ++i) {
-      controllers.push(renderer.xr.getController(i));
+      controllers.push(
+        renderer ? renderer.xr.getController(i) : createHeadlessController()
+      );
       controllers[i].userData.id = i;
       this.activeControllers.add(this.controllers[i]);
     }
@@ -84,7 +110,7 @@ export class Input {
     }
 
     if (options.controllers.enabled) {
-      if (options.controllers.visualization) {
+      if (options.controllers.visualization && renderer) {
         const controllerModelFactory = new XRControllerModelFactory();
         for (let i = 0; i < NUM_HANDS; ++i) {
           controllerGrips.push(renderer.xr.getControllerGrip(i));
@@ -98,13 +124,15 @@ export class Input {
       // TODO: Separate logic to XR Hands.
       if (options.hands.enabled) {
         for (let i = 0; i < NUM_HANDS; ++i) {
-          this.hands.push(renderer.xr.getHand(i));
+          this.hands.push(
+            renderer ? renderer.xr.getHand(i) : createHeadlessHand()
+          );
           this.activeControllers.add(this.hands[i]);
         }
 
-        if (options.hands.visualization) {
+        if (options.hands.visualization && renderer) {
           if (options.hands.visualizeJoints) {
-            console.log('Visualize hand joints.');
+            logger.info('Visualize hand joints.');
             const handModelFactory = new XRHandModelFactory();
             for (let i = 0; i < NUM_HANDS; ++i) {
               const handModel = handModelFactory.createHandModel(
@@ -117,7 +145,7 @@ export class Input {
             }
           }
           if (options.hands.visualizeMeshes) {
-            console.log('Visualize hand meshes.');
+            logger.info('Visualize hand meshes.');
             const handModelFactory = new XRHandModelFactory();
             for (let i = 0; i < NUM_HANDS; ++i) {
               const handModel = handModelFactory.createHandModel(
@@ -1,10 +1,12 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../../logging/Logger';
 import {Input} from '../Input';
 import {Handedness} from '../Hands';
 import {HAND_JOINT_NAMES} from '../components/HandJointNames.js';
 import {User} from '../../core/User';
 import {Script} from '../../core/Script';
+import {EventBus} from '../../core/components/EventBus';
 import {GestureEventDetail, GestureEventType} from './GestureEvents';
 import {
   BuiltInGestureName,
@@ -20,6 +22,8 @@ import {
 } from './GestureTypes';
 import {heuristicDetectors} from './providers/HeuristicGestureDetectors';
 
+const logger = getLogger('GestureRecognition');
+
 type ActiveGestureState = {
   confidence: number;
   data?: Record<string, unknown>;
@@ -30,6 +34,12 @@ const HAND_INDEX_TO_LABEL: Record<number, HandLabel> = {
   [Handedness.RIGHT]: 'right',
 };
 
+const GESTURE_EVENT_TOPICS = {
+  gesturestart: 'gesture:start',
+  gestureupdate: 'gesture:update',
+  gestureend: 'gesture:end',
+} as const;
+
 const JOINT_TEMP_POOL = new Map<HandLabel, Map<string, THREE.Vector3>>();
 
 type GestureScriptEvent = THREE.Event & {
@@ -49,15 +59,20 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
     input: Input,
     user: User,
     options: GestureRecognitionOptions,
+    eventBus: EventBus,
+    timer: THREE.Timer,
   };
 
   private options!: GestureRecognitionOptions;
   private user!: User;
   private input!: Input;
+  private eventBus!: EventBus;
+  private timer!: THREE.Timer;
   private activeGestures: Record<HandLabel, Map<string, ActiveGestureState>> = {
     left: new Map(),
     right: new Map(),
   };
+  /** The elapsed time of the timer in milliseconds of the last evaluation. */
   private lastEvaluation = 0;
   private detectors = new Map<BuiltInGestureName, GestureDetector>();
   private activeProvider: string | null = null;
@@ -67,18 +82,24 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
     options,
     user,
     input,
+    eventBus,
+    timer,
   }: {
     options: GestureRecognitionOptions;
     user: User;
     input: Input;
+    eventBus: EventBus;
+    timer: THREE.Timer;
   }) {
     this.options = options;
     this.user = user;
     this.input = input;
+    this.eventBus = eventBus;
+    this.timer = timer;
     this.configureProvider(true);
     if (!this.options.enabled) {
-      console.info(
-        'GestureRecognition initialized but disabled. Call options.enableGestures() to activate.'
+      logger.info(
+        'Initialized but disabled. Call options.enableGestures() to activate.'
       );
     }
   }
@@ -89,7 +110,7 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
 
     this.configureProvider();
 
-    const now = performance.now();
+    const now = this.timer.getElapsed() * 1000;
     const interval =
       this.activeProvider === 'heuristics' ? 0 : this.options.updateIntervalMs;
     if (interval > 0 && now - this.lastEvaluation < interval) {
@@ -115,8 +136,8 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
       case 'tfjs':
         this.assignDetectors(heuristicDetectors);
         if (!this.providerWarned) {
-          console.warn(
-            `GestureRecognition: provider '${provider}' is not yet implemented; falling back to heuristics.`
+          logger.warn(
+            `Provider '${provider}' is not yet implemented; falling back to heuristics.`
           );
           this.providerWarned = true;
         }
@@ -124,8 +145,8 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
       default:
         this.assignDetectors(heuristicDetectors);
         if (!this.providerWarned) {
-          console.warn(
-            `GestureRecognition: provider '${provider}' is unknown; falling back to heuristics.`
+          logger.warn(
+            `Provider '${provider}' is unknown; falling back to heuristics.`
           );
           this.providerWarned = true;
         }
@@ -246,5 +267,6 @@ export class GestureRecognition extends Script<GestureRecognitionEventMap> {
   private emitGesture(type: GestureEventType, detail: GestureEventDetail) {
     const event: GestureScriptEvent = {type, detail, target: this};
     this.dispatchEvent(event);
+    this.eventBus.emit(GESTURE_EVENT_TOPICS[type], detail);
   }
 }
@@ -2,9 +2,12 @@ import * as THREE from 'three';
 import {XREstimatedLight} from 'three/addons/webxr/XREstimatedLight.js';
 
 import {Depth} from '../depth/Depth.js';
+import {getLogger} from '../logging/Logger';
 
 import {LightingOptions} from './LightingOptions.js';
 
+const logger = getLogger('Lighting');
+
 const DEBUGGING = false;
 
 /**
@@ -192,8 +195,8 @@ export class Lighting {
    * Logs current estimate light parameters for debugging.
    */
   debugLog() {
-    console.log('Lighting.dirLight', this.dirLight);
-    console.log('Lighting.ambientProbe', this.ambientProbe);
-    console.log('Lighting.ambientLight', this.ambientLight);
+    logger.debug('dirLight', this.dirLight);
+    logger.debug('ambientProbe', this.ambientProbe);
+    logger.debug('ambientLight', this.ambientLight);
   }
 }
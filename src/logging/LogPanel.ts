@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+
+import {Script} from '../core/Script';
+import {TextView} from '../ui/components/TextView';
+import {SpatialPanel} from '../ui/layouts/SpatialPanel';
+
+import {LogManager, LogRecord} from './Logger';
+import {LogSink} from './LogSinks';
+
+const PANEL_DISTANCE = 1.0;
+
+// Reusable objects for performance.
+const cameraPosition = new THREE.Vector3();
+const cameraDirection = new THREE.Vector3();
+
+/**
+ * A floating panel which shows the most recent log messages, so logs can be
+ * read in XR without a developer console.
+ */
+export class LogPanel extends Script implements LogSink {
+  static dependencies = {logManager: LogManager, camera: THREE.Camera};
+
+  /** The number of messages shown on the panel. */
+  maxLines = 12;
+
+  private logManager!: LogManager;
+  private camera!: THREE.Camera;
+  private panel?: SpatialPanel;
+  private linesView?: TextView;
+  private lines: string[] = [];
+  private dirty = false;
+
+  init({logManager, camera}: {logManager: LogManager; camera: THREE.Camera}) {
+    this.logManager = logManager;
+    this.camera = camera;
+  }
+
+  /**
+   * Whether the panel is shown.
+   */
+  get shown() {
+    return this.panel != null;
+  }
+
+  /**
+   * Opens the panel in front of the user with the most recent messages.
+   */
+  show() {
+    if (this.panel) return;
+    this.lines = this.logManager.history
+      .getRecords()
+      .slice(-this.maxLines)
+      .map((record) => this.formatRecord(record));
+    this.dirty = true;
+    this.logManager.addSink(this);
+    this.openPanel();
+  }
+
+  /**
+   * Closes the panel.
+   */
+  hide() {
+    if (!this.panel) return;
+    this.logManager.removeSink(this);
+    this.remove(this.panel);
+    this.panel = undefined;
+    this.linesView = undefined;
+  }
+
+  /**
+   * Shows the panel if it is hidden and hides it otherwise.
+   */
+  toggle() {
+    if (this.panel) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  write(record: LogRecord) {
+    this.lines.push(this.formatRecord(record));
+    if (this.lines.length > this.maxLines) {
+      this.lines.splice(0, this.lines.length - this.maxLines);
+    }
+    this.dirty = true;
+  }
+
+  update() {
+    if (!this.dirty || !this.linesView) return;
+    this.dirty = false;
+    this.linesView.setText(this.lines.join('\n'));
+  }
+
+  dispose() {
+    this.hide();
+  }
+
+  private formatRecord({level, namespace, message}: LogRecord) {
+    const firstLine = message.split('\n', 1)[0];
+    return `[${level}] ${namespace}: ${firstLine}`;
+  }
+
+  private openPanel() {
+    const panel = new SpatialPanel({
+      backgroundColor: '#1a1a1add',
+      useDefaultPosition: false,
+      width: 1.4,
+      height: 0.7,
+    });
+    panel.name = 'LogPanel';
+    this.camera.getWorldPosition(cameraPosition);
+    this.camera.getWorldDirection(cameraDirection);
+    panel.position
+      .copy(cameraPosition)
+      .addScaledVector(cameraDirection, PANEL_DISTANCE);
+    panel.lookAt(cameraPosition);
+
+    const grid = panel.addGrid();
+    this.linesView = grid.addRow({weight: 0.85}).addText({
+      text: '',
+      fontSize: 0.025,
+      textAlign: 'left',
+      anchorX: 'left',
+    });
+    const closeButton = grid.addRow({weight: 0.15}).addTextButton({
+      text: 'Close',
+      fontSize: 0.04,
+    });
+    closeButton.onTriggered = () => this.hide();
+
+    this.panel = panel;
+    this.add(panel);
+  }
+}
@@ -0,0 +1,166 @@
+import type {LogRecord} from './Logger';
+
+/**
+ * Receives logged messages from the `LogManager`.
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+/**
+ * Formats a record as a single line of text.
+ */
+export function formatLogRecord(record: LogRecord) {
+  const time = new Date(record.time).toISOString();
+  return `${time} ${record.level.toUpperCase()} ${record.namespace}: ${record.message}`;
+}
+
+/**
+ * Prints messages to the developer console, prefixed with their namespace.
+ */
+export class ConsoleLogSink implements LogSink {
+  write({level, namespace, args}: LogRecord) {
+    console[level](`${namespace}:`, ...args);
+  }
+}
+
+/**
+ * Keeps the most recent messages in memory so they can be inspected or
+ * downloaded, e.g. after reproducing a problem on a headset.
+ */
+export class RingBufferLogSink implements LogSink {
+  private records: LogRecord[] = [];
+  private start = 0;
+
+  /**
+   * @param capacity - The maximum number of messages kept.
+   */
+  constructor(public capacity = 1000) {}
+
+  write(record: LogRecord) {
+    if (this.capacity <= 0) return;
+    if (this.records.length < this.capacity) {
+      if (this.start != 0) {
+        // The capacity was raised after the buffer wrapped around.
+        this.records = this.getRecords();
+        this.start = 0;
+      }
+      this.records.push(record);
+    } else {
+      this.records[this.start] = record;
+      this.start = (this.start + 1) % this.records.length;
+    }
+  }
+
+  /**
+   * @returns The kept messages from oldest to newest.
+   */
+  getRecords() {
+    const records = [
+      ...this.records.slice(this.start),
+      ...this.records.slice(0, this.start),
+    ];
+    return records.slice(Math.max(0, records.length - this.capacity));
+  }
+
+  /**
+   * Removes all kept messages.
+   */
+  clear() {
+    this.records = [];
+    this.start = 0;
+  }
+
+  /**
+   * @returns The kept messages as text, one message per line.
+   */
+  toText() {
+    return this.getRecords().map(formatLogRecord).join('\n');
+  }
+
+  /**
+   * Downloads the kept messages as a text file in the browser.
+   * @param filename - The name of the downloaded file.
+   */
+  download(filename = 'xrblocks.log') {
+    const blob = new Blob([this.toText()], {type: 'text/plain'});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Sends messages as JSON to a WebSocket server, e.g. a local dev server, so
+ * logs of a headset can be followed on a desktop. Messages logged while the
+ * socket is connecting are queued and the socket reconnects when closed.
+ */
+export class WebSocketLogSink implements LogSink {
+  /** The maximum number of messages queued while disconnected. */
+  maxQueueSize = 500;
+
+  /** The delay before reconnecting in milliseconds. */
+  reconnectDelay = 3000;
+
+  private socket?: WebSocket;
+  private queue: string[] = [];
+  private closed = false;
+  private reconnectTimeout?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param url - The URL of the WebSocket server.
+   */
+  constructor(public url: string) {
+    this.connect();
+  }
+
+  write(record: LogRecord) {
+    const data = JSON.stringify({
+      time: record.time,
+      level: record.level,
+      namespace: record.namespace,
+      message: record.message,
+    });
+    if (this.socket?.readyState == WebSocket.OPEN) {
+      this.socket.send(data);
+      return;
+    }
+    this.queue.push(data);
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.shift();
+    }
+  }
+
+  /**
+   * Closes the socket and stops reconnecting.
+   */
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimeout);
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private connect() {
+    if (this.closed) return;
+    const socket = new WebSocket(this.url);
+    socket.onopen = () => {
+      for (const data of this.queue) {
+        socket.send(data);
+      }
+      this.queue = [];
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.reconnectTimeout = setTimeout(
+        () => this.connect(),
+        this.reconnectDelay
+      );
+    };
+    this.socket = socket;
+  }
+}
@@ -0,0 +1,200 @@
+import type {LoggingOptions} from './LoggingOptions';
+import {ConsoleLogSink, RingBufferLogSink, type LogSink} from './LogSinks';
+
+/**
+ * The severity of a message, or `none` to disable logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'none';
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  none: 4,
+};
+
+/** All log levels from the most to the least verbose. */
+export const LOG_LEVELS = Object.keys(LOG_LEVEL_PRIORITY) as LogLevel[];
+
+/**
+ * A logged message as passed to sinks.
+ */
+export interface LogRecord {
+  /** The time of the message in milliseconds since the epoch. */
+  time: number;
+  level: Exclude<LogLevel, 'none'>;
+  /** The namespace of the logger, usually the module name. */
+  namespace: string;
+  /** The arguments formatted as a single line. */
+  message: string;
+  /** The original arguments, e.g. for the developer console. */
+  args: unknown[];
+}
+
+/**
+ * Formats a logged value for text sinks.
+ */
+function formatLogArg(arg: unknown) {
+  if (typeof arg == 'string') return arg;
+  if (arg instanceof Error) return arg.stack ?? `${arg.name}: ${arg.message}`;
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * A leveled logger for one namespace. Get one with `getLogger(namespace)`.
+ */
+export class Logger {
+  constructor(
+    readonly namespace: string,
+    private manager: LogManager
+  ) {}
+
+  debug(...args: unknown[]) {
+    this.manager.write(this.namespace, 'debug', args);
+  }
+
+  info(...args: unknown[]) {
+    this.manager.write(this.namespace, 'info', args);
+  }
+
+  warn(...args: unknown[]) {
+    this.manager.write(this.namespace, 'warn', args);
+  }
+
+  error(...args: unknown[]) {
+    this.manager.write(this.namespace, 'error', args);
+  }
+
+  /**
+   * @param level - The level of a message.
+   * @returns Whether messages of the level are logged, e.g. to skip building
+   * expensive messages.
+   */
+  isEnabled(level: LogLevel) {
+    return this.manager.isEnabled(this.namespace, level);
+  }
+}
+
+/**
+ * Filters messages of all loggers by level and passes them to the sinks.
+ * Available as `logManager` and registered in the `Registry` by Core.
+ */
+export class LogManager {
+  /** The minimum level of messages which are logged. */
+  level: LogLevel = 'warn';
+
+  /** Minimum levels of individual namespaces, overriding `level`. */
+  levels: Record<string, LogLevel> = {};
+
+  /** Prints messages to the developer console. */
+  readonly consoleSink = new ConsoleLogSink();
+
+  /** Keeps recent messages, which can be downloaded as a file. */
+  readonly history = new RingBufferLogSink();
+
+  private sinks = new Set<LogSink>([this.consoleSink, this.history]);
+  private loggers = new Map<string, Logger>();
+
+  /**
+   * @param namespace - The namespace, usually the module name.
+   * @returns The logger of the namespace.
+   */
+  getLogger(namespace: string) {
+    let logger = this.loggers.get(namespace);
+    if (!logger) {
+      logger = new Logger(namespace, this);
+      this.loggers.set(namespace, logger);
+    }
+    return logger;
+  }
+
+  /**
+   * Adds a sink which receives all logged messages.
+   * @param sink - The sink to add.
+   */
+  addSink(sink: LogSink) {
+    this.sinks.add(sink);
+  }
+
+  /**
+   * Removes a sink.
+   * @param sink - The sink to remove.
+   */
+  removeSink(sink: LogSink) {
+    this.sinks.delete(sink);
+  }
+
+  /**
+   * @param namespace - The namespace of a logger.
+   * @param level - The level of a message.
+   * @returns Whether messages of the level are logged in the namespace.
+   */
+  isEnabled(namespace: string, level: LogLevel) {
+    const minLevel = this.levels[namespace] ?? this.level;
+    return (
+      level != 'none' &&
+      LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[minLevel]
+    );
+  }
+
+  /**
+   * Passes a message to all sinks if its level is enabled. Errors thrown by
+   * sinks are ignored so logging never breaks the app.
+   * @param namespace - The namespace of the logger.
+   * @param level - The level of the message.
+   * @param args - The logged values.
+   */
+  write(namespace: string, level: LogRecord['level'], args: unknown[]) {
+    if (!this.isEnabled(namespace, level)) return;
+    const record: LogRecord = {
+      time: Date.now(),
+      level,
+      namespace,
+      message: args.map(formatLogArg).join(' '),
+      args,
+    };
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch {
+        // Ignore failing sinks.
+      }
+    }
+  }
+
+  /**
+   * Applies logging options.
+   * @param options - The logging options.
+   * @param debugging - Whether `Options.debugging` is set.
+   */
+  configure(options: LoggingOptions, debugging = false) {
+    this.level = debugging ? 'debug' : options.level;
+    this.levels = {...options.levels};
+    this.history.capacity = options.historySize;
+    if (options.console) {
+      this.addSink(this.consoleSink);
+    } else {
+      this.removeSink(this.consoleSink);
+    }
+  }
+}
+
+/** The log manager shared by all modules. */
+export const logManager = new LogManager();
+
+/**
+ * Returns the logger of a namespace, e.g. at the top of a module:
+ * ```ts
+ * const logger = getLogger('SpeechRecognizer');
+ * logger.debug('Listening started.');
+ * ```
+ * @param namespace - The namespace, usually the module name.
+ */
+export function getLogger(namespace: string) {
+  return logManager.getLogger(namespace);
+}
@@ -0,0 +1,22 @@
+import type {LogLevel} from './Logger';
+
+export class LoggingOptions {
+  /**
+   * The minimum level of messages which are logged. `Options.debugging`
+   * lowers it to `debug`.
+   */
+  level: LogLevel = 'warn';
+  /** Minimum levels of individual namespaces, e.g. `{AI: 'debug'}`. */
+  levels: Record<string, LogLevel> = {};
+  /** Whether messages are printed to the developer console. */
+  console = true;
+  /** The number of recent messages kept for `logManager.history`. */
+  historySize = 1000;
+  /** Whether to show a floating panel with recent messages in XR. */
+  showPanel = false;
+  /**
+   * If set, messages are also sent as JSON to a WebSocket server, e.g.
+   * `ws://localhost:8765`, so logs can be captured from a headset.
+   */
+  webSocketUrl?: string;
+}
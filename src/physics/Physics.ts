@@ -1,7 +1,20 @@
 import type RAPIER from 'rapier3d';
+import * as THREE from 'three';
 
 import {PhysicsOptions, RAPIERCompat} from './PhysicsOptions';
 
+/**
+ * Poses of a rigid body after the previous and the latest physics step, used
+ * to interpolate the transform of its object between steps.
+ */
+interface InterpolatedBody {
+  body: RAPIER.RigidBody;
+  previousPosition: THREE.Vector3;
+  previousQuaternion: THREE.Quaternion;
+  currentPosition: THREE.Vector3;
+  currentQuaternion: THREE.Quaternion;
+}
+
 /**
  * Integrates the RAPIER physics engine into the XRCore lifecycle.
  * It sets up the physics in a blended world that combines virtual and physical
@@ -16,6 +29,16 @@ export class Physics {
   blendedWorld!: RAPIER.World;
   eventQueue!: RAPIER.EventQueue;
 
+  /**
+   * The fraction of a timestep that the clock is ahead of the latest physics
+   * step, in [0, 1). Used to interpolate rendered transforms between steps.
+   */
+  alpha = 0;
+
+  /** Clock time in seconds not yet consumed by physics steps. */
+  private accumulator = 0;
+  private interpolatedBodies = new Map<THREE.Object3D, InterpolatedBody>();
+
   get timestep() {
     return 1 / this.fps;
   }
@@ -39,6 +62,27 @@ export class Physics {
     this.initialized = true;
   }
 
+  /**
+   * Accumulates the time of a frame and computes how many fixed steps to run
+   * for it, capped at `options.maxSubsteps`. Also updates `alpha` to the
+   * interpolation alpha after those steps. Called by Core once per frame.
+   * @param deltaTime - The time the clock advanced this frame, in seconds.
+   * @returns The number of physics steps to run this frame.
+   */
+  advance(deltaTime: number) {
+    const timestep = this.timestep;
+    const maxSubsteps = this.options?.maxSubsteps ?? Infinity;
+    this.accumulator += deltaTime;
+    let steps = Math.floor(this.accumulator / timestep);
+    if (steps > maxSubsteps) {
+      steps = maxSubsteps;
+      this.accumulator = timestep * steps;
+    }
+    this.accumulator -= timestep * steps;
+    this.alpha = THREE.MathUtils.clamp(this.accumulator / timestep, 0, 1);
+    return steps;
+  }
+
   /**
    * Advances the physics simulation by one step.
    */
@@ -46,6 +90,82 @@ export class Physics {
     if (this.options?.worldStep && this.blendedWorld) {
       this.blendedWorld.step(this.eventQueue);
     }
+    for (const interpolatedBody of this.interpolatedBodies.values()) {
+      this.recordPose(interpolatedBody);
+    }
+  }
+
+  /**
+   * Registers an object whose transform follows a rigid body, interpolated
+   * between the previous and latest physics step every frame. The object is
+   * expected to be in world space, e.g. a direct child of the scene.
+   * @param object - The object to move.
+   * @param body - The rigid body to follow.
+   */
+  addInterpolatedObject(object: THREE.Object3D, body: RAPIER.RigidBody) {
+    const interpolatedBody: InterpolatedBody = {
+      body,
+      previousPosition: new THREE.Vector3(),
+      previousQuaternion: new THREE.Quaternion(),
+      currentPosition: new THREE.Vector3(),
+      currentQuaternion: new THREE.Quaternion(),
+    };
+    this.recordPose(interpolatedBody);
+    this.recordPose(interpolatedBody);
+    this.interpolatedBodies.set(object, interpolatedBody);
+  }
+
+  /**
+   * Stops interpolating an object registered with `addInterpolatedObject`.
+   * @param object - The object to remove.
+   */
+  removeInterpolatedObject(object: THREE.Object3D) {
+    this.interpolatedBodies.delete(object);
+  }
+
+  /**
+   * Sets the transform of every interpolated object to its pose at `alpha`
+   * between the previous and latest physics step. Called by Core every frame
+   * after stepping.
+   */
+  interpolate() {
+    for (const [object, interpolatedBody] of this.interpolatedBodies) {
+      object.position.lerpVectors(
+        interpolatedBody.previousPosition,
+        interpolatedBody.currentPosition,
+        this.alpha
+      );
+      object.quaternion.slerpQuaternions(
+        interpolatedBody.previousQuaternion,
+        interpolatedBody.currentQuaternion,
+        this.alpha
+      );
+    }
+  }
+
+  /**
+   * Shifts the latest pose of a body to its previous pose and reads the new
+   * latest pose from the body.
+   */
+  private recordPose(interpolatedBody: InterpolatedBody) {
+    const {body} = interpolatedBody;
+    interpolatedBody.previousPosition.copy(interpolatedBody.currentPosition);
+    interpolatedBody.previousQuaternion.copy(
+      interpolatedBody.currentQuaternion
+    );
+    const translation = body.translation();
+    const rotation = body.rotation();
+    interpolatedBody.currentPosition.set(
+      translation.x,
+      translation.y,
+      translation.z
+    );
+    interpolatedBody.currentQuaternion.set(
+      rotation.x,
+      rotation.y,
+      rotation.z,
+      rotation.w
+    );
   }
 
   /**
@@ -54,6 +174,7 @@ export class Physics {
    * ends.
    */
   dispose() {
+    this.interpolatedBodies.clear();
     if (this.eventQueue) {
       this.eventQueue.free();
     }
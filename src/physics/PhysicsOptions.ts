@@ -10,6 +10,13 @@ export class PhysicsOptions {
    */
   fps = 45;
 
+  /**
+   * The maximum number of physics steps per frame. After a long frame, any
+   * remaining time is dropped rather than stepped to keep the simulation from
+   * falling further behind.
+   */
+  maxSubsteps = 5;
+
   /**
    * The global gravity vector applied to the physics world.
    */
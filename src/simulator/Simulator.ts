@@ -3,6 +3,7 @@ import {FullScreenQuad} from 'three/addons/postprocessing/Pass.js';
 import type {SparkRenderer} from '@sparkjsdev/spark';
 
 import {XRDeviceCamera} from '../camera/XRDeviceCamera.js';
+import {CommandHistory} from '../core/components/CommandHistory';
 import {Registry} from '../core/components/Registry';
 import {XREffects} from '../core/components/XREffects';
 import {Options} from '../core/Options';
@@ -21,8 +22,11 @@ import {SimulatorInterface} from './SimulatorInterface';
 import {SimulatorOptions} from './SimulatorOptions';
 import {SimulatorScene} from './SimulatorScene';
 import {SimulatorUser} from './SimulatorUser';
+import {getLogger} from '../logging/Logger';
 import {SparkRendererHolder} from '../utils/SparkRendererHolder.js';
 
+const logger = getLogger('Simulator');
+
 export class Simulator extends Script {
   static dependencies = {
     simulatorOptions: SimulatorOptions,
@@ -107,13 +111,21 @@ export class Simulator extends Script {
     // Get optional dependencies from the registry.
     const deviceCamera = registry.get(XRDeviceCamera);
     const depthMesh = registry.get(DepthMesh);
+    const commandHistory = registry.get(CommandHistory);
     this.options = simulatorOptions;
     camera.position.copy(this.options.initialCameraPosition);
     this.userInterface.init(simulatorOptions, this.controls, this.hands);
     renderer.autoClearColor = false;
     await this.simulatorScene.init(simulatorOptions);
     this.hands.init({input});
-    this.controls.init({camera, input, timer, renderer, simulatorOptions});
+    this.controls.init({
+      camera,
+      input,
+      timer,
+      renderer,
+      simulatorOptions,
+      commandHistory,
+    });
     if (deviceCamera && !this.camera) {
       this.camera = new SimulatorCamera(renderer);
       this.camera.init();
@@ -139,14 +151,11 @@ export class Simulator extends Script {
       this.videoElement.loop = true;
       this.videoElement.muted = true;
       this.videoElement.play().catch((e) => {
-        console.error(
-          `Simulator: Failed to play video at ${this.options.videoPath}`,
-          e
-        );
+        logger.error(`Failed to play video at ${this.options.videoPath}`, e);
       });
       this.videoElement.addEventListener('error', () => {
-        console.error(
-          `Simulator: Error loading video at ${this.options.videoPath}`,
+        logger.error(
+          `Error loading video at ${this.options.videoPath}`,
           this.videoElement?.error
         );
       });
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 
+import type {CommandHistory} from '../core/components/CommandHistory';
 import {Handedness} from '../input/Hands';
 import {Input} from '../input/Input';
 import {Keycodes} from '../utils/Keycodes';
@@ -39,6 +40,7 @@ export class SimulatorControls {
   simulatorModeControls: SimulatorControlMode;
   simulatorModes: {[key: string]: SimulatorControlMode};
   renderer!: THREE.WebGLRenderer;
+  commandHistory?: CommandHistory;
 
   private _onPointerDown = this.onPointerDown.bind(this);
   private _onPointerUp = this.onPointerUp.bind(this);
@@ -97,17 +99,20 @@ export class SimulatorControls {
     timer,
     renderer,
     simulatorOptions,
+    commandHistory,
   }: {
     camera: THREE.Camera;
     input: Input;
     timer: THREE.Timer;
     renderer: THREE.WebGLRenderer;
     simulatorOptions: SimulatorOptions;
+    commandHistory?: CommandHistory;
   }) {
     for (const mode in this.simulatorModes) {
       this.simulatorModes[mode].init({camera, input, timer});
     }
     this.renderer = renderer;
+    this.commandHistory = commandHistory;
     this.setSimulatorMode(simulatorOptions.defaultMode);
     this.simulatorControllerState.currentControllerIndex =
       simulatorOptions.defaultHand === Handedness.LEFT ? 0 : 1;
@@ -143,6 +148,9 @@ export class SimulatorControls {
   }
 
   onKeyDown(event: KeyboardEvent) {
+    if (this.handleHistoryShortcut(event)) {
+      return;
+    }
     this.downKeys.add(event.code as Keycodes);
     if (event.code == Keycodes.LEFT_SHIFT_CODE) {
       this.setSimulatorMode(NEXT_SIMULATOR_MODE[this.simulatorMode]);
@@ -154,6 +162,29 @@ export class SimulatorControls {
     this.downKeys.delete(event.code as Keycodes);
   }
 
+  /**
+   * Undoes on Ctrl+Z and redoes on Ctrl+Y or Ctrl+Shift+Z, using Cmd instead
+   * of Ctrl on macOS.
+   * @returns Whether the event was an undo or redo shortcut.
+   */
+  private handleHistoryShortcut(event: KeyboardEvent) {
+    if (!this.commandHistory || !(event.ctrlKey || event.metaKey)) {
+      return false;
+    }
+    if (event.code == Keycodes.Z_CODE && !event.shiftKey) {
+      this.commandHistory.undo();
+    } else if (
+      event.code == Keycodes.Y_CODE ||
+      (event.code == Keycodes.Z_CODE && event.shiftKey)
+    ) {
+      this.commandHistory.redo();
+    } else {
+      return false;
+    }
+    event.preventDefault();
+    return true;
+  }
+
   setSimulatorMode(mode: SimulatorMode) {
     this.simulatorMode = mode;
     this.simulatorModeControls.onModeDeactivated();
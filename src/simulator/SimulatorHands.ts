@@ -3,6 +3,7 @@ import {GLTFLoader} from 'three/addons/loaders/GLTFLoader.js';
 
 import {HAND_JOINT_NAMES} from '../input/components/HandJointNames';
 import {Input} from '../input/Input';
+import {getLogger} from '../logging/Logger';
 import type {DeepReadonly} from '../utils/Types';
 
 import {SimulatorHandPoseChangeRequestEvent} from './events/SimulatorHandEvents';
@@ -15,6 +16,8 @@ import {
 import {SimulatorControllerState} from './SimulatorControllerState';
 import {SimulatorXRHand} from './SimulatorXRHand';
 
+const logger = getLogger('SimulatorHands');
+
 const DEFAULT_HAND_PROFILE_PATH =
   'https://cdn.jsdelivr.net/npm/@webxr-input-profiles/assets@1.0/dist/profiles/generic-hand/';
 
@@ -74,7 +77,7 @@ export class SimulatorHands {
         if (bone) {
           this.leftHandBones.push(bone);
         } else {
-          console.warn(`Couldn't find ${jointName} in left hand mesh`);
+          logger.warn(`Couldn't find ${jointName} in left hand mesh`);
         }
       });
       this.setLeftHandJoints(this.leftHandTargetJoints);
@@ -91,7 +94,7 @@ export class SimulatorHands {
         if (bone) {
           this.rightHandBones.push(bone);
         } else {
-          console.warn(`Couldn't find ${jointName} in right hand mesh`);
+          logger.warn(`Couldn't find ${jointName} in right hand mesh`);
         }
       });
       this.setRightHandJoints(this.rightHandTargetJoints);
@@ -1,15 +1,29 @@
 import {Registry} from '../core/components/Registry.js';
 import {WaitFrame} from '../core/components/WaitFrame.js';
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
 import {callInitWithDependencyInjection} from '../utils/DependencyInjection';
 
 import {SimulatorUserAction} from './userActions/SimulatorUserAction.js';
 
+const logger = getLogger('SimulatorUser');
+
 export class SimulatorUser extends Script {
   static dependencies = {waitFrame: WaitFrame, registry: Registry};
+  registry!: Registry;
+
+  /**
+   * The id of the current journey, which changes when a journey is loaded or
+   * stopped.
+   * @deprecated Actions receive `tasks`, whose waits reject when the journey
+   * is stopped.
+   */
   journeyId = 0;
+
+  /**
+   * @deprecated Actions receive `tasks`, which wait for frames.
+   */
   waitFrame!: WaitFrame;
-  registry!: Registry;
 
   constructor() {
     super();
@@ -20,29 +34,43 @@ export class SimulatorUser extends Script {
     this.registry = registry;
   }
 
+  /**
+   * Stops the current journey by cancelling its tasks.
+   */
   stopJourney() {
     ++this.journeyId;
+    this.tasks.cancel('Journey stopped.');
   }
 
+  /**
+   * @param id - The `journeyId` passed to an action.
+   * @returns Whether the journey with the id is still running.
+   * @deprecated Actions receive `tasks`, whose waits reject when the journey
+   * is stopped.
+   */
   isOnJourneyId(id: number) {
     return id == this.journeyId;
   }
 
   async loadJourney(actions: SimulatorUserAction[]) {
-    console.log('Load journey');
-    const currentJourneyId = ++this.journeyId;
-    for (
-      let i = 0;
-      this.isOnJourneyId(currentJourneyId) && i < actions.length;
-      ++i
-    ) {
-      callInitWithDependencyInjection(actions[i], this.registry, undefined);
-      await actions[i].play({
-        simulatorUser: this,
-        journeyId: currentJourneyId,
-        waitFrame: this.waitFrame,
-      });
-    }
-    console.log('Journey finished');
+    logger.info('Load journey');
+    this.stopJourney();
+    const journeyId = this.journeyId;
+    await this.tasks.run(async (tasks) => {
+      for (const action of actions) {
+        // Actions which don't wait with tasks return when stopped.
+        tasks.token.throwIfCancelled();
+        callInitWithDependencyInjection(action, this.registry, undefined);
+        // journeyId and waitFrame are passed for actions written before
+        // tasks.
+        await action.play({
+          simulatorUser: this,
+          tasks,
+          journeyId,
+          waitFrame: this.waitFrame,
+        });
+      }
+    });
+    logger.info('Journey finished');
   }
 }
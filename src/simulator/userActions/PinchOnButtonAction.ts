@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 
-import {WaitFrame} from '../../core/components/WaitFrame';
+import {Tasks} from '../../core/components/TaskScheduler';
 import {Input} from '../../input/Input';
 import {UP} from '../../utils/HelperConstants';
 import {clampRotationToAngle, lookAtRotation} from '../../utils/RotationUtils';
@@ -124,18 +124,10 @@ export class PinchOnButtonAction extends SimulatorUserAction {
     }
   }
 
-  async play({
-    simulatorUser,
-    journeyId,
-    waitFrame,
-  }: {
-    simulatorUser: SimulatorUser;
-    journeyId: number;
-    waitFrame: WaitFrame;
-  }) {
+  async play({tasks}: {simulatorUser: SimulatorUser; tasks: Tasks}) {
     let pinchedOnButton = false;
 
-    while (simulatorUser.isOnJourneyId(journeyId) && !pinchedOnButton) {
+    while (!pinchedOnButton) {
       const deltaTime = this.timer.getDelta();
       if (
         !this.controllerIsPointingAtButton(this.simulator.controls, this.camera)
@@ -149,7 +141,7 @@ export class PinchOnButtonAction extends SimulatorUserAction {
         this.pinchController();
         pinchedOnButton = true;
       }
-      await waitFrame.waitFrame();
+      await tasks.nextFrame();
     }
   }
 }
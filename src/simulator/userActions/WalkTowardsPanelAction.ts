@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 
-import {WaitFrame} from '../../core/components/WaitFrame';
+import {Tasks} from '../../core/components/TaskScheduler';
 import {UP} from '../../utils/HelperConstants';
 import {clampRotationToAngle, lookAtRotation} from '../../utils/RotationUtils';
 import {clamp} from '../../utils/utils';
@@ -105,30 +105,20 @@ export class WalkTowardsPanelAction extends SimulatorUserAction {
     );
   }
 
-  async play({
-    simulatorUser,
-    journeyId,
-    waitFrame,
-  }: {
-    simulatorUser: SimulatorUser;
-    journeyId: number;
-    waitFrame: WaitFrame;
-  }) {
+  async play({tasks}: {simulatorUser: SimulatorUser; tasks: Tasks}) {
     let isLookingAtTarget = this.isLookingAtTarget();
     let isNearTarget = this.isNearTarget();
-    let shouldContinueJourney = simulatorUser.isOnJourneyId(journeyId);
 
-    while (shouldContinueJourney && (!isLookingAtTarget || !isNearTarget)) {
+    while (!isLookingAtTarget || !isNearTarget) {
       if (!isLookingAtTarget) {
         this.lookTowardsTarget();
       } else {
         this.lookAtTarget();
         this.moveTowardsTarget();
       }
-      await waitFrame.waitFrame();
+      await tasks.nextFrame();
       isLookingAtTarget = this.isLookingAtTarget();
       isNearTarget = this.isNearTarget();
-      shouldContinueJourney = simulatorUser.isOnJourneyId(journeyId);
     }
   }
 }
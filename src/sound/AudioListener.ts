@@ -1,6 +1,9 @@
 import {AI} from '../ai/AI';
 import {Registry} from '../core/components/Registry';
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
+
+const logger = getLogger('AudioListener');
 
 export interface AudioListenerOptions {
   sampleRate?: number;
@@ -74,7 +77,7 @@ export class AudioListener extends Script {
       await this.setupAudioCapture();
       this.isCapturing = true;
     } catch (error) {
-      console.error('Failed to start audio capture:', error);
+      logger.error('Failed to start audio capture:', error);
       this.onError?.(error as Error);
       this.cleanup();
     }
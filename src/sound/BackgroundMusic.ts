@@ -2,9 +2,12 @@ import * as THREE from 'three';
 
 import {XR_BLOCKS_ASSETS_PATH} from '../constants';
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 
 import {CategoryVolumes} from './CategoryVolumes';
 
+const logger = getLogger('BackgroundMusic');
+
 const MUSIC_LIBRARY_PATH = XR_BLOCKS_ASSETS_PATH + 'musicLibrary/';
 
 const musicLibrary = {
@@ -20,6 +23,7 @@ class BackgroundMusic extends Script {
 
   private currentAudio: THREE.Audio | null = null;
   private isPlaying = false;
+  private pausedByApp = false;
   private musicLibrary = musicLibrary;
 
   private specificVolume = 0.5;
@@ -41,8 +45,8 @@ class BackgroundMusic extends Script {
         this.specificVolume
       );
       this.currentAudio.setVolume(effectiveVolume);
-      console.log(
-        `BackgroundMusic volume updated to: ${
+      logger.info(
+        `Volume updated to: ${
           effectiveVolume
         } (specific: ${this.specificVolume})`
       );
@@ -51,18 +55,18 @@ class BackgroundMusic extends Script {
 
   playMusic(musicKey: keyof typeof musicLibrary, category = 'music') {
     if (!this.categoryVolumes || !this.listener || !this.audioLoader) {
-      console.error('BackgroundMusic not properly initialized.');
+      logger.error('Not properly initialized.');
       return;
     }
     const soundPath = this.musicLibrary[musicKey];
 
     if (!soundPath) {
-      console.error(`BackgroundMusic: Music key "${musicKey}" not found.`);
+      logger.error(`Music key "${musicKey}" not found.`);
       return;
     }
 
     this.stopMusic();
-    console.log(`BackgroundMusic: Loading sound: ${soundPath}`);
+    logger.info(`Loading sound: ${soundPath}`);
     this.musicCategory = category;
 
     const listener = this.listener;
@@ -70,7 +74,7 @@ class BackgroundMusic extends Script {
     this.audioLoader.load(
       soundPath,
       (buffer) => {
-        console.log(`BackgroundMusic: Successfully loaded ${soundPath}`);
+        logger.info(`Successfully loaded ${soundPath}`);
         const audio = new THREE.Audio(listener);
         audio.setBuffer(buffer);
         audio.setLoop(
@@ -82,51 +86,56 @@ class BackgroundMusic extends Script {
           this.specificVolume
         );
         audio.setVolume(effectiveVolume);
-        console.log(
-          `BackgroundMusic: Setting volume for "${musicKey}" to ${
-            effectiveVolume
-          }`
-        );
+        logger.info(`Setting volume for "${musicKey}" to ${effectiveVolume}`);
 
         audio.play();
         this.currentAudio = audio;
         this.isPlaying = true;
-        console.log(
-          `BackgroundMusic: Playing "${musicKey}" in category "${
-            this.musicCategory
-          }"`
+        logger.info(
+          `Playing "${musicKey}" in category "${this.musicCategory}"`
         );
       },
       (xhr) => {
-        console.log(
-          `BackgroundMusic: Loading ${soundPath} - ${(
-            (xhr.loaded / xhr.total) *
-            100
-          ).toFixed(0)}% loaded`
+        logger.info(
+          `Loading ${soundPath} - ${((xhr.loaded / xhr.total) * 100).toFixed(
+            0
+          )}% loaded`
         );
       },
       (error) => {
-        console.error(
-          `BackgroundMusic: Error loading sound ${soundPath}:`,
-          error
-        );
+        logger.error(`Error loading sound ${soundPath}:`, error);
         this.currentAudio = null;
         this.isPlaying = false;
       }
     );
   }
 
+  onPause() {
+    if (this.currentAudio && this.isPlaying) {
+      this.currentAudio.pause();
+      this.pausedByApp = true;
+    }
+  }
+
+  onResume() {
+    if (this.currentAudio && this.pausedByApp) {
+      this.currentAudio.play();
+    }
+    this.pausedByApp = false;
+  }
+
   stopMusic() {
     if (this.currentAudio && this.isPlaying) {
-      console.log('BackgroundMusic: Stopping current audio.');
+      logger.info('Stopping current audio.');
       this.currentAudio.stop();
     }
     this.currentAudio = null;
     this.isPlaying = false;
+    this.pausedByApp = false;
   }
 
   destroy() {
-    console.log('BackgroundMusic Destroying...');
+    logger.info('Destroying...');
     this.stopMusic();
   }
 }
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 
 import {AudioListener} from './AudioListener';
 import {AudioPlayer} from './AudioPlayer';
@@ -12,12 +13,14 @@ import {SpatialAudio} from './SpatialAudio';
 import {SpeechRecognizer} from './SpeechRecognizer';
 import {SpeechSynthesizer} from './SpeechSynthesizer';
 
+const logger = getLogger('CoreSound');
+
 export class CoreSound extends Script {
   static dependencies = {camera: THREE.Camera, soundOptions: SoundOptions};
 
   categoryVolumes = new CategoryVolumes();
   soundSynthesizer = new SoundSynthesizer();
-  listener = new THREE.AudioListener();
+  listener!: THREE.AudioListener;
   backgroundMusic!: BackgroundMusic;
   spatialAudio!: SpatialAudio;
   speechRecognizer?: SpeechRecognizer;
@@ -34,7 +37,14 @@ export class CoreSound extends Script {
     soundOptions: SoundOptions;
   }) {
     this.options = soundOptions;
+    // The Web Audio API is unavailable outside of browsers, e.g. in headless
+    // mode in Node, so sound stays disabled.
+    if (typeof window === 'undefined') {
+      logger.info('Sound is unavailable without a browser.');
+      return;
+    }
 
+    this.listener = new THREE.AudioListener();
     this.backgroundMusic = new BackgroundMusic(
       this.listener,
       this.categoryVolumes
@@ -100,7 +110,7 @@ export class CoreSound extends Script {
   ) {
     const {streamToAI = true, accumulate = false} = options;
     if (streamToAI && this.speechRecognizer?.isListening) {
-      console.log('Disabling SpeechRecognizer while streaming audio.');
+      logger.info('Disabling SpeechRecognizer while streaming audio.');
       this.speechRecognizer.stop();
     }
     this.audioListener.setAIStreaming(streamToAI);
@@ -1,4 +1,7 @@
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
+
+const logger = getLogger('SoundSynthesizer');
 
 interface SoundPresetTone {
   frequency: number;
@@ -39,7 +42,7 @@ export class SoundSynthesizer extends Script {
       this.audioContext = new AudioContext();
       this.isInitialized = true;
       if (this.debug) {
-        console.log('SoundSynthesizer: AudioContext initialized.');
+        logger.info('AudioContext initialized.');
       }
     }
   }
@@ -61,9 +64,7 @@ export class SoundSynthesizer extends Script {
     this._initAudioContext(); // Initialize context on first interaction
 
     if (!this.audioContext) {
-      console.error(
-        'SoundSynthesizer: AudioContext not available. Cannot play tone.'
-      );
+      logger.error('AudioContext not available. Cannot play tone.');
       return;
     }
 
@@ -99,7 +100,7 @@ export class SoundSynthesizer extends Script {
     const preset = SOUND_PRESETS[presetName];
 
     if (!preset) {
-      console.warn(`SoundSynthesizer: Preset '${presetName}' not found.`);
+      logger.warn(`Preset '${presetName}' not found.`);
       return;
     }
 
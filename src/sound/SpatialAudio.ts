@@ -1,9 +1,12 @@
 import * as THREE from 'three';
 
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
 
 import {CategoryVolumes} from './CategoryVolumes.js';
 
+const logger = getLogger('SpatialAudio');
+
 const spatialSoundLibrary = {
   ambient: 'musicLibrary/AmbientLoop.opus',
   buttonHover: 'musicLibrary/ButtonHover.opus',
@@ -61,15 +64,13 @@ export class SpatialAudio extends Script {
     options: PlaySoundOptions = {}
   ) {
     if (!this.listener || !this.audioLoader || !targetObject) {
-      console.error(
-        'SpatialAudio not properly initialized or targetObject missing.'
-      );
+      logger.error('Not properly initialized or targetObject missing.');
       return null;
     }
 
     const soundPath = this.soundLibrary[soundKey];
     if (!soundPath) {
-      console.error(`SpatialAudio: Sound key "${soundKey}" not found.`);
+      logger.error(`Sound key "${soundKey}" not found.`);
       return null;
     }
 
@@ -86,14 +87,14 @@ export class SpatialAudio extends Script {
         ? options.rolloffFactor
         : this.defaultRolloffFactor;
 
-    console.log(`SpatialAudio: Loading sound "${soundKey}" (${soundPath})`);
+    logger.info(`Loading sound "${soundKey}" (${soundPath})`);
 
     this.audioLoader.load(
       soundPath,
       (buffer) => {
-        console.log(`SpatialAudio: Successfully loaded "${soundKey}"`);
+        logger.info(`Successfully loaded "${soundKey}"`);
         if (!this.listener) {
-          console.error('SpatialAudio: Listener lost during load.');
+          logger.error('Listener lost during load.');
           return;
         }
         const audio = new THREE.PositionalAudio(this.listener);
@@ -118,9 +119,7 @@ export class SpatialAudio extends Script {
         // Set up cleanup for non-looping sounds
         if (!loop) {
           audio.onEnded = () => {
-            console.log(
-              `SpatialAudio: Sound "${soundKey}" (ID: ${soundId}) ended.`
-            );
+            logger.info(`Sound "${soundKey}" (ID: ${soundId}) ended.`);
             this._cleanupSound(soundId);
             if (options.onEnded && typeof options.onEnded === 'function') {
               options.onEnded();
@@ -132,25 +131,21 @@ export class SpatialAudio extends Script {
         }
 
         audio.play();
-        console.log(
-          `SpatialAudio: Playing "${soundKey}" (ID: ${soundId}) at object ${
+        logger.info(
+          `Playing "${soundKey}" (ID: ${soundId}) at object ${
             targetObject.name || targetObject.uuid
           }, Volume: ${effectiveVolume}`
         );
       },
       (xhr) => {
-        console.log(
-          `SpatialAudio: Loading "${soundKey}" - ${(
-            (xhr.loaded / xhr.total) *
-            100
-          ).toFixed(0)}% loaded`
+        logger.info(
+          `Loading "${soundKey}" - ${((xhr.loaded / xhr.total) * 100).toFixed(
+            0
+          )}% loaded`
         );
       },
       (error) => {
-        console.error(
-          `SpatialAudio: Error loading sound "${soundKey}":`,
-          error
-        );
+        logger.error(`Error loading sound "${soundKey}":`, error);
         this.activeSounds.delete(soundId); // Clean up if loading failed
       }
     );
@@ -165,13 +160,13 @@ export class SpatialAudio extends Script {
   stopSound(soundId: number) {
     const soundData = this.activeSounds.get(soundId);
     if (soundData) {
-      console.log(`SpatialAudio: Stopping sound ID: ${soundId}`);
+      logger.info(`Stopping sound ID: ${soundId}`);
       if (soundData.audio.isPlaying) {
         soundData.audio.stop();
       }
       this._cleanupSound(soundId);
     } else {
-      console.warn(`SpatialAudio: Sound ID ${soundId} not found for stopping.`);
+      logger.warn(`Sound ID ${soundId} not found for stopping.`);
     }
   }
 
@@ -193,7 +188,7 @@ export class SpatialAudio extends Script {
         soundData.target.remove(soundData.audio);
       }
       this.activeSounds.delete(soundId);
-      console.log(`SpatialAudio: Cleaned up sound ID: ${soundId}`);
+      logger.info(`Cleaned up sound ID: ${soundId}`);
     }
   }
 
@@ -204,9 +199,7 @@ export class SpatialAudio extends Script {
    */
   setVolume(level: number) {
     this.specificVolume = THREE.MathUtils.clamp(level, 0.0, 1.0);
-    console.log(
-      `SpatialAudio default specific volume set to: ${this.specificVolume}`
-    );
+    logger.info(`Default specific volume set to: ${this.specificVolume}`);
   }
 
   /**
@@ -215,10 +208,8 @@ export class SpatialAudio extends Script {
    */
   updateAllVolumes() {
     if (!this.categoryVolumes) return;
-    console.log(
-      `SpatialAudio: Updating volumes for ${
-        this.activeSounds.size
-      } active sounds.`
+    logger.info(
+      `Updating volumes for ${this.activeSounds.size} active sounds.`
     );
     this.activeSounds.forEach((soundData) => {
       const specificVolume =
@@ -234,11 +225,11 @@ export class SpatialAudio extends Script {
   }
 
   destroy() {
-    console.log('SpatialAudio Destroying...');
+    logger.info('Destroying...');
     const idsToStop = Array.from(this.activeSounds.keys());
     idsToStop.forEach((id) => this.stopSound(id));
 
     this.activeSounds.clear();
-    console.log('SpatialAudio Destroyed.');
+    logger.info('Destroyed.');
   }
 }
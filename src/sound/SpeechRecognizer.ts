@@ -1,10 +1,14 @@
 import * as THREE from 'three';
 
+import {EventBus} from '../core/components/EventBus.js';
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
 
 import {SoundOptions, SpeechRecognizerOptions} from './SoundOptions.js';
 import {SoundSynthesizer} from './SoundSynthesizer.js';
 
+const logger = getLogger('SpeechRecognizer');
+
 type WindowWithSpeechRecognition = Window &
   typeof globalThis & {
     SpeechRecognition?: SpeechRecognition;
@@ -25,7 +29,7 @@ interface SpeechRecognizerEventMap extends THREE.Object3DEventMap {
 }
 
 export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
-  static dependencies = {soundOptions: SoundOptions};
+  static dependencies = {soundOptions: SoundOptions, eventBus: EventBus};
 
   options!: SpeechRecognizerOptions;
   recognition?: SpeechRecognition;
@@ -36,6 +40,9 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
   error?: string;
   playActivationSounds = false;
 
+  private eventBus!: EventBus;
+  private paused = false;
+  private resumeListening = false;
   private handleStartBound = this._handleStart.bind(this);
   private handleResultBound = this._handleResult.bind(this);
   private handleEndBound = this._handleEnd.bind(this);
@@ -45,15 +52,20 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
     super();
   }
 
-  override init({soundOptions}: {soundOptions: SoundOptions}) {
+  override init({
+    soundOptions,
+    eventBus,
+  }: {
+    soundOptions: SoundOptions;
+    eventBus: EventBus;
+  }) {
     this.options = soundOptions.speechRecognizer;
+    this.eventBus = eventBus;
     const SpeechRecognitionAPI =
       (window as WindowWithSpeechRecognition).SpeechRecognition ||
       (window as WindowWithSpeechRecognition).webkitSpeechRecognition;
     if (!SpeechRecognitionAPI) {
-      console.warn(
-        'SpeechRecognizer: Speech Recognition API not supported in this browser.'
-      );
+      logger.warn('Speech Recognition API not supported in this browser.');
       this.error = 'API not supported';
       return;
     }
@@ -74,13 +86,29 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
     this.playActivationSounds = this.options.playSimulatorActivationSounds;
   }
 
+  onPause() {
+    this.paused = true;
+    if (this.isListening) {
+      this.resumeListening = true;
+      this.stop();
+    }
+  }
+
+  onResume() {
+    this.paused = false;
+    if (this.resumeListening) {
+      this.resumeListening = false;
+      this.start();
+    }
+  }
+
   start() {
     if (!this.recognition) {
-      console.error('SpeechRecognizer: Not initialized.');
+      logger.error('Not initialized.');
       return;
     }
     if (this.isListening) {
-      console.warn('SpeechRecognizer: Already listening.');
+      logger.warn('Already listening.');
       return;
     }
     try {
@@ -90,12 +118,13 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
       this.error = undefined;
       this.recognition.start();
       this.isListening = true;
-      console.debug('SpeechRecognizer: Listening started.');
+      logger.debug('Listening started.');
     } catch (e: unknown) {
-      console.error('SpeechRecognizer: Error starting recognition:', e);
+      logger.error('Error starting recognition:', e);
       this.error = (e as Partial<Error>).message || 'Start failed';
       this.isListening = false;
       this.dispatchEvent({type: 'error', error: this.error!});
+      this.eventBus.emit('speech:error', {error: this.error!});
     }
   }
 
@@ -105,9 +134,9 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
     }
     try {
       this.recognition.stop();
-      console.debug('SpeechRecognizer: Stop requested.');
+      logger.debug('Stop requested.');
     } catch (e) {
-      console.error('SpeechRecognizer: Error stopping recognition:', e);
+      logger.error('Error stopping recognition:', e);
       this.error = (e as Partial<Error>).message || 'Stop failed';
       this.isListening = false;
     }
@@ -127,8 +156,9 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
 
   // Private handler for the 'start' event
   private _handleStart() {
-    console.debug('SpeechRecognizer: Listening started.');
+    logger.debug('Listening started.');
     this.dispatchEvent({type: 'start'});
+    this.eventBus.emit('speech:start', {});
     if (this.playActivationSounds) {
       this.soundSynthesizer.playPresetTone('ACTIVATE');
     }
@@ -163,36 +193,36 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
           this.lastConfidence >= this.options.commandConfidenceThreshold
         ) {
           this.lastCommand = command;
-          console.debug(
-            `SpeechRecognizer Detected Command: ${this.lastCommand}`
-          );
+          logger.debug(`Detected command: ${this.lastCommand}`);
           break;
         }
       }
     }
 
     // Dispatch a 'result' event with all the relevant data
-    this.dispatchEvent({
-      type: 'result',
-      originalEvent: event,
+    const result = {
       transcript: this.lastTranscript,
       confidence: this.lastConfidence,
       command: this.lastCommand,
       isFinal: !!finalTranscript,
-    });
+    };
+    this.dispatchEvent({type: 'result', originalEvent: event, ...result});
+    this.eventBus.emit('speech:result', result);
   }
 
   // Private handler for the 'end' event (e.g., when silence is detected)
   _handleEnd() {
     this.isListening = false;
     this.dispatchEvent({type: 'end'});
+    this.eventBus.emit('speech:end', {});
 
     if (
       this.options.continuous &&
+      !this.paused &&
       this.error !== 'aborted' &&
       this.error !== 'no-speech'
     ) {
-      console.debug('SpeechRecognizer: Restarting continuous listening...');
+      logger.debug('Restarting continuous listening...');
       setTimeout(() => this.start(), 100);
     } else if (this.playActivationSounds) {
       this.soundSynthesizer.playPresetTone('DEACTIVATE');
@@ -201,10 +231,11 @@ export class SpeechRecognizer extends Script<SpeechRecognizerEventMap> {
 
   // Private handler for the 'error' event
   _handleError(event: SpeechRecognitionErrorEvent) {
-    console.error('SpeechRecognizer: Error:', event.error);
+    logger.error('Error:', event.error);
     this.error = event.error;
     this.isListening = false;
     this.dispatchEvent({type: 'error', error: event.error});
+    this.eventBus.emit('speech:error', {error: event.error});
   }
 
   destroy() {
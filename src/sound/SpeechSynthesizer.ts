@@ -1,10 +1,13 @@
 import * as THREE from 'three';
 
 import {Script} from '../core/Script.js';
+import {getLogger} from '../logging/Logger';
 
 import {CategoryVolumes} from './CategoryVolumes.js';
 import {SoundOptions, SpeechSynthesizerOptions} from './SoundOptions.js';
 
+const logger = getLogger('SpeechSynthesizer');
+
 export class SpeechSynthesizer extends Script {
   static dependencies = {soundOptions: SoundOptions};
 
@@ -26,7 +29,7 @@ export class SpeechSynthesizer extends Script {
     super();
 
     if (!this.synth) {
-      console.error('SpeechSynthesizer: Speech Synthesis API not supported.');
+      logger.error('Speech Synthesis API not supported.');
     } else {
       this.loadVoices();
       if (this.synth.onvoiceschanged !== undefined) {
@@ -34,8 +37,8 @@ export class SpeechSynthesizer extends Script {
       }
     }
     if (!this.categoryVolumes && this.synth) {
-      console.warn(
-        'SpeechSynthesizer: CategoryVolumes not found. Volume control will use specificVolume only.'
+      logger.warn(
+        'CategoryVolumes not found. Volume control will use specificVolume only.'
       );
     }
   }
@@ -43,7 +46,7 @@ export class SpeechSynthesizer extends Script {
   init({soundOptions}: {soundOptions: SoundOptions}) {
     this.options = soundOptions.speechSynthesizer;
     if (this.debug) {
-      console.log('SpeechSynthesizer initialized.');
+      logger.info('Initialized.');
     }
   }
 
@@ -51,7 +54,7 @@ export class SpeechSynthesizer extends Script {
     if (!this.synth) return;
     this.voices = this.synth.getVoices();
     if (this.debug) {
-      console.log('SpeechSynthesizer: Voices loaded:', this.voices.length);
+      logger.info('Voices loaded:', this.voices.length);
     }
     this.selectedVoice =
       this.voices.find(
@@ -59,40 +62,33 @@ export class SpeechSynthesizer extends Script {
       ) || this.voices.find((voice) => voice.lang.startsWith('en'));
     if (this.selectedVoice) {
       if (this.debug) {
-        console.log(
-          'SpeechSynthesizer: Selected voice:',
-          this.selectedVoice.name
-        );
+        logger.info('Selected voice:', this.selectedVoice.name);
       }
     } else {
-      console.warn('SpeechSynthesizer: No suitable default voice found.');
+      logger.warn('No suitable default voice found.');
     }
   }
 
   setVolume(level: number) {
     this.specificVolume = THREE.MathUtils.clamp(level, 0.0, 1.0);
-    console.log(
-      `SpeechSynthesizer specific volume set to: ${this.specificVolume}`
-    );
+    logger.info(`Specific volume set to: ${this.specificVolume}`);
   }
 
   speak(text: string, lang = 'en-US', pitch = 1.0, rate = 1.0) {
     return new Promise<void>((resolve, reject) => {
       if (!this.synth) {
-        console.warn('SpeechSynthesizer: Cannot speak. API not supported.');
+        logger.warn('Cannot speak. API not supported.');
         return reject(new Error('Speech Synthesis API not supported.'));
       }
 
       if (this.isSpeaking) {
         if (this.options.allowInterruptions) {
-          console.warn(
-            'SpeechSynthesizer: Already speaking. Interrupting current speech.'
-          );
+          logger.warn('Already speaking. Interrupting current speech.');
           this.cancel();
         } else {
           const errorMsg =
             'Already speaking and interruptions are not allowed.';
-          console.warn(`SpeechSynthesizer: ${errorMsg}`);
+          logger.warn(`${errorMsg}`);
           return reject(new Error(errorMsg));
         }
       }
@@ -101,13 +97,13 @@ export class SpeechSynthesizer extends Script {
 
       utterance.onstart = () => {
         this.isSpeaking = true;
-        console.log('SpeechSynthesizer: Speaking started.');
+        logger.info('Speaking started.');
         if (this.onStartCallback) this.onStartCallback();
       };
 
       utterance.onend = () => {
         this.isSpeaking = false;
-        console.log('SpeechSynthesizer: Speaking ended.');
+        logger.info('Speaking ended.');
         if (this.onEndCallback) this.onEndCallback();
         resolve();
       };
@@ -117,14 +113,12 @@ export class SpeechSynthesizer extends Script {
           this.options.allowInterruptions &&
           (event.error === 'interrupted' || event.error === 'canceled')
         ) {
-          console.warn(
-            `SpeechSynthesizer: Speech utterance interrupted: ${event.error}`
-          );
+          logger.warn(`Speech utterance interrupted: ${event.error}`);
           return;
         }
 
         // For all other errors, reject the promise.
-        console.error('SpeechSynthesizer: Error occurred:', event.error);
+        logger.error('Error occurred:', event.error);
         this.isSpeaking = false;
         this.onErrorCallback(
           new Error(`Speech synthesis error code ${event.error}`)
@@ -150,15 +144,11 @@ export class SpeechSynthesizer extends Script {
 
       if (voice) {
         utterance.voice = voice;
-        console.log(
-          `SpeechSynthesizer: Using voice: ${voice.name} for lang ${lang}`
-        );
+        logger.info(`Using voice: ${voice.name} for lang ${lang}`);
       } else {
         utterance.lang = lang;
-        console.warn(
-          `SpeechSynthesizer: No specific voice found for lang ${
-            lang
-          }. Using browser default.`
+        logger.warn(
+          `No specific voice found for lang ${lang}. Using browser default.`
         );
       }
 
@@ -175,9 +165,7 @@ export class SpeechSynthesizer extends Script {
         effectiveVolume = THREE.MathUtils.clamp(this.specificVolume, 0.0, 1.0);
       }
       utterance.volume = effectiveVolume;
-      console.log(
-        `SpeechSynthesizer: Setting utterance volume to ${effectiveVolume}`
-      );
+      logger.info(`Setting utterance volume to ${effectiveVolume}`);
 
       this.synth.speak(utterance);
     });
@@ -191,7 +179,7 @@ export class SpeechSynthesizer extends Script {
     if (this.synth && this.synth.speaking) {
       this.synth.cancel();
       this.isSpeaking = false;
-      console.log('SpeechSynthesizer: Speech cancelled.');
+      logger.info('Speech cancelled.');
     }
   }
 
@@ -201,6 +189,6 @@ export class SpeechSynthesizer extends Script {
       this.synth.onvoiceschanged = null;
     }
     this.voices = [];
-    console.log('SpeechSynthesizer destroyed.');
+    logger.info('Destroyed.');
   }
 }
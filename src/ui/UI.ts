@@ -5,7 +5,10 @@
  * structure and application logic.
  */
 
+import * as THREE from 'three';
+
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 import type {Constructor} from '../utils/Types';
 
 import {IconButton, IconButtonOptions} from './components/IconButton';
@@ -24,6 +27,8 @@ import {Orbiter, OrbiterOptions} from './layouts/Orbiter';
 import {Row, RowOptions} from './layouts/Row';
 import {SpatialPanel, SpatialPanelOptions} from './layouts/SpatialPanel';
 
+const logger = getLogger('UI');
+
 // Initializes the Grid class with its dependencies for declarative building.
 Grid.init(Row, Col, Panel, Orbiter);
 
@@ -58,6 +63,9 @@ export type UIJsonNode = {
 export class UI extends Script {
   views: View[] = [];
 
+  /** The JSON each root view was composed from. */
+  private compositions = new Map<View, UIJsonNode>();
+
   /**
    * A static registry mapping string identifiers to UI component classes.
    * This allows for an extensible and declarative UI system.
@@ -75,7 +83,7 @@ export class UI extends Script {
     componentClass: Constructor<View>
   ) {
     if (UI.ComponentRegistry.has(typeName)) {
-      console.warn(`UI: Component type "${typeName}" is being overwritten.`);
+      logger.warn(`Component type "${typeName}" is being overwritten.`);
     }
     UI.ComponentRegistry.set(typeName, componentClass);
   }
@@ -91,6 +99,7 @@ export class UI extends Script {
     const rootComponent = this._composeNode(json);
     if (rootComponent) {
       this.add(rootComponent);
+      this.compositions.set(rootComponent, json);
       rootComponent.traverse((node) => {
         if (node instanceof View) {
           this.views.push(node);
@@ -100,6 +109,57 @@ export class UI extends Script {
     return rootComponent;
   }
 
+  /**
+   * @param object - The object to check.
+   * @returns Whether the object is the root view of a composed UI, which is
+   * restored from its JSON by `deserialize`.
+   */
+  isComposition(object: THREE.Object3D) {
+    return this.compositions.has(object as View);
+  }
+
+  /**
+   * Returns the JSON of all composed UIs still attached to this instance, with
+   * the root positions and rotations updated to their current values, e.g.
+   * after being dragged.
+   * @returns The JSON nodes to save in a scene snapshot.
+   */
+  serialize(): UIJsonNode[] {
+    const nodes: UIJsonNode[] = [];
+    for (const [view, json] of this.compositions) {
+      if (view.parent !== this) {
+        this.compositions.delete(view);
+        continue;
+      }
+      nodes.push({
+        ...json,
+        position: {x: view.position.x, y: view.position.y, z: view.position.z},
+        rotation: {x: view.rotation.x, y: view.rotation.y, z: view.rotation.z},
+      });
+    }
+    return nodes;
+  }
+
+  /**
+   * Replaces all composed UIs with the ones from a scene snapshot.
+   * @param nodes - The JSON nodes returned by `serialize`.
+   */
+  deserialize(nodes?: UIJsonNode[]) {
+    for (const view of this.compositions.keys()) {
+      view.removeFromParent();
+      view.traverse((node) => {
+        const index = this.views.indexOf(node as View);
+        if (index !== -1) {
+          this.views.splice(index, 1);
+        }
+      });
+    }
+    this.compositions.clear();
+    for (const json of nodes ?? []) {
+      this.compose(json);
+    }
+  }
+
   /**
    * Recursively processes a single node from the UI JSON configuration.
    * @param nodeJson - The JSON node for a single UI element.
@@ -116,8 +176,8 @@ export class UI extends Script {
     const ComponentClass = UI.ComponentRegistry.get(type);
 
     if (!ComponentClass) {
-      console.error(
-        `UI Error: Unknown component type "${type}". Make sure it's registered.`
+      logger.error(
+        `Unknown component type "${type}". Make sure it's registered.`
       );
       return null;
     }
@@ -1,7 +1,11 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../../logging/Logger';
+
 import {IconButton, IconButtonOptions} from './IconButton';
 
+const logger = getLogger('ExitButton');
+
 /**
  *A specialized `IconButton` that provides a simple, single-click
  * way for users to end the current WebXR session.
@@ -55,7 +59,7 @@ export class ExitButton extends IconButton {
    * @override
    */
   onTriggered() {
-    console.log('ExitButton triggered: Shutting down XR session.');
+    logger.info('ExitButton triggered: Shutting down XR session.');
     const session = this.renderer.xr.getSession();
     if (session) {
       // Asynchronously end the session. No need to await.
@@ -1,12 +1,15 @@
 import * as THREE from 'three';
 import type TroikaThreeText from 'troika-three-text';
 
+import {getLogger} from '../../logging/Logger';
 import {getColorHex} from '../../utils/utils';
 import {View} from '../core/View';
 import {ViewOptions} from '../core/ViewOptions';
 
 import {FONT_FAMILIES} from './utils/FontFamilies';
 
+const logger = getLogger('TextView');
+
 // --- Dynamic Import of Troika Three Text and its dependencies ---
 
 /** Enum for the status of the Troika dynamic import. */
@@ -356,7 +359,7 @@ export class TextView extends View<TextViewEventMap> {
     } else {
       // If the import failed, log a warning.
       if (troikaImportStatus === TroikaImportStatus.FAILED) {
-        console.warn(
+        logger.warn(
           'Failed to import `troika-three-text`. For 3D text rendering, please ensure `troika-three-text`, `troika-three-utils`, `troika-worker-utils`, `bidi-js`, and `webgl-sdf-generator` are included in your importmap or installed via npm. Refer to templates/1_ui for an example. Falling back to HTML-based text rendering.',
           'Error details:',
           troikaImportError?.message
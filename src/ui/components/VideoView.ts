@@ -1,9 +1,12 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../../logging/Logger';
 import {VideoStream, VideoStreamDetails} from '../../video/VideoStream';
 import {View} from '../core/View';
 import {ViewOptions} from '../core/ViewOptions';
 
+const logger = getLogger('VideoView');
+
 /**
  * A UI component for displaying video content on a 3D plane. It
  * supports various sources, including URLs, HTMLVideoElement,
@@ -125,7 +128,7 @@ export class VideoView extends View {
     } else if (source instanceof VideoStream) {
       this.loadFromStream(source);
     } else {
-      console.error('VideoView: Invalid video source provided.', source);
+      logger.error('Invalid video source provided.', source);
     }
   }
 
@@ -140,7 +143,7 @@ export class VideoView extends View {
 
     this.streamReadyCallback_ = (event: {details?: {aspectRatio?: number}}) => {
       if (!this.stream_?.texture) {
-        console.warn('Stream is ready, but its texture is not available.');
+        logger.warn('Stream is ready, but its texture is not available.');
         return;
       }
       this.loadFromVideoTexture(this.stream_.texture);
@@ -187,7 +190,7 @@ export class VideoView extends View {
 
     if (this.video.autoplay && this.video.paused) {
       this.video.play().catch((error) => {
-        console.warn('VideoView: Autoplay prevented for video element.', error);
+        logger.warn('Autoplay prevented for video element.', error);
       });
     }
 
@@ -202,7 +205,7 @@ export class VideoView extends View {
         this.videoAspectRatio =
           this.video!.videoWidth / this.video!.videoHeight;
       } else {
-        console.warn('VideoView: Video metadata loaded but dimensions are 0.');
+        logger.warn('Video metadata loaded but dimensions are 0.');
         this.videoAspectRatio = 0; // Invalid aspect ratio
       }
       this.updateLayout(); // Update layout now that aspect ratio is known
@@ -244,8 +247,8 @@ export class VideoView extends View {
         {once: true}
       );
     } else {
-      console.warn(
-        'VideoView: VideoTexture does not have a valid underlying video element.'
+      logger.warn(
+        'VideoTexture does not have a valid underlying video element.'
       );
       this.videoAspectRatio = 0;
       this.updateLayout();
@@ -255,9 +258,7 @@ export class VideoView extends View {
   /** Starts video playback. */
   play() {
     if (this.video && this.video.paused) {
-      this.video
-        .play()
-        .catch((e) => console.warn('VideoView: Error playing video:', e));
+      this.video.play().catch((e) => logger.warn('Error playing video:', e));
     }
   }
 
@@ -72,6 +72,7 @@ export class ModelViewer extends Script implements Draggable {
     scene: THREE.Scene,
     renderer: THREE.WebGLRenderer,
     registry: Registry,
+    timer: THREE.Timer,
   };
 
   draggable = true;
@@ -85,7 +86,6 @@ export class ModelViewer extends Script implements Draggable {
   clipActions: THREE.AnimationAction[] = [];
 
   private data?: GLTFData | SplatData;
-  private clock = new THREE.Clock();
   private animationMixer?: THREE.AnimationMixer;
   private gltfMesh?: GLTF;
   private splatMesh?: SplatMesh;
@@ -103,12 +103,13 @@ export class ModelViewer extends Script implements Draggable {
   private controlBar?: THREE.Mesh;
   private rotationRaycastMesh?: RotationRaycastMesh;
   private registry?: Registry;
+  private timer?: THREE.Timer;
 
   constructor({
     castShadow = true,
     receiveShadow = true,
     raycastToChildren = false,
-  }) {
+  } = {}) {
     super();
     this.castShadow = castShadow;
     this.receiveShadow = receiveShadow;
@@ -121,18 +122,21 @@ export class ModelViewer extends Script implements Draggable {
     scene,
     renderer,
     registry,
+    timer,
   }: {
     camera: THREE.Camera;
     depth: Depth;
     scene: THREE.Scene;
     renderer: THREE.WebGLRenderer;
     registry: Registry;
+    timer: THREE.Timer;
   }) {
     this.camera = camera;
     this.depth = depth;
     this.scene = scene;
     this.renderer = renderer;
     this.registry = registry;
+    this.timer = timer;
 
     for (const shader of this.occludableShaders) {
       this.depth!.occludableShaders.add(shader);
@@ -423,8 +427,25 @@ export class ModelViewer extends Script implements Draggable {
     this.add(this.platform);
   }
 
+  serialize() {
+    if (this.gltfMesh) {
+      return {gltf: this.data as GLTFData};
+    } else if (this.splatMesh) {
+      return {splat: this.data as SplatData};
+    }
+    return undefined;
+  }
+
+  async deserialize(data?: {gltf?: GLTFData; splat?: SplatData}) {
+    if (data?.gltf) {
+      await this.loadGLTFModel({data: data.gltf, renderer: this.renderer});
+    } else if (data?.splat) {
+      await this.loadSplatModel({data: data.splat});
+    }
+  }
+
   update() {
-    const delta = this.clock.getDelta();
+    const delta = this.timer!.getDelta();
     if (this.animationMixer) {
       this.animationMixer.update(delta);
     }
@@ -1,6 +1,7 @@
 // Fork of HTMLMesh.js from three.js.
 import * as THREE from 'three';
 
+import {CommandHistory} from '../../core/components/CommandHistory';
 import {SelectEvent} from '../../core/Script';
 import {User} from '../../core/User';
 import {View} from '../core/View';
@@ -14,20 +15,20 @@ interface LinePoint {
 /**
  * A `View` that functions as a drawable canvas in 3D space. It uses
  * an HTML canvas as a texture on a plane, allowing users to draw on its surface
- * with their XR controllers. It supports basic drawing, undo, and redo
- * functionality.
+ * with their XR controllers. Strokes and clearing are recorded in the shared
+ * `CommandHistory`, so they can be undone and redone along with other edits.
  */
 export class SketchPanel extends View {
-  static dependencies = {user: User};
+  static dependencies = {user: User, commandHistory: CommandHistory};
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private activeHand = -1;
   private activeLine: LinePoint[] = [];
   private activeLines: LinePoint[][] = [];
-  private removedLines: LinePoint[][] = [];
   private isDrawing = false;
 
   private user!: User;
+  private commandHistory!: CommandHistory;
 
   material: THREE.MeshBasicMaterial;
 
@@ -65,9 +66,10 @@ export class SketchPanel extends View {
   /**
    * Init the SketchPanel.
    */
-  init({user}: {user: User}) {
+  init({user, commandHistory}: {user: User; commandHistory: CommandHistory}) {
     super.init();
     this.user = user;
+    this.commandHistory = commandHistory;
 
     this.clearCanvas();
   }
@@ -99,9 +101,24 @@ export class SketchPanel extends View {
     if (id === this.activeHand) {
       // line could be empty, or contain select start only
       if (this.activeHand >= 0 && this.activeLine.length > 1) {
-        this.activeLines.push(this.activeLine);
-        // Added a new line, no more option for re-do
-        this.removedLines = [];
+        const line = this.activeLine;
+        this.activeLines.push(line);
+        this.commandHistory.record({
+          name: 'Draw line',
+          owner: this,
+          execute: () => {
+            this.activeLines.push(line);
+            this.#drawLine(line);
+            this.triggerUpdate();
+          },
+          undo: () => {
+            const index = this.activeLines.lastIndexOf(line);
+            if (index >= 0) {
+              this.activeLines.splice(index, 1);
+            }
+            this.redraw();
+          },
+        });
       }
       this.isDrawing = false;
       this.activeLine = [];
@@ -159,36 +176,50 @@ export class SketchPanel extends View {
   }
 
   removeAll() {
-    this.activeLines = [];
-    this.removedLines = [];
-    this.clearCanvas();
-  }
-
-  undo() {
-    if (this.activeLines.length === 0) {
+    const lines = this.activeLines;
+    if (lines.length === 0) {
+      this.clearCanvas();
       return;
     }
+    this.commandHistory.execute({
+      name: 'Clear sketch',
+      owner: this,
+      execute: () => {
+        this.activeLines = [];
+        this.clearCanvas();
+      },
+      undo: () => {
+        this.activeLines = [...lines];
+        this.redraw();
+      },
+    });
+  }
 
-    this.ctx = this.canvas.getContext('2d')!;
+  /**
+   * Undoes the most recent stroke or clear of this panel. Edits of other
+   * objects in the shared command history are not affected.
+   * @returns Whether there was an edit to undo.
+   */
+  undo() {
+    return this.commandHistory.undo(this);
+  }
 
-    const line = this.activeLines.pop()!;
-    this.removedLines.push(line);
+  /**
+   * Redoes the most recently undone stroke or clear of this panel.
+   * @returns Whether there was an edit to redo.
+   */
+  redo() {
+    return this.commandHistory.redo(this);
+  }
 
+  /**
+   * Clears the canvas and draws all active lines again.
+   */
+  private redraw() {
     this.clearCanvas(false);
     this.activeLines.forEach((line) => {
       this.#drawLine(line);
     });
-
-    this.triggerUpdate();
-  }
-
-  redo() {
-    if (this.removedLines.length === 0) {
-      return;
-    }
-    const line = this.removedLines.pop()!;
-    this.activeLines.push(line);
-    this.#drawLine(line);
     this.triggerUpdate();
   }
 
@@ -208,6 +239,15 @@ export class SketchPanel extends View {
     });
   }
 
+  serialize() {
+    return {lines: this.activeLines};
+  }
+
+  deserialize(data?: {lines?: LinePoint[][]}) {
+    this.activeLines = data?.lines ?? [];
+    this.redraw();
+  }
+
   update() {
     //  empty
   }
@@ -1,3 +1,4 @@
+import {EventBus} from '../core/components/EventBus';
 import {Registry} from '../core/components/Registry';
 import type {Constructor} from '../utils/Types';
 
@@ -32,6 +33,11 @@ export async function callInitWithDependencyInjection(
         if (!dependency) {
           throw new Error(`Dependency not found for key: ${value.name}`);
         }
+        // The script owns the subscriptions it makes on the event bus, so
+        // they are removed when it is uninitialized.
+        if (dependency instanceof EventBus) {
+          return [key, dependency.forOwner(script)];
+        }
         return [key, dependency];
       })
     )
@@ -1,7 +1,20 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../logging/Logger';
+
 import {createLoadingSpinner} from './CreateLoadingSpinner';
 
+const logger = getLogger('LoadingSpinnerManager');
+
+/**
+ * Posts a loading message to the parent window, if there is one.
+ */
+function postToParent(message: unknown) {
+  if (typeof window !== 'undefined') {
+    window.parent.postMessage(message, '*');
+  }
+}
+
 /**
  * Manages the global THREE.DefaultLoadingManager instance for
  * XRBlocks and handles communication of loading progress to the parent iframe.
@@ -51,16 +64,13 @@ export class LoadingSpinnerManager {
      */
     THREE.DefaultLoadingManager.onStart = (_url, itemsLoaded, itemsTotal) => {
       this.isLoading = true;
-      window.parent.postMessage(
-        {
-          type: 'XR_LOADING_PROGRESS',
-          payload: {
-            progress: itemsLoaded / itemsTotal,
-            message: 'Loading assets...',
-          },
+      postToParent({
+        type: 'XR_LOADING_PROGRESS',
+        payload: {
+          progress: itemsLoaded / itemsTotal,
+          message: 'Loading assets...',
         },
-        '*'
-      );
+      });
     };
 
     /**
@@ -76,16 +86,13 @@ export class LoadingSpinnerManager {
       itemsLoaded,
       itemsTotal
     ) => {
-      window.parent.postMessage(
-        {
-          type: 'XR_LOADING_PROGRESS',
-          payload: {
-            progress: itemsLoaded / itemsTotal,
-            message: `Loading ${Math.round((itemsLoaded / itemsTotal) * 100)}%`,
-          },
+      postToParent({
+        type: 'XR_LOADING_PROGRESS',
+        payload: {
+          progress: itemsLoaded / itemsTotal,
+          message: `Loading ${Math.round((itemsLoaded / itemsTotal) * 100)}%`,
         },
-        '*'
-      );
+      });
     };
 
     /**
@@ -96,7 +103,7 @@ export class LoadingSpinnerManager {
     THREE.DefaultLoadingManager.onLoad = () => {
       this.isLoading = false;
       this.hideSpinner();
-      window.parent.postMessage({type: 'XR_LOADING_COMPLETE'}, '*');
+      postToParent({type: 'XR_LOADING_COMPLETE'});
     };
 
     /**
@@ -107,15 +114,12 @@ export class LoadingSpinnerManager {
      */
     THREE.DefaultLoadingManager.onError = (url) => {
       this.isLoading = false;
-      console.warn('XRBlocks: Error loading: ' + url);
+      logger.warn('Error loading: ' + url);
       this.hideSpinner();
-      window.parent.postMessage(
-        {
-          type: 'XR_LOADING_ERROR',
-          payload: {url, message: 'Failed to load assets.'},
-        },
-        '*'
-      );
+      postToParent({
+        type: 'XR_LOADING_ERROR',
+        payload: {url, message: 'Failed to load assets.'},
+      });
     };
   }
 }
@@ -3,6 +3,10 @@ import {DRACOLoader} from 'three/addons/loaders/DRACOLoader.js';
 import {GLTF, GLTFLoader} from 'three/addons/loaders/GLTFLoader.js';
 import {KTX2Loader} from 'three/addons/loaders/KTX2Loader.js';
 
+import {getLogger} from '../logging/Logger';
+
+const logger = getLogger('ModelLoader');
+
 /**
  * The base URL for Three.js JSM examples, used for DRACO and KTX2 decoders.
  */
@@ -82,8 +86,8 @@ export class ModelLoader {
     onProgress = undefined,
   }: ModelLoaderLoadOptions) {
     if (onProgress) {
-      console.warn(
-        'ModelLoader: An onProgress callback was provided to load(), ' +
+      logger.warn(
+        'An onProgress callback was provided to load(), ' +
           'but a LoadingManager is in use. Progress will be reported via the ' +
           "LoadingManager's onProgress callback. The provided callback will be ignored."
       );
@@ -97,7 +101,7 @@ export class ModelLoader {
     } else if (splatExtensions.includes(extension)) {
       return await this.loadSplat({url});
     }
-    console.error('Unsupported file type: ' + extension);
+    logger.error('Unsupported file type: ' + extension);
     return null;
   }
 
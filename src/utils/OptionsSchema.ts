@@ -0,0 +1,291 @@
+/**
+ * Describes the valid values of an options tree, e.g. to validate options
+ * loaded from JSON or URL parameters.
+ */
+export type OptionsSchema = (
+  | {type: 'boolean'}
+  | {type: 'number'; values?: readonly number[]}
+  | {type: 'string'; values?: readonly string[]}
+  | {type: 'array'; items?: OptionsSchema}
+  | {
+      type: 'object';
+      properties: Record<string, OptionsSchema>;
+      /** The schema of keys which are not listed in `properties`. */
+      additionalProperties?: OptionsSchema;
+    }
+  | {type: 'any'}
+) & {
+  /**
+   * Whether the value can be set with URL parameters. Disable for values
+   * such as API keys or server URLs, which a crafted link must not change.
+   */
+  urlOverride?: boolean;
+};
+
+/**
+ * A problem found when validating options.
+ */
+export interface OptionsIssue {
+  /** The dotted path of the option, e.g. `depth.occlusion.enabled`. */
+  path: string;
+  message: string;
+}
+
+/**
+ * The error thrown when strictly loaded options are invalid.
+ */
+export class OptionsValidationError extends Error {
+  constructor(public issues: OptionsIssue[]) {
+    super(
+      'Invalid options:\n' +
+        issues.map(({path, message}) => `  ${path}: ${message}`).join('\n')
+    );
+    this.name = 'OptionsValidationError';
+  }
+}
+
+const BOOLEAN_PARAMS: Record<string, boolean> = {
+  '': true,
+  true: true,
+  '1': true,
+  false: false,
+  '0': false,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value}`;
+}
+
+/**
+ * @returns The number of single-character edits between two strings.
+ */
+function editDistance(a: string, b: string) {
+  let previous = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function suggestKey(key: string, candidates: string[]) {
+  let best: string | undefined;
+  let bestDistance = Math.min(3, Math.ceil(key.length / 2));
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Infers a schema from default options, so the schema stays in sync with the
+ * options classes. Values which can't be inferred, such as optional fields
+ * without defaults or string unions, are described by `overrides`.
+ * @param defaults - An instance with default values.
+ * @param overrides - Schemas keyed by dotted path, replacing inferred ones.
+ * @param path - The path of `defaults` within the options tree.
+ */
+export function inferOptionsSchema(
+  defaults: unknown,
+  overrides: Readonly<Record<string, OptionsSchema>> = {},
+  path = ''
+): OptionsSchema {
+  if (path in overrides) {
+    return overrides[path];
+  }
+  const type = typeof defaults;
+  if (type === 'boolean' || type === 'number' || type === 'string') {
+    return {type};
+  }
+  if (Array.isArray(defaults)) {
+    return defaults.length
+      ? {type: 'array', items: inferOptionsSchema(defaults[0])}
+      : {type: 'array'};
+  }
+  const properties: Record<string, OptionsSchema> = {};
+  if (isRecord(defaults)) {
+    for (const key of Object.keys(defaults)) {
+      properties[key] = inferOptionsSchema(
+        defaults[key],
+        overrides,
+        joinPath(path, key)
+      );
+    }
+  }
+  // Lists optional fields without defaults, which aren't own properties.
+  const prefix = path ? `${path}.` : '';
+  for (const overridePath of Object.keys(overrides)) {
+    const key = overridePath.slice(prefix.length);
+    if (overridePath.startsWith(prefix) && !key.includes('.')) {
+      properties[key] = overrides[overridePath];
+    }
+  }
+  if (!isRecord(defaults) && Object.keys(properties).length == 0) {
+    return {type: 'any'};
+  }
+  return {type: 'object', properties};
+}
+
+/**
+ * Validates options against a schema.
+ * @param schema - The schema of the options.
+ * @param value - The options to validate.
+ * @param path - The path of `value` within the options tree.
+ * @returns A copy of the options without invalid or unknown values and the
+ * problems found.
+ */
+export function checkOptions(
+  schema: OptionsSchema,
+  value: unknown,
+  path = ''
+): {value: unknown; issues: OptionsIssue[]} {
+  const issues: OptionsIssue[] = [];
+  const invalid = (message: string) => {
+    issues.push({path, message});
+    return {value: undefined, issues};
+  };
+  switch (schema.type) {
+    case 'any':
+      return {value, issues};
+    case 'boolean':
+    case 'number':
+    case 'string': {
+      if (typeof value !== schema.type) {
+        return invalid(`Expected a ${schema.type} but got ${describe(value)}.`);
+      }
+      const values: readonly unknown[] | undefined =
+        'values' in schema ? schema.values : undefined;
+      if (values && !values.includes(value)) {
+        const expected = values.map((v) => JSON.stringify(v)).join(', ');
+        return invalid(
+          `Expected one of ${expected} but got ${JSON.stringify(value)}.`
+        );
+      }
+      return {value, issues};
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return invalid(`Expected an array but got ${describe(value)}.`);
+      }
+      if (!schema.items) return {value, issues};
+      const items = [];
+      for (let i = 0; i < value.length; i++) {
+        const item = checkOptions(
+          schema.items,
+          value[i],
+          joinPath(path, `${i}`)
+        );
+        issues.push(...item.issues);
+        if (item.value !== undefined) items.push(item.value);
+      }
+      return {value: items, issues};
+    }
+    case 'object': {
+      if (!isRecord(value)) {
+        return invalid(`Expected an object but got ${describe(value)}.`);
+      }
+      const checked: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        const propertySchema =
+          schema.properties[key] ?? schema.additionalProperties;
+        const propertyPath = joinPath(path, key);
+        if (!propertySchema) {
+          const suggestion = suggestKey(key, Object.keys(schema.properties));
+          issues.push({
+            path: propertyPath,
+            message: suggestion
+              ? `Unknown option. Did you mean '${joinPath(path, suggestion)}'?`
+              : 'Unknown option.',
+          });
+          continue;
+        }
+        if (value[key] === undefined) continue;
+        const property = checkOptions(propertySchema, value[key], propertyPath);
+        issues.push(...property.issues);
+        if (property.value !== undefined) checked[key] = property.value;
+      }
+      return {value: checked, issues};
+    }
+  }
+}
+
+/**
+ * Parses a URL parameter into a value of the option at a path, e.g.
+ * `depth.enabled` and `true`.
+ * @param schema - The schema of the options tree.
+ * @param path - The dotted path of the option.
+ * @param text - The parameter value. An empty value enables a boolean option.
+ * @returns Options with the parsed value at the path, e.g.
+ * `{depth: {enabled: true}}`, or the problem found.
+ */
+export function parseOptionsParam(
+  schema: OptionsSchema,
+  path: string,
+  text: string
+): {value?: Record<string, unknown>; issue?: OptionsIssue} {
+  const keys = path.split('.');
+  let node: OptionsSchema | undefined = schema;
+  for (const key of keys) {
+    node =
+      node?.type === 'object'
+        ? (node.properties[key] ?? node.additionalProperties)
+        : undefined;
+    if (node?.urlOverride === false) {
+      return {issue: {path, message: 'Cannot be set with URL parameters.'}};
+    }
+  }
+  if (!node) {
+    return {issue: {path, message: 'Unknown option.'}};
+  }
+  let parsed: unknown = text;
+  if (node.type === 'boolean') {
+    parsed = BOOLEAN_PARAMS[text];
+  } else if (node.type === 'number') {
+    parsed = text.trim() === '' ? NaN : Number(text);
+  } else if (node.type !== 'string') {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      if (node.type !== 'any') {
+        return {issue: {path, message: `Expected JSON but got '${text}'.`}};
+      }
+    }
+  }
+  if (parsed === undefined || Number.isNaN(parsed)) {
+    return {
+      issue: {path, message: `Expected a ${node.type} but got '${text}'.`},
+    };
+  }
+  const checked = checkOptions(node, parsed, path);
+  if (checked.issues.length) {
+    return {issue: checked.issues[0]};
+  }
+  const value: Record<string, unknown> = {};
+  let target = value;
+  for (const key of keys.slice(0, -1)) {
+    target = target[key] = {};
+  }
+  target[keys[keys.length - 1]] = checked.value;
+  return {value};
+}
@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 
+import {getLogger} from '../logging/Logger';
+
+const logger = getLogger('print');
+
 /**
  * Clamps a value between a minimum and maximum value.
  */
@@ -15,14 +19,19 @@ export function lerp(x: number, y: number, t: number) {
 }
 
 /**
- * Python-style print function for debugging.
+ * Python-style print function for debugging. Messages are logged at the info
+ * level in the `print` namespace, e.g. shown with
+ * `options.logging.levels = {print: 'info'}`.
  */
 export function print(...args: unknown[]) {
-  console.log('*', ...args);
+  logger.info(...args);
 }
 
-// Parses URL parameters using the URLSearchParams API.
-export const urlParams = new URLSearchParams(window.location.search);
+// Parses URL parameters using the URLSearchParams API. Outside of browsers,
+// e.g. in headless mode in Node, there are no parameters.
+export const urlParams = new URLSearchParams(
+  typeof window !== 'undefined' ? window.location.search : ''
+);
 
 /**
  * Function to get the value of a URL parameter.
@@ -30,7 +39,9 @@ export const urlParams = new URLSearchParams(window.location.search);
  * @returns The value of the URL parameter or null if not found.
  */
 export function getUrlParameter(name: string) {
-  const urlParams = new URLSearchParams(window.location.search);
+  const urlParams = new URLSearchParams(
+    typeof window !== 'undefined' ? window.location.search : ''
+  );
   return urlParams.get(name);
 }
 
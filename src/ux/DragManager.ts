@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 
+import {
+  CommandHistory,
+  TransformCommand,
+} from '../core/components/CommandHistory';
 import {Script, SelectEvent} from '../core/Script';
 import {Input} from '../input/Input';
 import {MouseController} from '../input/MouseController';
@@ -29,7 +33,11 @@ export interface HasDraggingMode {
 }
 
 export class DragManager extends Script {
-  static readonly dependencies = {input: Input, camera: THREE.Camera};
+  static readonly dependencies = {
+    input: Input,
+    camera: THREE.Camera,
+    commandHistory: CommandHistory,
+  };
   static readonly IDLE = 'IDLE';
   static readonly TRANSLATING = DragMode.TRANSLATING;
   static readonly ROTATING = DragMode.ROTATING;
@@ -50,10 +58,20 @@ export class DragManager extends Script {
   private draggableObject?: Draggable;
   private input!: Input;
   private camera!: THREE.Camera;
+  private commandHistory!: CommandHistory;
 
-  init({input, camera}: {input: Input; camera: THREE.Camera}) {
+  init({
+    input,
+    camera,
+    commandHistory,
+  }: {
+    input: Input;
+    camera: THREE.Camera;
+    commandHistory: CommandHistory;
+  }) {
     this.input = input;
     this.camera = camera;
+    this.commandHistory = commandHistory;
   }
 
   onSelectStart(event: SelectEvent) {
@@ -65,6 +83,7 @@ export class DragManager extends Script {
   }
 
   onSelectEnd() {
+    this.recordDrag();
     this.mode = DragManager.IDLE;
     this.intersection = undefined;
     this.draggableObject = undefined;
@@ -206,6 +225,23 @@ export class DragManager extends Script {
     return true;
   }
 
+  /**
+   * Records the completed drag in the command history so it can be undone.
+   */
+  private recordDrag() {
+    if (this.mode == DragManager.IDLE || !this.draggableObject) {
+      return;
+    }
+    const command = new TransformCommand(this.draggableObject, {
+      position: this.originalObjectPosition,
+      quaternion: this.originalObjectRotation,
+      scale: this.originalObjectScale,
+    });
+    if (command.changesTransform()) {
+      this.commandHistory.record(command);
+    }
+  }
+
   turnPanelToFaceTheCamera() {
     const model = this.draggableObject!;
     _vector3.subVectors(model.position, this.camera.position);
@@ -1,3 +1,5 @@
+import {getLogger} from '../logging/Logger';
+
 import {
   StreamState,
   VideoStream,
@@ -5,6 +7,8 @@ import {
   VideoStreamOptions,
 } from './VideoStream';
 
+const logger = getLogger('VideoFileStream');
+
 type VideoFileStreamDetails = VideoStreamDetails & {
   width?: number;
   height?: number;
@@ -40,7 +44,7 @@ export class VideoFileStream extends VideoStream<VideoFileStreamDetails> {
       this.setState_(StreamState.INITIALIZING);
       await this.initStream_();
     } else {
-      console.warn('VideoFileStream initialized without a video file.');
+      logger.warn('VideoFileStream initialized without a video file.');
       this.setState_(StreamState.IDLE);
     }
   }
@@ -90,7 +94,7 @@ export class VideoFileStream extends VideoStream<VideoFileStreamDetails> {
    */
   async setSource(videoFile: string | File) {
     if (!videoFile) {
-      console.warn('setSource called with no file. Stopping stream.');
+      logger.warn('setSource called with no file. Stopping stream.');
       this.stop_();
       this.videoFile_ = undefined;
       return;
@@ -1,6 +1,9 @@
 import * as THREE from 'three';
 
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
+
+const logger = getLogger('VideoStream');
 
 /**
  * Enum for video stream states.
@@ -91,7 +94,7 @@ export class VideoStream<
     if (this.state === state && !details.force) return;
     this.state = state;
     this.dispatchEvent({type: 'statechange', state: this.state, ...details});
-    console.debug(
+    logger.debug(
       `VideoStream state changed to ${state} with details:`,
       details
     );
@@ -154,7 +157,7 @@ export class VideoStream<
     }
 
     if (width > this.width! || height > this.height!) {
-      console.warn(
+      logger.warn(
         `The requested snapshot width (${width}px x ${
           height
         }px) is larger than the source video width (${this.width}px x ${
@@ -194,7 +197,7 @@ export class VideoStream<
         }
       }
     } catch (error) {
-      console.error('Error capturing snapshot:', error);
+      logger.error('Error capturing snapshot:', error);
       return null;
     }
   }
@@ -1,11 +1,14 @@
 import * as THREE from 'three';
 
 import {Script} from '../core/Script';
+import {getLogger} from '../logging/Logger';
 import {placeObjectAtIntersectionFacingTarget} from '../utils/ObjectPlacement';
 
 import {ObjectDetector} from './objects/ObjectDetector';
 import {PlaneDetector} from './planes/PlaneDetector';
 import {WorldOptions} from './WorldOptions';
+
+const logger = getLogger('World');
 // Import other modules as they are implemented in future.
 // import { SceneMesh } from '/depth/SceneMesh.js';
 // import { LightEstimation } from '/lighting/LightEstimation.js';
@@ -154,7 +157,7 @@ export class World extends Script {
    */
   placeOnSurface(objectToPlace: THREE.Object3D, controller: THREE.Object3D) {
     if (!this.planes) {
-      console.warn('Cannot placeOnSurface: PlaneDetector is not enabled.');
+      logger.warn('Cannot placeOnSurface: PlaneDetector is not enabled.');
       return false;
     }
 
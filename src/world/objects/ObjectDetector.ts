@@ -1,17 +1,33 @@
 import * as THREE from 'three';
 
 import {AI} from '../../ai/AI';
-import {AIOptions} from '../../ai/AIOptions';
-import {Gemini} from '../../ai/Gemini';
+import {ToolSchema} from '../../agent/Tool';
 import {cropImage, transformRgbUvToWorld} from '../../camera/CameraUtils';
 import {XRDeviceCamera} from '../../camera/XRDeviceCamera';
+import {EventBus} from '../../core/components/EventBus';
 import {Script} from '../../core/Script';
 import {Depth} from '../../depth/Depth';
+import {getLogger} from '../../logging/Logger';
 import {parseBase64DataURL} from '../../utils/utils';
 import {WorldOptions} from '../WorldOptions';
 
 import {DetectedObject} from './DetectedObject';
 
+const logger = getLogger('ObjectDetector');
+
+/**
+ * An object in the response of the model, with a bounding box from 0 to 1000
+ * and the additional properties of custom response schemas.
+ */
+interface AIDetection {
+  objectName: string;
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+  [key: string]: unknown;
+}
+
 /**
  * Detects objects in the user's environment using a specified backend.
  * It queries an AI model with the device camera feed and returns located
@@ -21,10 +37,10 @@ export class ObjectDetector extends Script {
   static dependencies = {
     options: WorldOptions,
     ai: AI,
-    aiOptions: AIOptions,
     deviceCamera: XRDeviceCamera,
     depth: Depth,
     camera: THREE.Camera,
+    eventBus: EventBus,
   };
 
   /**
@@ -34,18 +50,13 @@ export class ObjectDetector extends Script {
 
   private _debugVisualsGroup?: THREE.Group;
 
-  /**
-   * The configuration for the Gemini backend.
-   */
-  private _geminiConfig!: object;
-
   // Injected dependencies
   private options!: WorldOptions;
   private ai!: AI;
-  private aiOptions!: AIOptions;
   private deviceCamera!: XRDeviceCamera;
   private depth!: Depth;
   private camera!: THREE.Camera;
+  private eventBus!: EventBus;
 
   /**
    * Initializes the ObjectDetector.
@@ -54,25 +65,24 @@ export class ObjectDetector extends Script {
   init({
     options,
     ai,
-    aiOptions,
     deviceCamera,
     depth,
     camera,
+    eventBus,
   }: {
     options: WorldOptions;
     ai: AI;
-    aiOptions: AIOptions;
     deviceCamera: XRDeviceCamera;
     depth: Depth;
     camera: THREE.Camera;
+    eventBus: EventBus;
   }) {
     this.options = options;
     this.ai = ai;
-    this.aiOptions = aiOptions;
     this.deviceCamera = deviceCamera;
     this.depth = depth;
     this.camera = camera;
-    this._geminiConfig = this._buildGeminiConfig();
+    this.eventBus = eventBus;
 
     if (this.options.objects.showDebugVisualizations) {
       this._debugVisualsGroup = new THREE.Group();
@@ -92,12 +102,12 @@ export class ObjectDetector extends Script {
 
     switch (this.options.objects.backendConfig.activeBackend) {
       case 'gemini':
-        return this._runGeminiDetection();
+        return this._runAIDetection();
       // Future backends like 'mediapipe' will be handled here.
       // case 'mediapipe':
       //   return this._runMediaPipeDetection();
       default:
-        console.warn(
+        logger.warn(
           `ObjectDetector backend '${
             this.options.objects.backendConfig.activeBackend
           }' is not supported.`
@@ -107,11 +117,11 @@ export class ObjectDetector extends Script {
   }
 
   /**
-   * Runs object detection using the Gemini backend.
+   * Runs object detection using the configured AI model.
    */
-  private async _runGeminiDetection() {
+  private async _runAIDetection() {
     if (!this.ai.isAvailable()) {
-      console.error('Gemini is unavailable for object detection.');
+      logger.error('AI is unavailable for object detection.');
       return [];
     }
 
@@ -119,7 +129,7 @@ export class ObjectDetector extends Script {
       outputFormat: 'base64',
     }) as string | null;
     if (!base64Image) {
-      console.warn('Could not get device camera snapshot.');
+      logger.warn('Could not get device camera snapshot.');
       return [];
     }
 
@@ -129,45 +139,34 @@ export class ObjectDetector extends Script {
     const cachedDepthArray = this.depth.depthArray[0].slice(0);
     const cachedMatrixWorld = this.camera.matrixWorld.clone();
 
-    // Temporarily set the Gemini config for this specific query type.
-    const originalGeminiConfig = this.aiOptions.gemini.config;
-    this.aiOptions.gemini.config = this._geminiConfig;
+    const geminiOptions = this.options.objects.backendConfig.gemini;
     const textPrompt = 'What do you see in this image?';
 
     try {
-      const rawResponse = await (this.ai.model as Gemini).query({
-        type: 'multiPart',
-        parts: [
-          {inlineData: {mimeType: mimeType || undefined, data: strippedBase64}},
-          {text: textPrompt},
-        ],
-      });
-
-      let parsedResponse;
-      try {
-        if (rawResponse && rawResponse.text) {
-          parsedResponse = JSON.parse(rawResponse.text);
-        } else {
-          console.error(
-            'AI response is missing text field:',
-            rawResponse,
-            'Raw response was:',
-            rawResponse
-          );
-          return [];
-        }
-      } catch (e) {
-        console.error(
-          'Failed to parse AI response JSON:',
-          e,
-          'Raw response was:',
-          rawResponse
-        );
-        return [];
-      }
+      const parsedResponse = await this.ai.queryStructured<AIDetection[]>(
+        {
+          systemInstruction: geminiOptions.systemInstruction,
+          messages: [
+            {
+              role: 'user',
+              parts: [
+                {
+                  type: 'image',
+                  mimeType: mimeType || undefined,
+                  data: strippedBase64,
+                },
+                {type: 'text', text: textPrompt},
+              ],
+            },
+          ],
+          config: {thinkingBudget: 0},
+        },
+        geminiOptions.responseSchema as ToolSchema,
+        {priority: 'background'}
+      );
 
       if (!Array.isArray(parsedResponse)) {
-        console.error('Parsed AI response is not an array:', parsedResponse);
+        logger.error('Parsed AI response is not an array:', parsedResponse);
         return [];
       }
 
@@ -235,15 +234,13 @@ export class ObjectDetector extends Script {
       });
 
       const detectedObjects = (await Promise.all(detectionPromises)).filter(
-        Boolean
+        (object): object is DetectedObject => !!object
       );
+      this.eventBus.emit('world:objectsDetected', {objects: detectedObjects});
       return detectedObjects;
     } catch (error) {
-      console.error('AI query for object detection failed:', error);
+      logger.error('AI query for object detection failed:', error);
       return [];
-    } finally {
-      // Restore the original config after the query.
-      this.aiOptions.gemini.config = originalGeminiConfig;
     }
   }
 
@@ -375,7 +372,7 @@ export class ObjectDetector extends Script {
     const height = this.depth.height;
 
     if (!width || !height || depthArray.length === 0) {
-      console.warn('Cannot visualize depth map: missing dimensions or data.');
+      logger.warn('Cannot visualize depth map: missing dimensions or data.');
       return;
     }
 
@@ -467,19 +464,4 @@ export class ObjectDetector extends Script {
     this._debugVisualsGroup!.add(sphere, textLabel);
     textLabel.sync(); // Required for Troika text to appear.
   }
-
-  /**
-   * Builds the Gemini configuration object from the world options.
-   */
-  private _buildGeminiConfig() {
-    const geminiOptions = this.options.objects.backendConfig.gemini;
-    return {
-      thinkingConfig: {
-        thinkingBudget: 0,
-      },
-      responseMimeType: 'application/json',
-      responseSchema: geminiOptions.responseSchema,
-      systemInstruction: [{text: geminiOptions.systemInstruction}],
-    };
-  }
 }
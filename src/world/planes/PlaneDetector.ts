@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 
+import {EventBus} from '../../core/components/EventBus';
 import {Script} from '../../core/Script';
 import {WorldOptions} from '../WorldOptions';
 
@@ -10,7 +11,11 @@ import {DetectedPlane} from './DetectedPlane';
  * API. It creates, updates, and removes `Plane` mesh objects in the scene.
  */
 export class PlaneDetector extends Script {
-  static dependencies = {options: WorldOptions, renderer: THREE.WebGLRenderer};
+  static dependencies = {
+    options: WorldOptions,
+    renderer: THREE.WebGLRenderer,
+    eventBus: EventBus,
+  };
 
   /**
    * A map from the WebXR `XRPlane` object to our custom `DetectedPlane` mesh.
@@ -27,6 +32,7 @@ export class PlaneDetector extends Script {
    */
   private _xrRefSpace?: XRReferenceSpace;
   private renderer!: THREE.WebGLRenderer;
+  private eventBus!: EventBus;
 
   /**
    * Initializes the PlaneDetector.
@@ -34,11 +40,14 @@ export class PlaneDetector extends Script {
   override init({
     options,
     renderer,
+    eventBus,
   }: {
     options: WorldOptions;
     renderer: THREE.WebGLRenderer;
+    eventBus: EventBus;
   }) {
     this.renderer = renderer;
+    this.eventBus = eventBus;
     if (options.planes.showDebugVisualizations) {
       this._debugMaterial = new THREE.MeshBasicMaterial({
         color: 0xffff00,
@@ -101,6 +110,7 @@ export class PlaneDetector extends Script {
 
     this._detectedPlanes.set(xrPlane, planeMesh);
     this.add(planeMesh);
+    this.eventBus.emit('world:planeAdded', {plane: planeMesh});
   }
 
   /**
@@ -136,6 +146,7 @@ export class PlaneDetector extends Script {
       planeMesh.geometry.dispose();
       this.remove(planeMesh);
       this._detectedPlanes.delete(xrPlane);
+      this.eventBus.emit('world:planeRemoved', {plane: planeMesh});
     }
   }
 
@@ -5,20 +5,44 @@ export * from './agent/tools/GetWeatherTool';
 export * from './agent/tools/index';
 export * from './ai/AI';
 export * from './ai/AIOptions';
+export * from './ai/AIProxy';
+export * from './ai/AIRequestQueue';
+export * from './ai/AIResponseCache';
+export * from './ai/AIStream';
+export * from './ai/AIStructuredOutput';
+export * from './ai/AITypes';
+export * from './ai/AIUsageTracker';
 export * from './ai/Gemini';
+export * from './ai/LocalLLM';
+export * from './ai/MockAI';
 export * from './ai/OpenAI';
 export * from './camera/CameraOptions';
 export * from './camera/CameraUtils';
 export * from './camera/XRDeviceCamera';
+export * from './components/BillboardComponent';
+export * from './components/DraggableComponent';
+export * from './components/PlaySoundOnSelectComponent';
+export * from './components/SpinComponent';
 export * from './constants';
+export * from './core/Component';
+export * from './core/components/Clock';
+export * from './core/components/CommandHistory';
+export * from './core/components/EventBus';
+export * from './core/components/PluginManager';
+export * from './core/components/Profiler';
+export * from './core/components/ProfilerHUD';
 export * from './core/components/Registry';
 export * from './core/components/ScreenshotSynthesizer';
+export * from './core/components/SceneSerializer';
+export * from './core/components/ScriptErrorOverlay';
 export * from './core/components/ScriptsManager';
+export * from './core/components/TaskScheduler';
 export * from './core/components/WaitFrame';
 export * from './core/components/XRButton';
 export * from './core/components/XREffects';
 export * from './core/Core';
 export * from './core/Options';
+export * from './core/Plugin';
 export * from './core/Script';
 export * from './core/User';
 export * from './depth/Depth';
@@ -38,6 +62,10 @@ export * from './input/Input';
 export * from './input/MouseController';
 export * from './lighting/Lighting';
 export * from './lighting/LightingOptions';
+export * from './logging/Logger';
+export * from './logging/LoggingOptions';
+export * from './logging/LogPanel';
+export * from './logging/LogSinks';
 export * from './physics/Physics';
 export * from './physics/PhysicsOptions';
 export * from './simulator/controlModes/SimulatorControlMode';
@@ -105,6 +133,7 @@ export * from './utils/Keycodes';
 export * from './utils/LoadingSpinnerManager';
 export * from './utils/ModelLoader';
 export * from './utils/ObjectPlacement';
+export * from './utils/OptionsSchema';
 export * from './utils/RotationUtils';
 export * from './utils/SceneGraphUtils';
 export * from './utils/Types';
@@ -0,0 +1,45 @@
+import {describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Creates an AI block answered by the mock model.
+ */
+async function createAI(configure?: (options: xb.AIOptions) => void) {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'mock';
+  options.mock.enabled = true;
+  configure?.(options);
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('AI', () => {
+  it('aborts image generation when the request times out', async () => {
+    const ai = await createAI((options) => {
+      options.mock.latency = 10000;
+    });
+    const start = performance.now();
+    await expect(
+      ai.generate('A cat', 'image', undefined, undefined, {
+        timeout: 50,
+        retries: 0,
+      })
+    ).rejects.toThrow(xb.AIRequestTimeoutError);
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it('answers live input of queries with null text without a request', async () => {
+    const ai = await createAI();
+    const model = ai.model as xb.MockAI;
+    const input = {type: 'live', action: 'send'} as const;
+
+    expect(await ai.query(input)).toEqual({text: null});
+    const events = [];
+    for await (const event of ai.queryStream(input)) events.push(event);
+    expect(events).toEqual([]);
+    expect(model.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+function createProxyOptions() {
+  const options = new xb.AIProxyOptions();
+  options.enabled = true;
+  options.url = 'http://localhost:8787/';
+  options.headers = {'X-App': 'demo'};
+  return options;
+}
+
+/**
+ * Answers session requests with numbered tokens which expire after a
+ * minute, and requests to models with an Ollama response.
+ */
+function mockProxy() {
+  let sessions = 0;
+  const fetch = vi.fn(async (url: string, _init: RequestInit) => {
+    if (url.endsWith('/session')) {
+      sessions++;
+      return new Response(
+        JSON.stringify({
+          token: `token-${sessions}`,
+          expiresAt: Date.now() + 60000,
+        })
+      );
+    }
+    return new Response(JSON.stringify({message: {content: 'Hello!'}}));
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('AIProxy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('builds the URLs of models', () => {
+    const proxy = new xb.AIProxy(createProxyOptions());
+    expect(proxy.getModelUrl('gemini')).toBe('http://localhost:8787/gemini');
+  });
+
+  it('reuses a token until it expires soon', async () => {
+    vi.useFakeTimers({toFake: ['Date']});
+    const fetch = mockProxy();
+    const proxy = new xb.AIProxy(createProxyOptions());
+    const tokens = await Promise.all([proxy.getToken(), proxy.getToken()]);
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(fetch).toHaveBeenCalledOnce();
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8787/session');
+    expect(init).toMatchObject({
+      method: 'POST',
+      credentials: 'include',
+      headers: {'X-App': 'demo'},
+    });
+
+    vi.advanceTimersByTime(20000);
+    expect(await proxy.getToken()).toBe('token-1');
+    // Within the refresh margin of 30 seconds before the expiry.
+    vi.advanceTimersByTime(15000);
+    expect(await proxy.getToken()).toBe('token-2');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the proxy rejects the session request', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('forbidden origin', {status: 403}))
+    );
+    const proxy = new xb.AIProxy(createProxyOptions());
+    await expect(proxy.getToken()).rejects.toMatchObject({
+      name: 'AIRequestError',
+      status: 403,
+      message: 'AI proxy session request failed with 403: forbidden origin',
+    });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({expiresAt: 0})))
+    );
+    await expect(proxy.getToken()).rejects.toThrow(
+      'AI proxy returned an invalid session.'
+    );
+  });
+
+  it('sends requests of models through the proxy with the token', async () => {
+    const fetch = mockProxy();
+    const options = new xb.AIOptions();
+    options.enabled = true;
+    options.model = 'local';
+    options.local.enabled = true;
+    options.local.apiKey = 'ignored';
+    options.proxy = createProxyOptions();
+    const ai = new xb.AI();
+    await ai.init({aiOptions: options});
+
+    expect(await ai.query({prompt: 'Hi'})).toMatchObject({text: 'Hello!'});
+    const [url, init] = fetch.mock.calls[1];
+    expect(url).toBe('http://localhost:8787/local/api/chat');
+    expect(init.headers).toMatchObject({Authorization: 'Bearer token-1'});
+  });
+});
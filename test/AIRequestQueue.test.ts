@@ -0,0 +1,138 @@
+import {describe, expect, it, vi} from 'vitest';
+
+import {AIQueueOptions} from '../src/ai/AIOptions';
+import {
+  AIRequestError,
+  AIRequestQueue,
+  AIRequestTimeoutError,
+} from '../src/ai/AIRequestQueue';
+
+function createQueue(concurrency?: number) {
+  const options = new AIQueueOptions();
+  options.retryDelay = 1;
+  options.maxRetryDelay = 4;
+  return new AIRequestQueue(options, concurrency);
+}
+
+/**
+ * A request which resolves when its test calls `resolve()`.
+ */
+function createDeferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return {promise, resolve};
+}
+
+describe('AIRequestQueue', () => {
+  it('retries rate limited and failed requests', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const queue = createQueue();
+    const statuses = [429, 503];
+    const request = vi.fn(async () => {
+      const status = statuses.shift();
+      if (status) throw new AIRequestError('Failed', status);
+      return 'ok';
+    });
+    await expect(queue.run(request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('gives up after the retries and on client errors', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const queue = createQueue();
+    const failing = vi.fn(async () => {
+      throw new AIRequestError('Unavailable', 503);
+    });
+    await expect(queue.run(failing, {retries: 1})).rejects.toThrow(
+      'Unavailable'
+    );
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const invalid = vi.fn(async () => {
+      throw new AIRequestError('Bad request', 400);
+    });
+    await expect(queue.run(invalid)).rejects.toMatchObject({status: 400});
+    expect(invalid).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('aborts requests which exceed their timeout without retrying', async () => {
+    const queue = createQueue();
+    let aborted = false;
+    const request = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<never>((_, reject) => {
+          signal.addEventListener('abort', () => {
+            aborted = true;
+            reject(new Error('Aborted'));
+          });
+        })
+    );
+    await expect(queue.run(request, {timeout: 5})).rejects.toThrow(
+      AIRequestTimeoutError
+    );
+    expect(aborted).toBe(true);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(queue.activeCount).toBe(0);
+  });
+
+  it('starts interactive requests before queued background requests', async () => {
+    const queue = createQueue(1);
+    const order: string[] = [];
+    const first = createDeferred();
+    const running = queue.run(() => first.promise);
+    const requests = [
+      queue.run(async () => order.push('background'), {
+        priority: 'background',
+      }),
+      queue.run(async () => order.push('interactive')),
+    ];
+    expect(queue.activeCount).toBe(1);
+    expect(queue.pendingCount).toBe(2);
+
+    first.resolve();
+    await Promise.all([running, ...requests]);
+    expect(order).toEqual(['interactive', 'background']);
+    expect(queue.activeCount).toBe(0);
+  });
+
+  it('removes cancelled requests from the queue', async () => {
+    const queue = createQueue(1);
+    const first = createDeferred();
+    const running = queue.run(() => first.promise);
+    const controller = new AbortController();
+    const request = vi.fn(async () => 'never');
+    const cancelled = queue.run(request, {signal: controller.signal});
+    expect(queue.pendingCount).toBe(1);
+
+    controller.abort(new Error('Cancelled'));
+    await expect(cancelled).rejects.toThrow('Cancelled');
+    expect(queue.pendingCount).toBe(0);
+    first.resolve();
+    await running;
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('retries streams only until their first event', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const queue = createQueue();
+    let attempts = 0;
+    async function* request() {
+      attempts++;
+      if (attempts == 1) throw new AIRequestError('Overloaded', 503);
+      yield 'first';
+      throw new AIRequestError('Overloaded', 503);
+    }
+    const events: string[] = [];
+    await expect(async () => {
+      for await (const event of queue.runStream(request)) {
+        events.push(event);
+      }
+    }).rejects.toThrow('Overloaded');
+    expect(attempts).toBe(2);
+    expect(events).toEqual(['first']);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import 'fake-indexeddb/auto';
+
+import {describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+let databaseCount = 0;
+
+/**
+ * Creates cache options with a database of their own.
+ */
+function createCacheOptions() {
+  const options = new xb.AICacheOptions();
+  options.enabled = true;
+  options.databaseName = `ai-cache-test-${databaseCount++}`;
+  return options;
+}
+
+async function createAI(cacheOptions: xb.AICacheOptions, text?: string) {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'mock';
+  options.mock.enabled = true;
+  options.mock.fixtures = text ? [{text, repeat: true}] : [];
+  options.cache = cacheOptions;
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('AIResponseCache', () => {
+  it('creates equal keys for requests with equal properties', async () => {
+    const cache = new xb.AIResponseCache(createCacheOptions());
+    const key = await cache.createKey({model: 'mock', prompt: 'hi'});
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      await cache.createKey({prompt: 'hi', model: 'mock', seed: undefined})
+    ).toBe(key);
+    expect(await cache.createKey({model: 'mock', prompt: 'bye'})).not.toBe(key);
+  });
+
+  it('stores responses until they expire or are cleared', async () => {
+    const options = createCacheOptions();
+    options.ttl = 1000;
+    const cache = new xb.AIResponseCache(options);
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10000);
+    await cache.set('a', {text: 'A'});
+    await cache.set('b', {text: 'B'});
+    expect(await cache.get('a')).toEqual({text: 'A'});
+    expect(await cache.get('missing')).toBeUndefined();
+
+    now.mockReturnValue(11001);
+    expect(await cache.get('a')).toBeUndefined();
+    now.mockRestore();
+
+    await cache.set('c', {text: 'C'});
+    await cache.clear();
+    expect(await cache.get('c')).toBeUndefined();
+  });
+
+  it('removes the oldest responses beyond the limits', async () => {
+    const options = createCacheOptions();
+    options.maxEntries = 2;
+    const cache = new xb.AIResponseCache(options);
+    const now = vi.spyOn(Date, 'now');
+    for (const [i, key] of ['a', 'b', 'c'].entries()) {
+      now.mockReturnValue(1000 + i);
+      await cache.set(key, key);
+    }
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toBe('b');
+    expect(await cache.get('c')).toBe('c');
+
+    options.maxSize = 4;
+    now.mockReturnValue(2000);
+    await cache.set('d', 'd');
+    expect(await cache.get('c')).toBeUndefined();
+    expect(await cache.get('d')).toBe('d');
+    now.mockRestore();
+  });
+
+  it('answers repeated queries from the cache', async () => {
+    const ai = await createAI(createCacheOptions(), 'Fresh answer.');
+    const model = ai.model as xb.MockAI;
+    const first = await ai.query({prompt: 'How is the weather?'});
+    const second = await ai.query({prompt: 'How is the weather?'});
+    expect(second).toEqual(first);
+    expect(model.calls).toHaveLength(1);
+    await ai.query({prompt: 'How is the weather?'}, [], {cache: false});
+    expect(model.calls).toHaveLength(2);
+  });
+
+  it('replays recorded responses and fails on misses', async () => {
+    const cacheOptions = createCacheOptions();
+    cacheOptions.mode = 'record';
+    const recordingAI = await createAI(cacheOptions, 'Recorded answer.');
+    await recordingAI.query({prompt: 'How is the weather?'});
+
+    const replayOptions = createCacheOptions();
+    replayOptions.databaseName = cacheOptions.databaseName;
+    replayOptions.mode = 'replay';
+    const ai = await createAI(replayOptions);
+    expect(await ai.query({prompt: 'How is the weather?'})).toMatchObject({
+      text: 'Recorded answer.',
+    });
+    await expect(ai.query({prompt: 'What time is it?'})).rejects.toThrow(
+      xb.AICacheMissError
+    );
+    expect((ai.model as xb.MockAI).calls).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+async function* streamTexts(
+  ...texts: string[]
+): AsyncGenerator<xb.AIStreamEvent> {
+  for (const text of texts) {
+    yield {type: 'text', text};
+  }
+}
+
+async function collect<T>(stream: AsyncIterable<T>) {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+describe('pipeStreamToTextView', () => {
+  it('shows the text as it arrives and reports tool calls', async () => {
+    const texts: string[] = [];
+    const toolCalls: xb.ToolCall[] = [];
+    const toolCall = {name: 'spawnCube', args: {}};
+    async function* stream(): AsyncGenerator<xb.AIStreamEvent> {
+      yield* streamTexts('Hello', ' world');
+      yield {type: 'toolCall', toolCall};
+    }
+    const text = await xb.pipeStreamToTextView(
+      stream(),
+      {setText: (text) => texts.push(text)},
+      {prefix: '> ', onToolCall: (call) => toolCalls.push(call)}
+    );
+    expect(text).toBe('Hello world');
+    expect(texts).toEqual(['> Hello', '> Hello world']);
+    expect(toolCalls).toEqual([toolCall]);
+  });
+});
+
+describe('streamSentences', () => {
+  it('groups streamed text into sentences', async () => {
+    expect(
+      await collect(
+        xb.streamSentences(
+          streamTexts('It is sun', 'ny. Is it', '? Yes!! ', '好。', 'The end')
+        )
+      )
+    ).toEqual(['It is sunny.', 'Is it?', 'Yes!!', '好。', 'The end']);
+  });
+});
+
+describe('AI.queryStream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('yields the complete response of models without streaming', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({message: {content: 'Hello there.'}}))
+      )
+    );
+    const options = new xb.AIOptions();
+    options.enabled = true;
+    options.model = 'local';
+    options.local.enabled = true;
+    const ai = new xb.AI();
+    await ai.init({aiOptions: options});
+
+    const events = await collect(ai.queryStream({prompt: 'Hi'}));
+    expect(events.filter((event) => event.type != 'finish')).toEqual([
+      {type: 'text', text: 'Hello there.'},
+    ]);
+  });
+});
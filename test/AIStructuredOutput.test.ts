@@ -0,0 +1,130 @@
+import {describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+const BOX_SCHEMA: xb.ToolSchema = {
+  type: 'OBJECT',
+  required: ['label'],
+  properties: {
+    label: {type: 'STRING', enum: ['cup', 'plate']},
+    score: {type: 'NUMBER', minimum: 0, maximum: 1},
+    note: {type: 'STRING', nullable: true},
+  },
+};
+
+const BOXES_SCHEMA: xb.ToolSchema = {
+  type: 'OBJECT',
+  required: ['boxes'],
+  properties: {
+    boxes: {
+      type: 'ARRAY',
+      maxItems: '2',
+      items: BOX_SCHEMA as xb.ToolSchema['items'],
+    },
+  },
+};
+
+async function createAI(fixtures: xb.MockAIFixture[]) {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'mock';
+  options.mock.enabled = true;
+  options.mock.fixtures = fixtures;
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('validateSchema', () => {
+  it('accepts values matching the schema', () => {
+    expect(
+      xb.validateSchema(
+        {boxes: [{label: 'cup', score: 0.5, note: null}, {label: 'plate'}]},
+        BOXES_SCHEMA
+      )
+    ).toEqual([]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    expect(
+      xb.validateSchema(
+        {boxes: [{label: 'fork', score: 2}, {score: '1'}, {label: 'cup'}]},
+        BOXES_SCHEMA
+      )
+    ).toEqual([
+      'response.boxes must have at most 2 items',
+      'response.boxes[0].label must be one of ["cup","plate"]',
+      'response.boxes[0].score must be at most 1',
+      'response.boxes[1].label is required',
+      'response.boxes[1].score must be of type number, got string',
+    ]);
+    expect(xb.validateSchema([], BOXES_SCHEMA)).toEqual([
+      'response must be of type object, got array',
+    ]);
+  });
+
+  it('checks integers, string limits and alternatives', () => {
+    expect(xb.validateSchema(1.5, {type: 'INTEGER'})).toEqual([
+      'response must be of type integer, got number',
+    ]);
+    expect(
+      xb.validateSchema('abc', {type: 'STRING', maxLength: '2', pattern: '^a'})
+    ).toEqual(['response must have at most 2 characters']);
+    const anyOf = {
+      anyOf: [{type: 'NUMBER'}, {type: 'BOOLEAN'}],
+    } as xb.ToolSchema;
+    expect(xb.validateSchema(true, anyOf)).toEqual([]);
+    expect(xb.validateSchema('yes', anyOf)).toEqual([
+      'response matches none of the allowed schemas',
+    ]);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('parses JSON with or without a code block', () => {
+    expect(xb.parseJsonResponse('{"a": 1}')).toEqual({a: 1});
+    expect(xb.parseJsonResponse('```json\n{"a": 1}\n```\n')).toEqual({a: 1});
+    expect(() => xb.parseJsonResponse('Sure!')).toThrow(SyntaxError);
+  });
+});
+
+describe('AI.queryStructured', () => {
+  it('asks again until the response matches the schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const ai = await createAI([
+      {text: 'Here are the boxes.'},
+      {json: {boxes: [{label: 'fork'}]}},
+      {text: '```json\n{"boxes": [{"label": "cup"}]}\n```'},
+    ]);
+    const model = ai.model as xb.MockAI;
+    await expect(
+      ai.queryStructured({prompt: 'Find the cups.'}, BOXES_SCHEMA)
+    ).resolves.toEqual({boxes: [{label: 'cup'}]});
+
+    expect(model.calls).toHaveLength(3);
+    const lastCall = model.calls[2] as {type: 'chat'; request: xb.AIRequest};
+    expect(lastCall.request.responseSchema).toBe(BOXES_SCHEMA);
+    expect(lastCall.request.messages).toHaveLength(5);
+    expect(JSON.stringify(lastCall.request.messages[4])).toContain(
+      'response.boxes[0].label must be one of'
+    );
+    warn.mockRestore();
+  });
+
+  it('fails with the errors of the last response after the retries', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const ai = await createAI([{json: {boxes: 'none'}, repeat: true}]);
+    const error = await ai
+      .queryStructured({prompt: 'Find the cups.'}, BOXES_SCHEMA, {
+        validationRetries: 1,
+      })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(xb.AIValidationError);
+    expect(error).toMatchObject({
+      errors: ['response.boxes must be of type array, got string'],
+      text: '{"boxes":"none"}',
+    });
+    expect((ai.model as xb.MockAI).calls).toHaveLength(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,158 @@
+import {describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+function createUsage(
+  usage: Partial<Omit<xb.AIUsageEvent, 'cost'>> = {}
+): Omit<xb.AIUsageEvent, 'cost'> {
+  return {
+    kind: 'chat',
+    model: 'gemini',
+    modelName: 'gemini-2.5-flash',
+    inputTokens: 1000,
+    outputTokens: 200,
+    totalTokens: 1200,
+    images: 0,
+    audioSeconds: 0,
+    latency: 100,
+    cached: false,
+    ...usage,
+  };
+}
+
+function createTracker(configure?: (options: xb.AIUsageOptions) => void) {
+  const options = new xb.AIUsageOptions();
+  options.pricing = {
+    'gemini-2.5-flash': {input: 0.3, output: 2.5},
+    mock: {input: 1, output: 1, image: 0.04},
+  };
+  configure?.(options);
+  const eventBus = new xb.EventBus();
+  return {tracker: new xb.AIUsageTracker(options, eventBus), eventBus};
+}
+
+describe('AIUsageTracker', () => {
+  it('totals the usage and estimated cost per model', () => {
+    const {tracker, eventBus} = createTracker();
+    const listener = vi.fn();
+    eventBus.on('ai:usage', listener);
+
+    const event = tracker.record(createUsage());
+    expect(event.cost).toBeCloseTo(0.0008);
+    expect(listener).toHaveBeenCalledWith(event, 'ai:usage');
+    tracker.record(createUsage({cached: true}));
+    tracker.record(
+      createUsage({
+        kind: 'generate',
+        model: 'mock',
+        modelName: undefined,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        images: 1,
+      })
+    );
+    tracker.record(createUsage({kind: 'live', audioSeconds: 2}));
+
+    expect(tracker.totals).toMatchObject({
+      requests: 3,
+      totalTokens: 3600,
+      images: 1,
+      audioSeconds: 2,
+    });
+    expect(tracker.totals.cost).toBeCloseTo(0.0416);
+    expect(tracker.byModel['gemini-2.5-flash'].requests).toBe(2);
+    expect(tracker.byModel.mock.cost).toBeCloseTo(0.04);
+
+    tracker.reset();
+    expect(tracker.totals.requests).toBe(0);
+    expect(tracker.byModel).toEqual({});
+  });
+
+  it('warns once per reached budget without blocking', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const {tracker, eventBus} = createTracker((options) => {
+      options.budget.maxTokens = 2000;
+    });
+    const listener = vi.fn();
+    eventBus.on('ai:budgetExceeded', listener);
+
+    tracker.record(createUsage());
+    expect(listener).not.toHaveBeenCalled();
+    tracker.record(createUsage());
+    tracker.record(createUsage());
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith(
+      {budget: 'maxTokens', limit: 2000, value: 2400},
+      'ai:budgetExceeded'
+    );
+    expect(warn).toHaveBeenCalledOnce();
+    expect(tracker.getBlockingBudget()).toBeUndefined();
+    expect(() => tracker.checkBudget()).not.toThrow();
+    warn.mockRestore();
+  });
+
+  it('blocks requests once a budget is reached until reset', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const {tracker} = createTracker((options) => {
+      options.budget.maxRequests = 1;
+      options.budget.action = 'block';
+    });
+    tracker.checkBudget();
+    tracker.record(createUsage());
+    expect(tracker.getBlockingBudget()).toBe('maxRequests');
+    expect(() => tracker.checkBudget()).toThrow(xb.AIBudgetExceededError);
+    tracker.reset();
+    expect(() => tracker.checkBudget()).not.toThrow();
+    warn.mockRestore();
+  });
+
+  it('blocks queries of the AI once a budget is reached', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const options = new xb.AIOptions();
+    options.enabled = true;
+    options.model = 'mock';
+    options.mock.enabled = true;
+    options.usage.budget.maxRequests = 1;
+    options.usage.budget.action = 'block';
+    const ai = new xb.AI();
+    await ai.init({aiOptions: options});
+
+    await ai.query({prompt: 'hi'});
+    expect(ai.usageTracker!.totals.requests).toBe(1);
+    const error = await ai.query({prompt: 'hi'}).catch((e) => e);
+    expect(error).toBeInstanceOf(xb.AIBudgetExceededError);
+    expect(error).toMatchObject({budget: 'maxRequests', limit: 1});
+    expect((ai.model as xb.MockAI).calls).toHaveLength(1);
+    warn.mockRestore();
+  });
+});
+
+describe('countRealtimeInputMedia', () => {
+  it('counts video frames and the seconds of PCM audio', () => {
+    // 16000 bytes of 16 bit PCM at 8000 Hz are one second.
+    const data = btoa('\0'.repeat(16000));
+    expect(
+      xb.countRealtimeInputMedia({
+        audio: {data, mimeType: 'audio/pcm;rate=8000'},
+        video: {data: 'AAAA', mimeType: 'image/jpeg'},
+      })
+    ).toEqual({images: 1, audioSeconds: 1});
+    expect(
+      xb.countRealtimeInputMedia({audio: {data, mimeType: 'audio/wav'}})
+    ).toEqual({images: 0, audioSeconds: 0});
+  });
+});
+
+describe('toLiveUsage', () => {
+  it('converts the usage metadata of live messages', () => {
+    expect(
+      xb.toLiveUsage({
+        promptTokenCount: 10,
+        responseTokenCount: 4,
+        thoughtsTokenCount: 2,
+      })
+    ).toEqual({inputTokens: 10, outputTokens: 6, totalTokens: 16});
+    expect(xb.toLiveUsage()).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import {describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Creates an AI block answered by the mock model with the fixtures.
+ */
+async function createAI(...fixtures: xb.MockAIFixture[]) {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'mock';
+  options.mock.enabled = true;
+  options.mock.fixtures = fixtures;
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('Agent', () => {
+  it('sends tool calls and their results as turns of the conversation', async () => {
+    const toolCall = {id: 'call-1', name: 'getWeather', args: {city: 'Paris'}};
+    const ai = await createAI(
+      {toolCalls: [toolCall]},
+      {text: 'It is sunny in Paris.'}
+    );
+    const tool = new xb.Tool({
+      name: 'getWeather',
+      description: 'Gets the weather of a city.',
+      onTriggered: () => 'sunny',
+    });
+    const agent = new xb.Agent(ai, [tool], 'You report the weather.');
+
+    expect(await agent.start('Weather in Paris?')).toBe(
+      'It is sunny in Paris.'
+    );
+
+    const calls = (ai.model as xb.MockAI).calls;
+    expect(calls).toHaveLength(2);
+    const request = (calls[1] as {request: xb.AIRequest}).request;
+    expect(request.systemInstruction).toBe('You report the weather.');
+    expect(request.messages).toEqual([
+      {role: 'user', parts: [{type: 'text', text: 'Weather in Paris?'}]},
+      {role: 'assistant', parts: [], toolCalls: [toolCall]},
+      {
+        role: 'tool',
+        toolCall,
+        result: expect.objectContaining({success: true, data: 'sunny'}),
+      },
+    ]);
+  });
+
+  it('answers calls of missing tools with an error result', async () => {
+    const toolCall = {name: 'missing', args: {}};
+    const ai = await createAI({toolCalls: [toolCall]}, {text: 'Sorry.'});
+    const agent = new xb.Agent(ai);
+
+    expect(await agent.start('Do something.')).toBe('Sorry.');
+
+    const calls = (ai.model as xb.MockAI).calls;
+    const request = (calls[1] as {request: xb.AIRequest}).request;
+    expect(request.messages[2]).toEqual({
+      role: 'tool',
+      toolCall,
+      result: {success: false, error: 'Error: Tool "missing" not found.'},
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import {describe, expect, it} from 'vitest';
+
+import {Clock} from '../src/core/components/Clock';
+import {ClockOptions} from '../src/core/Options';
+
+describe('Clock', () => {
+  it('advances by the wall-clock time between frames', () => {
+    const clock = new Clock();
+    clock.update(1000);
+    expect(clock.getDelta()).toBe(0);
+    clock.update(1016);
+    expect(clock.getDelta()).toBeCloseTo(0.016);
+    clock.update(1050);
+    expect(clock.getDelta()).toBeCloseTo(0.034);
+    expect(clock.getElapsed()).toBeCloseTo(0.05);
+    expect(clock.frameCount).toBe(2);
+  });
+
+  it('advances by a fixed timestep regardless of the wall-clock time', () => {
+    const clock = new Clock();
+    const options = new ClockOptions();
+    options.fixedTimestep = true;
+    options.timestep = 0.02;
+    clock.init(options);
+    clock.update(0);
+    clock.update(500);
+    clock.update(501);
+    expect(clock.getDelta()).toBeCloseTo(0.02);
+    expect(clock.getElapsed()).toBeCloseTo(0.06);
+  });
+
+  it('scales the delta by the timescale', () => {
+    const clock = new Clock().setTimescale(0.5);
+    clock.update(0);
+    clock.update(100);
+    expect(clock.getDelta()).toBeCloseTo(0.05);
+    expect(clock.getTimescale()).toBe(0.5);
+  });
+
+  it('stands still while paused and single-steps frames', () => {
+    const clock = new Clock();
+    clock.timestep = 0.1;
+    clock.update(0);
+    clock.pause();
+    clock.update(100);
+    expect(clock.getDelta()).toBe(0);
+
+    clock.stepFrames(2);
+    clock.update(200);
+    clock.update(300);
+    clock.update(400);
+    expect(clock.getElapsed()).toBeCloseTo(0.2);
+    expect(clock.frameCount).toBe(2);
+
+    clock.resume();
+    clock.update(450);
+    expect(clock.getDelta()).toBeCloseTo(0.05);
+  });
+
+  it('measures the next frame from the reset timestamp', () => {
+    const clock = new Clock();
+    clock.update(0);
+    clock.reset(5000);
+    clock.update(5010);
+    expect(clock.getDelta()).toBeCloseTo(0.01);
+    clock.reset();
+    clock.update(9000);
+    expect(clock.getDelta()).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import {describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Appends a value to a list, for commands which are easy to assert.
+ */
+function createAppendCommand(list: string[], value: string): xb.Command {
+  return {
+    name: `Append ${value}`,
+    execute: () => list.push(value),
+    undo: () => list.splice(list.lastIndexOf(value), 1),
+  };
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes commands in order', () => {
+    const history = new xb.CommandHistory();
+    const list: string[] = [];
+    const onChange = vi.fn();
+    history.addEventListener('change', onChange);
+    history.execute(createAppendCommand(list, 'a'));
+    history.execute(createAppendCommand(list, 'b'));
+    expect(list).toEqual(['a', 'b']);
+    expect(history.peekUndo()?.name).toBe('Append b');
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(list).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(list).toEqual(['a']);
+    expect(history.peekRedo()?.name).toBe('Append b');
+    expect(onChange).toHaveBeenCalledTimes(5);
+  });
+
+  it('clears the redo stack when a new command is recorded', () => {
+    const history = new xb.CommandHistory();
+    const list: string[] = [];
+    history.execute(createAppendCommand(list, 'a'));
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    list.push('b');
+    history.record(createAppendCommand(list, 'b'));
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBe(false);
+    expect(list).toEqual(['b']);
+  });
+
+  it('forgets the oldest commands beyond the maximum size', () => {
+    const history = new xb.CommandHistory();
+    history.maxSize = 2;
+    const list: string[] = [];
+    for (const value of ['a', 'b', 'c']) {
+      history.execute(createAppendCommand(list, value));
+    }
+    while (history.undo());
+    expect(list).toEqual(['a']);
+
+    history.clear();
+    expect(history.canRedo()).toBe(false);
+  });
+});
+
+describe('TransformCommand', () => {
+  it('undoes and redoes the commands of an owner only', () => {
+    const history = new xb.CommandHistory();
+    const list: string[] = [];
+    const panel = {};
+    const otherPanel = {};
+    history.execute({...createAppendCommand(list, 'a'), owner: panel});
+    history.execute({...createAppendCommand(list, 'b'), owner: otherPanel});
+    history.execute(createAppendCommand(list, 'c'));
+
+    expect(history.peekUndo(panel)?.name).toBe('Append a');
+    expect(history.undo(panel)).toBe(true);
+    expect(list).toEqual(['b', 'c']);
+    expect(history.canUndo(panel)).toBe(false);
+    expect(history.undo(panel)).toBe(false);
+    expect(history.peekUndo()?.name).toBe('Append c');
+
+    expect(history.undo()).toBe(true);
+    expect(history.peekRedo(panel)?.name).toBe('Append a');
+    expect(history.redo(panel)).toBe(true);
+    expect(list).toEqual(['b', 'a']);
+    expect(history.canRedo(panel)).toBe(false);
+    expect(history.peekRedo()?.name).toBe('Append c');
+  });
+
+  it('moves an object between two transforms', () => {
+    const object = new THREE.Object3D();
+    const before = {
+      position: object.position.clone(),
+      quaternion: object.quaternion.clone(),
+      scale: object.scale.clone(),
+    };
+    object.position.set(1, 2, 3);
+    object.rotation.set(0, Math.PI / 2, 0);
+    object.scale.setScalar(2);
+    const command = new xb.TransformCommand(object, before);
+    expect(command.changesTransform()).toBe(true);
+    expect(new xb.TransformCommand(object, object).changesTransform()).toBe(
+      false
+    );
+
+    // Later changes of the object do not change the recorded transforms.
+    object.position.set(5, 5, 5);
+    command.undo();
+    expect(object.position.toArray()).toEqual([0, 0, 0]);
+    expect(object.quaternion.equals(new THREE.Quaternion())).toBe(true);
+    expect(object.scale.toArray()).toEqual([1, 1, 1]);
+    command.execute();
+    expect(object.position.toArray()).toEqual([1, 2, 3]);
+    expect(object.rotation.y).toBeCloseTo(Math.PI / 2);
+    expect(object.scale.toArray()).toEqual([2, 2, 2]);
+  });
+});
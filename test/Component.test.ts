@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import {beforeAll, describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+class LifecycleComponent extends xb.Component {
+  static dependencies = {timer: THREE.Timer};
+
+  log: string[] = [];
+  timer?: THREE.Timer;
+
+  init({timer}: {timer: THREE.Timer}) {
+    this.timer = timer;
+    this.log.push('init');
+  }
+
+  update() {
+    this.log.push('update');
+  }
+
+  onEnable() {
+    this.log.push('enable');
+  }
+
+  onDisable() {
+    this.log.push('disable');
+  }
+
+  dispose() {
+    this.log.push('dispose');
+  }
+}
+
+class SelectComponent extends xb.Component {
+  selections = 0;
+
+  constructor(private handled: boolean) {
+    super();
+  }
+
+  onObjectSelectStart() {
+    this.selections++;
+    return this.handled;
+  }
+}
+
+describe('Component', () => {
+  beforeAll(async () => {
+    await xb.init(new xb.Options({headless: true}));
+  });
+
+  it('attaches components to objects and finds them by class', () => {
+    const object = new THREE.Object3D();
+    const spin = xb.addComponent(object, new xb.SpinComponent());
+    const lifecycle = xb.addComponent(object, new LifecycleComponent());
+    expect(xb.getComponent(object, xb.SpinComponent)).toBe(spin);
+    expect(xb.getComponents(object)).toEqual([spin, lifecycle]);
+    expect(() => xb.addComponent(new THREE.Object3D(), spin)).toThrow(
+      'already attached'
+    );
+
+    expect(xb.removeComponent(object, spin)).toBe(true);
+    expect(xb.removeComponent(object, spin)).toBe(false);
+    expect(xb.getComponents(object)).toEqual([lifecycle]);
+  });
+
+  it('runs the lifecycle of components of objects in the scene', async () => {
+    const object = new THREE.Object3D();
+    const component = xb.addComponent(object, new LifecycleComponent());
+    xb.add(object);
+    await xb.core.step(16);
+    expect(component.timer).toBe(xb.core.timer);
+    expect(component.log).toEqual(['init', 'enable', 'update']);
+
+    component.enabled = false;
+    await xb.core.step(16);
+    component.enabled = true;
+    await xb.core.step(16);
+    expect(component.log.slice(3)).toEqual(['disable', 'enable', 'update']);
+
+    xb.removeComponent(object, component);
+    await xb.core.step(16);
+    expect(component.log.slice(6)).toEqual(['disable', 'dispose']);
+    object.removeFromParent();
+  });
+
+  it('spins objects with the clock', async () => {
+    const object = new THREE.Object3D();
+    xb.addComponent(object, new xb.SpinComponent({speed: Math.PI}));
+    xb.add(object);
+    await xb.core.step(16);
+    const start = object.rotation.y;
+    await xb.core.step(250);
+    expect(object.rotation.y - start).toBeCloseTo(Math.PI / 4);
+    object.removeFromParent();
+  });
+
+  it('receives interactions with descendants until one handles them', async () => {
+    const parent = new THREE.Object3D();
+    const child = new THREE.Mesh();
+    parent.add(child);
+    const parentComponent = xb.addComponent(parent, new SelectComponent(true));
+    const childComponent = xb.addComponent(child, new SelectComponent(false));
+    xb.add(parent);
+    await xb.core.step(16);
+
+    const event = {target: xb.core.input.controllers[0]};
+    xb.core.user.callObjectSelectStart(event, child);
+    expect(childComponent.selections).toBe(1);
+    expect(parentComponent.selections).toBe(1);
+
+    childComponent.enabled = false;
+    await xb.core.step(16);
+    xb.core.user.callObjectSelectStart(event, child);
+    expect(childComponent.selections).toBe(1);
+    expect(parentComponent.selections).toBe(2);
+    parent.removeFromParent();
+  });
+});
@@ -0,0 +1,133 @@
+import {describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+declare module '../src/core/components/EventBus' {
+  interface EventBusTopicMap {
+    'game:round:end': object;
+    ':ready': object;
+  }
+}
+
+describe('EventBus', () => {
+  it('delivers events to topic, namespace and global listeners', () => {
+    const eventBus = new xb.EventBus();
+    const received: string[] = [];
+    eventBus.on('speech:end', (_payload, topic) => received.push(topic));
+    eventBus.on('speech:*', (_payload, topic) => received.push(`ns:${topic}`));
+    eventBus.on('*', (_payload, topic) => received.push(`all:${topic}`));
+
+    eventBus.emit('speech:end', {});
+    eventBus.emit('ai:turnComplete', {});
+
+    expect(received).toEqual([
+      'speech:end',
+      'ns:speech:end',
+      'all:speech:end',
+      'all:ai:turnComplete',
+    ]);
+  });
+
+  it('calls once listeners for the next event only', () => {
+    const eventBus = new xb.EventBus();
+    const listener = vi.fn();
+    eventBus.once('speech:error', listener);
+
+    eventBus.emit('speech:error', {error: 'first'});
+    eventBus.emit('speech:error', {error: 'second'});
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith({error: 'first'}, 'speech:error');
+    expect(eventBus.hasListeners('speech:error')).toBe(false);
+  });
+
+  it('delivers events to listeners of nested namespaces', () => {
+    const eventBus = new xb.EventBus();
+    const received: string[] = [];
+    eventBus.on('game:round:*', () => received.push('game:round:*'));
+    eventBus.on('game:*', () => received.push('game:*'));
+    eventBus.on('*', () => received.push('*'));
+
+    eventBus.emit('game:round:end', {});
+
+    expect(received).toEqual(['game:round:*', 'game:*', '*']);
+  });
+
+  it('delivers events of topics starting with a colon', () => {
+    const eventBus = new xb.EventBus();
+    const received: string[] = [];
+    eventBus.on(':ready', (_payload, topic) => received.push(topic));
+    eventBus.on('*', (_payload, topic) => received.push(`all:${topic}`));
+
+    eventBus.emit(':ready', {});
+
+    expect(received).toEqual([':ready', 'all::ready']);
+  });
+
+  it('removes subscriptions with off, the returned function and offOwner', () => {
+    const eventBus = new xb.EventBus();
+    const owner = {};
+    const listener = vi.fn();
+    eventBus.on('speech:start', listener);
+    const unsubscribe = eventBus.on('speech:end', listener);
+    eventBus.on('*', listener, owner);
+
+    eventBus.off('speech:start', listener);
+    unsubscribe();
+    eventBus.offOwner(owner);
+    eventBus.emit('speech:start', {});
+    eventBus.emit('speech:end', {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('isolates failing listeners', () => {
+    const eventBus = new xb.EventBus();
+    const listener = vi.fn();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    eventBus.on('speech:end', () => {
+      throw new Error('Listener failed.');
+    });
+    eventBus.on('speech:end', listener);
+
+    eventBus.emit('speech:end', {});
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('owns subscriptions of a view by its owner', () => {
+    const eventBus = new xb.EventBus();
+    const owner = {};
+    const listener = vi.fn();
+    eventBus.forOwner(owner).on('speech:end', listener);
+
+    eventBus.emit('speech:end', {});
+    eventBus.offOwner(owner);
+    eventBus.emit('speech:end', {});
+
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('removes subscriptions of scripts when they are uninitialized', async () => {
+    await xb.init(new xb.Options({headless: true}));
+    const listener = vi.fn();
+    class Listener extends xb.Script {
+      static dependencies = {eventBus: xb.EventBus};
+
+      init({eventBus}: {eventBus: xb.EventBus}) {
+        eventBus.on('speech:end', listener);
+      }
+    }
+    const script = new Listener();
+    xb.add(script);
+    await xb.core.step(16);
+
+    xb.core.eventBus.emit('speech:end', {});
+    xb.uninitScript(script);
+    xb.core.eventBus.emit('speech:end', {});
+
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
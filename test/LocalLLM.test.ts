@@ -0,0 +1,172 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Answers every request to `fetch()` with a JSON body and records the
+ * requests.
+ */
+function mockFetch(json: unknown, status = 200) {
+  const fetch = vi.fn(
+    async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify(json), {status})
+  );
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+function getBody(fetch: ReturnType<typeof mockFetch>) {
+  return JSON.parse(fetch.mock.calls[0][1].body as string);
+}
+
+async function createAI(configure?: (options: xb.LocalLLMOptions) => void) {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'local';
+  options.local.enabled = true;
+  options.local.model = 'llama3.2';
+  configure?.(options.local);
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('LocalLLM', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("queries Ollama's native chat API", async () => {
+    const fetch = mockFetch({message: {content: 'Hello!'}, done: true});
+    const ai = await createAI((options) => {
+      options.systemInstruction = 'Be brief.';
+    });
+    expect(await ai.query({prompt: 'Hi'})).toMatchObject({text: 'Hello!'});
+
+    expect(fetch.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(getBody(fetch)).toMatchObject({
+      model: 'llama3.2',
+      stream: false,
+      messages: [
+        {role: 'system', content: 'Be brief.'},
+        {role: 'user', content: 'Hi'},
+      ],
+    });
+  });
+
+  it('queries OpenAI-compatible servers with a key and headers', async () => {
+    const fetch = mockFetch({
+      choices: [{message: {content: 'Hello!'}, finish_reason: 'stop'}],
+    });
+    const ai = await createAI((options) => {
+      options.api = 'openai';
+      options.baseUrl = 'http://localhost:8080/';
+      options.apiKey = 'secret';
+      options.headers = {'X-Team': 'xr'};
+    });
+    expect(await ai.query({prompt: 'Hi'})).toMatchObject({text: 'Hello!'});
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({
+      Authorization: 'Bearer secret',
+      'X-Team': 'xr',
+    });
+    expect(getBody(fetch).messages).toEqual([{role: 'user', content: 'Hi'}]);
+  });
+
+  it('sends images in the format of each API', async () => {
+    const input: xb.GeminiQueryInput = {
+      type: 'base64',
+      base64: 'AAAA',
+      mimeType: 'image/jpeg',
+      text: 'What is this?',
+    };
+    const ollamaFetch = mockFetch({message: {content: 'A cup.'}});
+    const ollamaAI = await createAI();
+    await ollamaAI.query(input);
+    expect(getBody(ollamaFetch).messages).toEqual([
+      {role: 'user', content: 'What is this?', images: ['AAAA']},
+    ]);
+
+    const openaiFetch = mockFetch({choices: [{message: {content: 'A cup.'}}]});
+    const openaiAI = await createAI((options) => {
+      options.api = 'openai';
+    });
+    await openaiAI.query(input);
+    expect(getBody(openaiFetch).messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          {type: 'text', text: 'What is this?'},
+          {type: 'image_url', image_url: {url: 'data:image/jpeg;base64,AAAA'}},
+        ],
+      },
+    ]);
+  });
+
+  it('parses tool calls with JSON or object arguments', async () => {
+    const tool = new xb.Tool({
+      name: 'spawnCube',
+      description: 'Spawns a cube.',
+      parameters: {type: 'OBJECT', properties: {color: {type: 'STRING'}}},
+    });
+    const ollamaFetch = mockFetch({
+      message: {
+        tool_calls: [
+          {function: {name: 'spawnCube', arguments: {color: 'red'}}},
+        ],
+      },
+    });
+    const ollamaAI = await createAI();
+    expect(await ollamaAI.query({prompt: 'Add a cube'}, [tool])).toMatchObject({
+      toolCall: {name: 'spawnCube', args: {color: 'red'}},
+    });
+    expect(getBody(ollamaFetch).tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'spawnCube',
+          description: 'Spawns a cube.',
+          parameters: {type: 'object', properties: {color: {type: 'string'}}},
+        },
+      },
+    ]);
+
+    mockFetch({
+      choices: [
+        {
+          message: {
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: {name: 'spawnCube', arguments: '{"color":"blue"}'},
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+    const openaiAI = await createAI((options) => {
+      options.api = 'openai';
+    });
+    expect(await openaiAI.query({prompt: 'Add a cube'}, [tool])).toMatchObject({
+      toolCall: {name: 'spawnCube', args: {color: 'blue'}},
+    });
+  });
+
+  it('fails with the status and text of failed requests', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('model not found', {status: 404}))
+    );
+    const ai = await createAI();
+    await expect(ai.query({prompt: 'Hi'})).rejects.toThrow(
+      'Local model request failed with 404: model not found'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Creates a log manager which only writes to the returned records.
+ */
+function createLogManager() {
+  const manager = new xb.LogManager();
+  manager.removeSink(manager.consoleSink);
+  const records: xb.LogRecord[] = [];
+  manager.addSink({write: (record) => records.push(record)});
+  return {manager, records};
+}
+
+class FakeWebSocket {
+  static OPEN = 1;
+  static sockets: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: string[] = [];
+  onopen?: () => void;
+  onclose?: () => void;
+
+  constructor(public url: string) {
+    FakeWebSocket.sockets.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  close() {}
+}
+
+describe('LogManager', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('filters messages by the level of their namespace', () => {
+    const {manager, records} = createLogManager();
+    manager.levels = {AI: 'debug', Noisy: 'none'};
+    const logger = manager.getLogger('Depth');
+    expect(manager.getLogger('Depth')).toBe(logger);
+
+    logger.info('hidden');
+    logger.warn('shown');
+    manager.getLogger('AI').debug('debugged');
+    manager.getLogger('Noisy').error('silenced');
+    expect(
+      records.map(({namespace, level, message}) => ({
+        namespace,
+        level,
+        message,
+      }))
+    ).toEqual([
+      {namespace: 'Depth', level: 'warn', message: 'shown'},
+      {namespace: 'AI', level: 'debug', message: 'debugged'},
+    ]);
+    expect(logger.isEnabled('info')).toBe(false);
+    expect(manager.getLogger('AI').isEnabled('debug')).toBe(true);
+  });
+
+  it('formats arguments as one line and keeps the original arguments', () => {
+    const {manager, records} = createLogManager();
+    const error = new Error('Failed');
+    manager.getLogger('Test').error('Loading', {id: 3}, 42, error);
+    expect(records[0].message).toBe(`Loading {"id":3} 42 ${error.stack}`);
+    expect(records[0].args).toEqual(['Loading', {id: 3}, 42, error]);
+  });
+
+  it('ignores failing sinks', () => {
+    const {manager, records} = createLogManager();
+    manager.addSink({
+      write: () => {
+        throw new Error('Sink failed.');
+      },
+    });
+    manager.addSink({write: (record) => records.push(record)});
+    expect(() => manager.getLogger('Test').warn('still logged')).not.toThrow();
+    expect(records).toHaveLength(2);
+  });
+
+  it('applies logging options', () => {
+    const manager = new xb.LogManager();
+    const options = new xb.LoggingOptions();
+    options.level = 'error';
+    options.levels = {AI: 'info'};
+    options.console = false;
+    options.historySize = 2;
+    manager.configure(options);
+    const warn = vi.spyOn(console, 'warn');
+    manager.getLogger('AI').warn('kept');
+    expect(warn).not.toHaveBeenCalled();
+    expect(manager.history.getRecords()).toHaveLength(1);
+    expect(manager.isEnabled('Depth', 'warn')).toBe(false);
+
+    manager.configure(options, /*debugging=*/ true);
+    expect(manager.isEnabled('Depth', 'debug')).toBe(true);
+  });
+
+  it('prints messages to the console with their namespace', () => {
+    const manager = new xb.LogManager();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    manager.getLogger('Physics').error('Step failed', 3);
+    expect(error).toHaveBeenCalledWith('Physics:', 'Step failed', 3);
+  });
+});
+
+describe('RingBufferLogSink', () => {
+  function createRecord(message: string): xb.LogRecord {
+    return {time: 0, level: 'info', namespace: 'Test', message, args: []};
+  }
+
+  it('keeps the most recent messages in order', () => {
+    const sink = new xb.RingBufferLogSink(2);
+    for (const message of ['a', 'b', 'c']) sink.write(createRecord(message));
+    expect(sink.getRecords().map((record) => record.message)).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(sink.toText()).toBe(
+      '1970-01-01T00:00:00.000Z INFO Test: b\n' +
+        '1970-01-01T00:00:00.000Z INFO Test: c'
+    );
+
+    sink.capacity = 3;
+    sink.write(createRecord('d'));
+    expect(sink.getRecords().map((record) => record.message)).toEqual([
+      'b',
+      'c',
+      'd',
+    ]);
+    sink.clear();
+    expect(sink.getRecords()).toEqual([]);
+  });
+});
+
+describe('WebSocketLogSink', () => {
+  it('queues messages until connected and reconnects when closed', () => {
+    vi.useFakeTimers();
+    FakeWebSocket.sockets = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const sink = new xb.WebSocketLogSink('ws://localhost:8765');
+    const record: xb.LogRecord = {
+      time: 1,
+      level: 'warn',
+      namespace: 'Test',
+      message: 'queued',
+      args: [{large: 'object'}],
+    };
+    sink.write(record);
+    const [socket] = FakeWebSocket.sockets;
+    expect(socket.sent).toEqual([]);
+
+    socket.open();
+    expect(socket.sent.map((data) => JSON.parse(data))).toEqual([
+      {time: 1, level: 'warn', namespace: 'Test', message: 'queued'},
+    ]);
+    sink.write({...record, message: 'sent'});
+    expect(socket.sent).toHaveLength(2);
+
+    socket.onclose!();
+    vi.advanceTimersByTime(sink.reconnectDelay);
+    expect(FakeWebSocket.sockets).toHaveLength(2);
+    sink.close();
+  });
+});
@@ -0,0 +1,151 @@
+import type * as GoogleGenAITypes from '@google/genai';
+import {describe, expect, it, vi} from 'vitest';
+
+import {MockAIFixture, MockAIOptions} from '../src/ai/AIOptions';
+import {AIRequestError} from '../src/ai/AIRequestQueue';
+import {AIRequest, AIStreamEvent} from '../src/ai/AITypes';
+import {MockAI} from '../src/ai/MockAI';
+
+async function createMockAI(fixtures: MockAIFixture[] = []) {
+  const options = new MockAIOptions();
+  options.enabled = true;
+  options.fixtures = fixtures;
+  const model = new MockAI(options);
+  await model.init();
+  return model;
+}
+
+function createRequest(text: string): AIRequest {
+  return {messages: [{role: 'user', parts: [{type: 'text', text}]}]};
+}
+
+describe('MockAI', () => {
+  it('answers with the first fixture matching the last user message', async () => {
+    const model = await createMockAI([
+      {match: 'weather', text: 'It is sunny.'},
+      {match: /^count/, json: {count: 3}},
+      {text: 'Any request.'},
+    ]);
+    expect((await model.chat(createRequest('count the cups'))).text).toBe(
+      '{"count":3}'
+    );
+    expect((await model.chat(createRequest('How is the weather?'))).text).toBe(
+      'It is sunny.'
+    );
+    expect((await model.chat(createRequest('weather?'))).text).toBe(
+      'Any request.'
+    );
+    expect((await model.chat(createRequest('weather?'))).text).toBe(
+      'This is a mock response.'
+    );
+  });
+
+  it('keeps repeating fixtures and appends added fixtures', async () => {
+    const model = await createMockAI([
+      {match: 'hi', text: 'Hello!', repeat: true},
+    ]);
+    model.addFixtures({text: 'Added.'});
+    expect((await model.chat(createRequest('hi'))).text).toBe('Hello!');
+    expect((await model.chat(createRequest('hi'))).text).toBe('Hello!');
+    expect((await model.chat(createRequest('bye'))).text).toBe('Added.');
+  });
+
+  it('answers with tool calls and usage', async () => {
+    const toolCalls = [{name: 'spawnCube', args: {color: 'red'}}];
+    const usage = {inputTokens: 10, outputTokens: 5, totalTokens: 15};
+    const model = await createMockAI([{toolCalls, usage}]);
+    expect(await model.chat(createRequest('Add a red cube'))).toEqual({
+      text: null,
+      toolCalls,
+      finishReason: 'toolCalls',
+      usage,
+    });
+  });
+
+  it('fails with the error of a fixture after its latency', async () => {
+    const model = await createMockAI([
+      {error: {message: 'Rate limited', status: 429}, latency: 20},
+    ]);
+    const start = performance.now();
+    const error = await model.chat(createRequest('hi')).catch((e) => e);
+    expect(error).toBeInstanceOf(AIRequestError);
+    expect(error).toMatchObject({message: 'Rate limited', status: 429});
+    expect(performance.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  it('aborts waiting for the latency', async () => {
+    const model = await createMockAI([{text: 'Late.', latency: 10000}]);
+    const controller = new AbortController();
+    const response = model.chat(createRequest('hi'), controller.signal);
+    controller.abort(new Error('Cancelled'));
+    await expect(response).rejects.toThrow('Cancelled');
+  });
+
+  it('records its calls', async () => {
+    const model = await createMockAI();
+    const request = createRequest('hi');
+    await model.chat(request);
+    await model.generate('A cat', 'image', 'Draw', 'imagen');
+    expect(model.calls).toEqual([
+      {type: 'chat', request},
+      {
+        type: 'generate',
+        prompt: 'A cat',
+        systemInstruction: 'Draw',
+        model: 'imagen',
+      },
+    ]);
+    model.clearCalls();
+    expect(model.calls).toEqual([]);
+  });
+
+  it('streams the response word by word', async () => {
+    const model = await createMockAI([{text: 'It is sunny.'}]);
+    const events: AIStreamEvent[] = [];
+    for await (const event of model.chatStream(createRequest('weather'))) {
+      events.push(event);
+    }
+    expect(events.map((event) => event.type)).toEqual([
+      'text',
+      'text',
+      'text',
+      'finish',
+    ]);
+    expect(
+      events.map((event) => (event.type == 'text' ? event.text : '')).join('')
+    ).toBe('It is sunny.');
+  });
+
+  it('generates fixture images or a placeholder', async () => {
+    const image = 'data:image/png;base64,Y2F0';
+    const model = await createMockAI([
+      {text: 'Not an image.'},
+      {match: 'cat', image},
+    ]);
+    expect(await model.generate(['data:image/png;base64,AAAA', 'A cat'])).toBe(
+      image
+    );
+    expect(await model.generate('A dog')).toMatch(/^data:image\/png;base64,/);
+    expect((await model.chat(createRequest('cat'))).text).toBe('Not an image.');
+  });
+
+  it('replays live messages of the session and of matching input', async () => {
+    const greeting = {serverContent: {turnComplete: true}};
+    const answer = {text: 'It is sunny.'};
+    const model = await createMockAI([
+      {match: 'weather', liveMessages: [answer]},
+      {liveMessages: [greeting]},
+    ] as MockAIFixture[]);
+    const onmessage = vi.fn();
+    model.setLiveCallbacks({
+      onmessage,
+    } as unknown as GoogleGenAITypes.LiveCallbacks);
+
+    await model.startLiveSession();
+    expect(model.getLiveSessionStatus().isActive).toBe(true);
+    expect(onmessage).toHaveBeenCalledWith(greeting);
+
+    model.sendRealtimeInput({text: 'How is the weather?'});
+    await vi.waitFor(() => expect(onmessage).toHaveBeenCalledWith(answer));
+  });
+});
@@ -0,0 +1,127 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+const SPAWN_CUBE = new xb.Tool({
+  name: 'spawnCube',
+  description: 'Spawns a cube.',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      color: {type: 'STRING', enum: ['red', 'blue']},
+      sizes: {type: 'ARRAY', items: {type: 'NUMBER'} as xb.ToolSchema['items']},
+    },
+    required: ['color'],
+  },
+});
+
+/**
+ * Answers chat completion requests with a message and records their bodies.
+ */
+function mockCompletion(message: object, finishReason = 'stop') {
+  const bodies: Record<string, unknown>[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string));
+      return new Response(
+        JSON.stringify({
+          id: 'completion',
+          object: 'chat.completion',
+          created: 0,
+          model: 'gpt-4.1',
+          choices: [
+            {
+              index: 0,
+              message: {role: 'assistant', content: null, ...message},
+              finish_reason: finishReason,
+            },
+          ],
+        }),
+        {headers: {'Content-Type': 'application/json'}}
+      );
+    })
+  );
+  return bodies;
+}
+
+async function createAI() {
+  const options = new xb.AIOptions();
+  options.enabled = true;
+  options.model = 'openai';
+  options.openai.enabled = true;
+  options.openai.apiKey = 'sk-test-0123456789abcdefghijklmnopqrstuvwxyz';
+  const ai = new xb.AI();
+  await ai.init({aiOptions: options});
+  return ai;
+}
+
+describe('Tool.toOpenAITool', () => {
+  it('declares tools as functions with JSON Schema parameters', () => {
+    expect(SPAWN_CUBE.toOpenAITool()).toEqual({
+      type: 'function',
+      function: {
+        name: 'spawnCube',
+        description: 'Spawns a cube.',
+        parameters: {
+          type: 'object',
+          properties: {
+            color: {type: 'string', enum: ['red', 'blue']},
+            sizes: {type: 'array', items: {type: 'number'}},
+          },
+          required: ['color'],
+        },
+      },
+    });
+    expect(
+      new xb.Tool({name: 'reset', description: 'Resets.'}).toOpenAITool()
+        .function.parameters
+    ).toEqual({type: 'object', properties: {}});
+  });
+});
+
+describe('OpenAI', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends tools and returns the function the model called', async () => {
+    const bodies = mockCompletion(
+      {
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: {name: 'spawnCube', arguments: '{"color":"red"}'},
+          },
+        ],
+      },
+      'tool_calls'
+    );
+    const ai = await createAI();
+    expect(
+      await ai.query({prompt: 'Add a red cube'}, [SPAWN_CUBE])
+    ).toMatchObject({toolCall: {name: 'spawnCube', args: {color: 'red'}}});
+    expect(bodies[0].tools).toEqual([SPAWN_CUBE.toOpenAITool()]);
+  });
+
+  it('sends images as image URLs', async () => {
+    const bodies = mockCompletion({content: 'A cup.'});
+    const ai = await createAI();
+    expect(
+      await ai.query({
+        type: 'base64',
+        base64: 'AAAA',
+        mimeType: 'image/jpeg',
+        text: 'What is this?',
+      })
+    ).toMatchObject({text: 'A cup.'});
+    const messages = bodies[0].messages as {content: unknown}[];
+    expect(messages.at(-1)!.content).toEqual(
+      expect.arrayContaining([
+        {type: 'text', text: 'What is this?'},
+        {type: 'image_url', image_url: {url: 'data:image/jpeg;base64,AAAA'}},
+      ])
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+describe('Options', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports unknown keys with suggestions and type mismatches', () => {
+    expect(
+      xb.Options.validate({
+        depth: {enabeld: true},
+        simulator: {defaultMode: 3},
+        ai: {model: 'claude'},
+      })
+    ).toEqual([
+      {
+        path: 'depth.enabeld',
+        message: "Unknown option. Did you mean 'depth.enabled'?",
+      },
+      {
+        path: 'simulator.defaultMode',
+        message: 'Expected a string but got number.',
+      },
+      {
+        path: 'ai.model',
+        message: expect.stringMatching(
+          /^Expected one of "gemini", "openai".* but got "claude"\.$/
+        ),
+      },
+    ]);
+    expect(xb.Options.validate({depth: {enabled: true}})).toEqual([]);
+  });
+
+  it('creates options from JSON, skipping invalid values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const options = xb.Options.fromJSON(
+      '{"headless": true, "depth": {"enabled": "yes"}, "ai": {"enabled": true}}'
+    );
+    expect(options).toBeInstanceOf(xb.Options);
+    expect(options.headless).toBe(true);
+    expect(options.ai.enabled).toBe(true);
+    expect(options.depth.enabled).toBe(false);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('throws for invalid JSON options in strict mode', () => {
+    const error = (() => {
+      try {
+        xb.Options.fromJSON({headless: 'no'}, /*strict=*/ true);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(xb.OptionsValidationError);
+    expect(error).toMatchObject({
+      issues: [
+        {path: 'headless', message: 'Expected a boolean but got string.'},
+      ],
+    });
+  });
+
+  it('applies URL parameters prefixed with xb.', () => {
+    const options = new xb.Options();
+    const issues = options.applyUrlParams(
+      '?xb.depth.enabled&xb.physics.fps=30&xb.webxrRequiredFeatures=["anchors"]' +
+        '&xb.simulator.defaultMode=Hands&other=1'
+    );
+    expect(issues).toEqual([]);
+    expect(options.depth.enabled).toBe(true);
+    expect(options.physics.fps).toBe(30);
+    expect(options.webxrRequiredFeatures).toEqual(['anchors']);
+    expect(options.simulator.defaultMode).toBe('Hands');
+  });
+
+  it('rejects invalid URL parameters and protected options', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const options = new xb.Options();
+    const issues = options.applyUrlParams(
+      '?xb.physics.fps=fast&xb.depth.enabled=maybe&xb.ai.gemini.apiKey=stolen' +
+        '&xb.unknown=1'
+    );
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'physics.fps',
+      'depth.enabled',
+      'ai.gemini.apiKey',
+      'unknown',
+    ]);
+    expect(issues[2].message).toBe('Cannot be set with URL parameters.');
+    expect(options.physics.fps).toBe(new xb.PhysicsOptions().fps);
+    expect(options.ai.gemini.apiKey).toBe(new xb.Options().ai.gemini.apiKey);
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+});
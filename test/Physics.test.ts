@@ -0,0 +1,83 @@
+import type RAPIER from 'rapier3d';
+import * as THREE from 'three';
+import {describe, expect, it} from 'vitest';
+
+import {Physics} from '../src/physics/Physics';
+import {PhysicsOptions, RAPIERCompat} from '../src/physics/PhysicsOptions';
+
+class FakeWorld {
+  timestep = 0;
+  steps = 0;
+
+  step() {
+    this.steps++;
+  }
+
+  free() {}
+}
+
+/**
+ * A rigid body which moves 1 along x per physics step.
+ */
+class FakeBody {
+  x = 0;
+
+  translation() {
+    return {x: this.x, y: 0, z: 0};
+  }
+
+  rotation() {
+    return {x: 0, y: 0, z: 0, w: 1};
+  }
+}
+
+async function createPhysics(fps: number) {
+  const physicsOptions = new PhysicsOptions();
+  physicsOptions.fps = fps;
+  physicsOptions.RAPIER = {World: FakeWorld} as unknown as RAPIERCompat;
+  const physics = new Physics();
+  await physics.init({physicsOptions});
+  return physics;
+}
+
+describe('Physics', () => {
+  it('accumulates frame time into fixed steps', async () => {
+    const physics = await createPhysics(10);
+    expect(physics.blendedWorld.timestep).toBeCloseTo(0.1);
+    expect(physics.advance(0.05)).toBe(0);
+    expect(physics.alpha).toBeCloseTo(0.5);
+    expect(physics.advance(0.08)).toBe(1);
+    expect(physics.alpha).toBeCloseTo(0.3);
+    expect(physics.advance(0.2)).toBe(2);
+    expect(physics.alpha).toBeCloseTo(0.3);
+  });
+
+  it('caps the steps of a long frame and drops the remaining time', async () => {
+    const physics = await createPhysics(10);
+    expect(physics.advance(1.05)).toBe(5);
+    expect(physics.alpha).toBe(0);
+    expect(physics.advance(0.05)).toBe(0);
+    expect(physics.alpha).toBeCloseTo(0.5);
+  });
+
+  it('steps the world and interpolates objects between steps', async () => {
+    const physics = await createPhysics(10);
+    const body = new FakeBody();
+    const object = new THREE.Object3D();
+    physics.addInterpolatedObject(object, body as unknown as RAPIER.RigidBody);
+
+    const steps = physics.advance(0.125);
+    for (let i = 0; i < steps; i++) {
+      body.x++;
+      physics.physicsStep();
+    }
+    physics.interpolate();
+    expect((physics.blendedWorld as unknown as FakeWorld).steps).toBe(1);
+    expect(object.position.x).toBeCloseTo(0.25);
+
+    physics.removeInterpolatedObject(object);
+    physics.advance(0.05);
+    physics.interpolate();
+    expect(object.position.x).toBeCloseTo(0.25);
+  });
+});
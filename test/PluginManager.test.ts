@@ -0,0 +1,44 @@
+import {beforeAll, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+describe('PluginManager', () => {
+  const phases: string[] = [];
+  const plugin: xb.Plugin<{speed: number}> = {
+    name: 'counter',
+    options: {speed: 1},
+    init: (_core, options) => {
+      phases.push(`init:${options.speed}`);
+    },
+    preInput: () => phases.push('preInput'),
+    postRender: () => phases.push('postRender'),
+  };
+
+  beforeAll(async () => {
+    const options = new xb.Options({headless: true});
+    options.plugins.push(plugin);
+    options.pluginOptions.counter = {speed: 2};
+    await xb.init(options);
+  });
+
+  it('initializes plugins with merged options and calls their phases', async () => {
+    expect(phases).toEqual(['init:2']);
+    await xb.core.step(16);
+    expect(phases).toEqual(['init:2', 'preInput', 'postRender']);
+  });
+
+  it('logs errors of plugins installed after init', async () => {
+    const failingPlugin: xb.Plugin = {
+      name: 'failing',
+      init: vi.fn(async () => {
+        throw new Error('Plugin failed.');
+      }),
+    };
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(xb.core.use(failingPlugin)).toBe(xb.core);
+    await vi.waitFor(() => expect(error).toHaveBeenCalled());
+    expect(failingPlugin.init).toHaveBeenCalledOnce();
+    expect(xb.core.pluginManager.get('failing')).toBe(failingPlugin);
+    error.mockRestore();
+  });
+});
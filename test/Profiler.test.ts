@@ -0,0 +1,100 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+/**
+ * Makes `performance.now()` return the given times in order.
+ */
+function mockTimes(...times: number[]) {
+  const now = vi.spyOn(performance, 'now');
+  for (const time of times) now.mockReturnValueOnce(time);
+}
+
+class SlowScript extends xb.Script {
+  name = 'Slow';
+
+  update() {
+    const start = performance.now();
+    while (performance.now() - start < 2);
+  }
+}
+
+describe('Profiler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('measures nothing unless enabled', () => {
+    const profiler = new xb.Profiler();
+    profiler.beginFrame();
+    profiler.record('work', profiler.now());
+    profiler.endFrame();
+    expect(profiler.getStats()).toEqual([]);
+  });
+
+  it('aggregates sections over a rolling window of frames', () => {
+    const profiler = new xb.Profiler();
+    profiler.enabled = true;
+    profiler.setWindowSize(2);
+    // Each frame: beginFrame, two records of `work` and endFrame.
+    for (const [work1, work2] of [
+      [1, 2],
+      [4, 0],
+      [2, 1],
+    ]) {
+      mockTimes(0, work1, work2, 10);
+      profiler.beginFrame();
+      profiler.record('work', 0);
+      profiler.record('work', 0);
+      profiler.endFrame();
+    }
+
+    expect(profiler.toJSON()).toEqual({
+      frames: 2,
+      sections: [
+        {name: 'frame', average: 10, max: 10, last: 10},
+        {name: 'work', average: 3.5, max: 4, last: 3},
+      ],
+    });
+    expect(profiler.toCSV()).toBe(
+      [
+        'section,average_ms,max_ms,last_ms',
+        'frame,10.000,10.000,10.000',
+        'work,3.500,4.000,3.000',
+      ].join('\n')
+    );
+
+    profiler.reset();
+    expect(profiler.getStats()).toEqual([]);
+  });
+
+  it('escapes section names in CSV', () => {
+    const profiler = new xb.Profiler();
+    profiler.enabled = true;
+    mockTimes(0, 1, 1);
+    profiler.beginFrame();
+    profiler.record('script:"a,b"', 0);
+    profiler.endFrame();
+    expect(profiler.toCSV().split('\n')).toContain(
+      '"script:""a,b""",1.000,1.000,1.000'
+    );
+  });
+
+  it('profiles Core subsystems and script updates', async () => {
+    const options = new xb.Options({headless: true});
+    options.profiler.enabled = true;
+    await xb.init(options);
+    xb.add(new SlowScript());
+    await xb.core.step(16);
+    await xb.core.step(16);
+
+    const stats = xb.core.profiler.getStats();
+    const names = stats.map((section) => section.name);
+    expect(names).toEqual(
+      expect.arrayContaining(['frame', 'input', 'scripts', 'script:Slow'])
+    );
+    const script = stats.find((section) => section.name == 'script:Slow')!;
+    expect(script.last).toBeGreaterThanOrEqual(2);
+    expect(xb.core.profilerHUD).toBeUndefined();
+  });
+});
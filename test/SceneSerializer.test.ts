@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import {beforeAll, describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+class Note extends xb.Script {
+  text = '';
+
+  serialize() {
+    return {text: this.text};
+  }
+
+  deserialize(data: {text: string}) {
+    this.text = data.text;
+  }
+}
+
+xb.SceneSerializer.registerType('Note', Note);
+
+/**
+ * A serializable view which can also be composed in UIs.
+ */
+class NoteView extends xb.View {
+  serialize() {
+    return {};
+  }
+}
+
+xb.SceneSerializer.registerType('NoteView', NoteView);
+xb.UI.registerComponent('NoteView', NoteView);
+
+describe('SceneSerializer', () => {
+  beforeAll(async () => {
+    await xb.init(new xb.Options({headless: true}));
+  });
+
+  it('round-trips scripts with their data and transforms', async () => {
+    const root = new THREE.Group();
+    root.position.set(1, 2, 3);
+    root.rotation.set(0, Math.PI / 2, 0);
+    root.scale.setScalar(2);
+    xb.core.scene.add(root);
+
+    const note = new Note();
+    note.name = 'note';
+    note.text = 'Hello';
+    note.position.set(0, 1, -1);
+    note.rotation.set(Math.PI / 4, 0, 0);
+    root.add(note);
+    note.updateWorldMatrix(true, false);
+    const worldPosition = note.getWorldPosition(new THREE.Vector3());
+
+    const snapshot = JSON.parse(
+      JSON.stringify(xb.core.sceneSerializer.serialize(root))
+    ) as xb.SceneSnapshot;
+    expect(snapshot.version).toBe(xb.SCENE_SNAPSHOT_VERSION);
+    expect(snapshot.scripts).toHaveLength(1);
+
+    const [restored] = await xb.core.sceneSerializer.deserialize(
+      snapshot,
+      root
+    );
+    expect(root.children).toEqual([restored]);
+    expect(restored).toBeInstanceOf(Note);
+    expect(restored.name).toBe('note');
+    expect((restored as Note).text).toBe('Hello');
+    // The restored script has the same local and world transform.
+    expect(restored.position.distanceTo(note.position)).toBeCloseTo(0);
+    expect(restored.quaternion.angleTo(note.quaternion)).toBeCloseTo(0);
+    expect(restored.scale.distanceTo(note.scale)).toBeCloseTo(0);
+    expect(
+      restored.getWorldPosition(new THREE.Vector3()).distanceTo(worldPosition)
+    ).toBeCloseTo(0);
+  });
+
+  it('restores scripts into nested panels and panel transforms', async () => {
+    const root = new THREE.Group();
+    xb.core.scene.add(root);
+    const sibling = new Note();
+    root.add(sibling);
+    const outerPanel = new xb.Panel();
+    outerPanel.position.set(0, 1.5, -2);
+    root.add(outerPanel);
+    const innerPanel = new xb.Panel();
+    innerPanel.position.set(0.2, 0, 0);
+    outerPanel.add(innerPanel);
+    const note = new Note();
+    note.position.set(0, 0.1, 0.01);
+    innerPanel.add(note);
+    const worldPosition = note.getWorldPosition(new THREE.Vector3());
+
+    const snapshot = JSON.parse(
+      JSON.stringify(xb.core.sceneSerializer.serialize(root))
+    ) as xb.SceneSnapshot;
+    expect(snapshot.scripts.map((script) => script.parent)).toEqual([
+      [],
+      [0, outerPanel.children.indexOf(innerPanel)],
+    ]);
+    // The panel was dragged after the snapshot was taken.
+    outerPanel.position.set(3, 0, 0);
+
+    const restored = await xb.core.sceneSerializer.deserialize(snapshot, root);
+    expect(restored.map((script) => script.parent)).toEqual([root, innerPanel]);
+    expect(root.children).toEqual([outerPanel, restored[0]]);
+    expect(outerPanel.position.toArray()).toEqual([0, 1.5, -2]);
+    expect(restored[1].position.distanceTo(note.position)).toBeCloseTo(0);
+    expect(
+      restored[1]
+        .getWorldPosition(new THREE.Vector3())
+        .distanceTo(worldPosition)
+    ).toBeCloseTo(0);
+  });
+
+  it('leaves scripts of composed UIs to their composition', async () => {
+    const view = xb.core.ui.compose({
+      type: 'Panel',
+      children: [{type: 'NoteView'}],
+    })!;
+    expect(view.children.some((child) => child instanceof NoteView)).toBe(true);
+
+    const snapshot = xb.core.sceneSerializer.serialize();
+    expect(snapshot.scripts.some((script) => script.type === 'NoteView')).toBe(
+      false
+    );
+
+    await xb.core.sceneSerializer.deserialize(snapshot);
+    const noteViews: NoteView[] = [];
+    xb.core.scene.traverse((object) => {
+      if (object instanceof NoteView) noteViews.push(object);
+    });
+    expect(noteViews).toHaveLength(1);
+    expect(noteViews[0].parent).not.toBe(view);
+  });
+
+  it('rejects snapshots of newer versions', async () => {
+    await expect(
+      xb.core.sceneSerializer.deserialize({
+        version: xb.SCENE_SNAPSHOT_VERSION + 1,
+        createdAt: 0,
+        scripts: [],
+        singletons: {},
+      })
+    ).rejects.toThrow('Unsupported scene snapshot version');
+  });
+});
@@ -0,0 +1,58 @@
+import {beforeAll, describe, expect, it} from 'vitest';
+
+import {SimulatorUserAction} from '../src/simulator/userActions/SimulatorUserAction';
+import * as xb from '../src/xrblocks';
+
+/**
+ * An action written before tasks, which polls its journey id every frame.
+ */
+class LegacyWaitAction extends SimulatorUserAction {
+  frames = 0;
+
+  async play({
+    simulatorUser,
+    journeyId,
+    waitFrame,
+  }: {
+    simulatorUser: xb.SimulatorUser;
+    journeyId: number;
+    waitFrame: xb.WaitFrame;
+  }) {
+    while (simulatorUser.isOnJourneyId(journeyId)) {
+      await waitFrame.waitFrame();
+      this.frames++;
+    }
+  }
+}
+
+class RecordingAction extends SimulatorUserAction {
+  played = false;
+
+  async play() {
+    this.played = true;
+  }
+}
+
+describe('SimulatorUser', () => {
+  beforeAll(async () => {
+    await xb.init(new xb.Options({headless: true}));
+  });
+
+  it('stops journeys of actions using the deprecated journey id', async () => {
+    const simulatorUser = new xb.SimulatorUser();
+    xb.add(simulatorUser);
+    await xb.core.step(16);
+
+    const legacy = new LegacyWaitAction();
+    const next = new RecordingAction();
+    const journey = simulatorUser.loadJourney([legacy, next]);
+    await xb.core.step(16);
+    await xb.core.step(16);
+    expect(legacy.frames).toBeGreaterThan(0);
+
+    simulatorUser.stopJourney();
+    await xb.core.step(16);
+    await journey;
+    expect(next.played).toBe(false);
+  });
+});
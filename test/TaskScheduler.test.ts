@@ -0,0 +1,162 @@
+import {describe, expect, it} from 'vitest';
+
+import {Clock} from '../src/core/components/Clock';
+import {
+  TaskCancelledError,
+  TaskScheduler,
+} from '../src/core/components/TaskScheduler';
+import {WaitFrame} from '../src/core/components/WaitFrame';
+
+/**
+ * Drives the clock and the waits of a scheduler like the frames of Core.
+ */
+function createScheduler() {
+  const clock = new Clock();
+  clock.update(0);
+  const waitFrame = new WaitFrame();
+  const scheduler = new TaskScheduler(waitFrame, clock);
+  let time = 0;
+  const frame = async (milliseconds = 100) => {
+    time += milliseconds;
+    clock.update(time);
+    waitFrame.onFrame();
+    await new Promise((resolve) => setTimeout(resolve));
+  };
+  return {clock, waitFrame, scheduler, frame};
+}
+
+describe('TaskScheduler', () => {
+  it('waits for frames, seconds and predicates', async () => {
+    const {scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    const log: string[] = [];
+    let ready = false;
+    tasks.run(async () => {
+      await tasks.frames(2);
+      log.push('frames');
+      await tasks.seconds(0.3);
+      log.push('seconds');
+      await tasks.until(() => ready);
+      log.push('until');
+    });
+
+    await frame();
+    expect(log).toEqual([]);
+    await frame();
+    expect(log).toEqual(['frames']);
+    await frame();
+    await frame();
+    expect(log).toEqual(['frames']);
+    await frame();
+    expect(log).toEqual(['frames', 'seconds']);
+    await frame();
+    ready = true;
+    await frame();
+    expect(log).toEqual(['frames', 'seconds', 'until']);
+  });
+
+  it('measures seconds with the clock, so pausing delays waits', async () => {
+    const {clock, scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    let done = false;
+    tasks.run(async () => {
+      await tasks.seconds(0.15);
+      done = true;
+    });
+    clock.pause();
+    for (let i = 0; i < 3; i++) await frame();
+    expect(done).toBe(false);
+    clock.resume();
+    await frame();
+    await frame();
+    expect(done).toBe(true);
+  });
+
+  it('waits for physics steps', async () => {
+    const {waitFrame, scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    let stepped = false;
+    tasks.nextPhysicsStep().then(() => (stepped = true));
+    await frame();
+    expect(stepped).toBe(false);
+    waitFrame.onPhysicsStep();
+    await frame();
+    expect(stepped).toBe(true);
+  });
+
+  it('rejects pending waits of cancelled tasks only', async () => {
+    const {scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    const otherTasks = scheduler.createTasks();
+    const wait = tasks.frames(10);
+    let otherDone = false;
+    otherTasks.nextFrame().then(() => (otherDone = true));
+
+    tasks.cancel('Script disabled.');
+    await expect(wait).rejects.toThrow(TaskCancelledError);
+    await expect(wait).rejects.toThrow('Script disabled.');
+    await frame();
+    expect(otherDone).toBe(true);
+
+    let resumed = false;
+    tasks.nextFrame().then(() => (resumed = true));
+    await frame();
+    expect(resumed).toBe(true);
+  });
+
+  it('ends cancelled coroutines silently', async () => {
+    const {scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    let after = false;
+    const run = tasks.run(async () => {
+      await tasks.until(() => false);
+      after = true;
+    });
+    await frame();
+    tasks.cancel();
+    await expect(run).resolves.toBeUndefined();
+    expect(after).toBe(false);
+  });
+
+  it('does not resume a cancelled run after awaiting another promise', async () => {
+    const {scheduler, frame} = createScheduler();
+    const tasks = scheduler.createTasks();
+    let resolveFetch!: () => void;
+    const fetched = new Promise<void>((resolve) => (resolveFetch = resolve));
+    let resumed = false;
+    const run = tasks.run(async (runTasks) => {
+      await fetched;
+      await runTasks.nextFrame();
+      resumed = true;
+    });
+
+    tasks.cancel('Script disabled.');
+    resolveFetch();
+    await frame();
+    await expect(run).resolves.toBeUndefined();
+    expect(resumed).toBe(false);
+
+    // Runs started after the cancellation are not affected.
+    let ran = false;
+    tasks.run(async (runTasks) => {
+      await runTasks.nextFrame();
+      ran = true;
+    });
+    await frame();
+    expect(ran).toBe(true);
+  });
+
+  it('rejects waits for other promises when their run is cancelled', async () => {
+    const {scheduler} = createScheduler();
+    const tasks = scheduler.createTasks();
+    let resumed = false;
+    const run = tasks.run(async (runTasks) => {
+      await runTasks.wait(new Promise(() => {}));
+      resumed = true;
+    });
+
+    tasks.cancel();
+    await expect(run).resolves.toBeUndefined();
+    expect(resumed).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import {beforeAll, describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+class ThrowingTarget extends xb.Script {
+  onObjectSelectStart(): boolean {
+    throw new Error('Target failed.');
+  }
+}
+
+class HandlingParent extends xb.Script {
+  selections = 0;
+
+  onObjectSelectStart() {
+    this.selections++;
+    return true;
+  }
+}
+
+describe('User', () => {
+  beforeAll(async () => {
+    await xb.init(new xb.Options({headless: true}));
+  });
+
+  it('reports errors of targets as theirs and disables only the target', async () => {
+    const parent = new HandlingParent();
+    const target = new ThrowingTarget();
+    parent.add(target);
+    xb.add(parent);
+    await xb.core.step(16);
+
+    const errors: xb.ScriptErrorEvent[] = [];
+    xb.core.eventBus.on('script:error', (event) => errors.push(event));
+    const maxFailures = xb.core.options!.scriptErrors.maxFailures;
+    const event = {target: xb.core.input.controllers[0]};
+    for (let i = 0; i < maxFailures; i++) {
+      xb.core.user.callObjectSelectStart(event, target);
+    }
+
+    expect(errors).toHaveLength(maxFailures);
+    expect(errors.every((error) => error.script === target)).toBe(true);
+    expect(errors.at(-1)!.disabled).toBe(true);
+    expect(target.enabled).toBe(false);
+    expect(xb.core.user.enabled).toBe(true);
+    // The event still propagates to the parent of the failing target.
+    expect(parent.selections).toBe(maxFailures);
+  });
+});
@@ -0,0 +1,38 @@
+import {describe, expect, it} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+class CountingScript extends xb.Script {
+  inited = 0;
+  updates: number[] = [];
+
+  init() {
+    this.inited++;
+  }
+
+  update() {
+    this.updates.push(xb.core.timer.getDelta());
+  }
+}
+
+describe('headless mode', () => {
+  it('initializes without a DOM and steps frames', async () => {
+    expect(typeof window).toBe('undefined');
+
+    const options = new xb.Options({headless: true});
+    await xb.init(options);
+    expect(xb.core.renderer).toBeUndefined();
+
+    const script = new CountingScript();
+    xb.add(script);
+    for (let i = 0; i < 3; i++) {
+      await xb.core.step(/*dtMs=*/ 20);
+    }
+
+    expect(script.inited).toBe(1);
+    expect(script.updates).toHaveLength(3);
+    for (const delta of script.updates) {
+      expect(delta).toBeCloseTo(0.02);
+    }
+  });
+});
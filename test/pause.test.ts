@@ -0,0 +1,70 @@
+import {afterEach, beforeAll, describe, expect, it, vi} from 'vitest';
+
+import * as xb from '../src/xrblocks';
+
+class PausingScript extends xb.Script {
+  log: string[] = [];
+  physicsSteps = 0;
+
+  physicsStep() {
+    this.physicsSteps++;
+  }
+
+  onPause() {
+    this.log.push('pause');
+  }
+
+  onResume() {
+    this.log.push('resume');
+  }
+}
+
+/**
+ * Sets the visibility of the tab and lets Core react to it like to a
+ * `visibilitychange` event.
+ */
+function setTabVisibility(visibilityState: DocumentVisibilityState) {
+  vi.stubGlobal('document', {visibilityState});
+  xb.core['updatePaused']();
+}
+
+describe('pause and resume', () => {
+  beforeAll(async () => {
+    const options = new xb.Options({headless: true});
+    options.physics.fps = 50;
+    options.physics.RAPIER = {
+      World: class {
+        step() {}
+      },
+    } as unknown as xb.RAPIERCompat;
+    await xb.init(options);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('notifies enabled scripts and stops physics while the tab is hidden', async () => {
+    const script = new PausingScript();
+    const disabledScript = new PausingScript();
+    disabledScript.enabled = false;
+    xb.add(script, disabledScript);
+    await xb.core.step(20);
+    const physicsSteps = script.physicsSteps;
+    expect(physicsSteps).toBeGreaterThan(0);
+
+    setTabVisibility('hidden');
+    setTabVisibility('hidden');
+    expect(xb.core.paused).toBe(true);
+    await xb.core.step(100);
+    expect(script.physicsSteps).toBe(physicsSteps);
+
+    setTabVisibility('visible');
+    expect(xb.core.paused).toBe(false);
+    await xb.core.step(20);
+    await xb.core.step(20);
+    expect(script.physicsSteps).toBeGreaterThan(physicsSteps);
+    expect(script.log).toEqual(['pause', 'resume']);
+    expect(disabledScript.log).toEqual([]);
+  });
+});
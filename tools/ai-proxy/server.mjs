@@ -0,0 +1,337 @@
+// @ts-check
+
+/**
+ * A reference proxy for the AI block of XR Blocks. It keeps the API keys on
+ * the server, issues short-lived session tokens to the browser and forwards
+ * requests, including Gemini Live websockets, to the model providers.
+ *
+ * Usage:
+ *   GEMINI_API_KEY=... node tools/ai-proxy/server.mjs
+ *
+ * Environment variables:
+ *   PORT               The port to listen on. Defaults to 8787.
+ *   GEMINI_API_KEY     The API key of Gemini.
+ *   OPENAI_API_KEY     The API key of OpenAI.
+ *   LOCAL_LLM_URL      The URL of a local model server, e.g.
+ *                      http://localhost:11434.
+ *   LOCAL_LLM_API_KEY  An optional key of the local model server.
+ *   ALLOWED_ORIGINS    Comma separated origins which may use the proxy,
+ *                      e.g. https://app.example.com. Defaults to the origins
+ *                      of localhost on any port.
+ *   PROXY_SECRET       The secret which signs session tokens. Defaults to a
+ *                      random secret, which invalidates tokens on restart.
+ *   TOKEN_TTL          The lifetime of session tokens in seconds. Defaults
+ *                      to 600.
+ */
+
+import {createHmac, randomBytes, timingSafeEqual} from 'node:crypto';
+import {once} from 'node:events';
+import {createServer} from 'node:http';
+import {connect} from 'node:tls';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN_TTL = Number(process.env.TOKEN_TTL ?? 600) * 1000;
+const SECRET = process.env.PROXY_SECRET ?? randomBytes(32).toString('hex');
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+/** @type {Record<string, {url?: string, apiKey?: string}>} */
+const UPSTREAMS = {
+  gemini: {
+    url: 'https://generativelanguage.googleapis.com',
+    apiKey: process.env.GEMINI_API_KEY,
+  },
+  openai: {url: 'https://api.openai.com', apiKey: process.env.OPENAI_API_KEY},
+  local: {
+    url: process.env.LOCAL_LLM_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+  },
+};
+
+// Headers which are not forwarded to the providers.
+const REQUEST_HEADERS_TO_DROP = new Set([
+  'authorization',
+  'connection',
+  'content-length',
+  'cookie',
+  'host',
+  'origin',
+  'referer',
+  'x-goog-api-key',
+]);
+
+// Headers which are not forwarded to the browser. fetch() decodes the body.
+const RESPONSE_HEADERS_TO_DROP = new Set([
+  'connection',
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+]);
+
+function sign(value) {
+  return createHmac('sha256', SECRET).update(value).digest('base64url');
+}
+
+/**
+ * @returns {{token: string, expiresAt: number}} A new session token.
+ */
+function createSession() {
+  const expiresAt = Date.now() + TOKEN_TTL;
+  return {token: `${expiresAt}.${sign(String(expiresAt))}`, expiresAt};
+}
+
+/**
+ * @param {string | null | undefined} token
+ * @returns {boolean} Whether the token was issued by this proxy and is valid.
+ */
+function verifyToken(token) {
+  const [expiresAt, signature] = (token ?? '').split('.');
+  if (!signature || Number(expiresAt) < Date.now()) return false;
+  const expected = Buffer.from(sign(expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length == actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * @param {string | undefined} origin
+ * @returns {boolean} Whether the origin is listed in ALLOWED_ORIGINS or,
+ * without ALLOWED_ORIGINS, is localhost. Credentials are sent to allowed
+ * origins, so there is no wildcard.
+ */
+function isAllowedOrigin(origin) {
+  if (origin == null) return false;
+  if (ALLOWED_ORIGINS.length) return ALLOWED_ORIGINS.includes(origin);
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decides whether a request may receive a session token. Replace this with
+ * the authentication of your app, e.g. verify its session cookie or an ID
+ * token. By default, only requests from this machine are authenticated,
+ * which is enough for local development.
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<boolean>}
+ */
+async function authenticate(req) {
+  return LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? '');
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Record<string, string>} The CORS headers of a response to an
+ * allowed origin.
+ */
+function corsHeaders(req) {
+  const origin = req.headers.origin;
+  if (!isAllowedOrigin(origin)) return {};
+  return {
+    'access-control-allow-origin': origin,
+    'access-control-allow-credentials': 'true',
+    'access-control-allow-methods': 'GET, POST, OPTIONS',
+    'access-control-allow-headers':
+      req.headers['access-control-request-headers'] ?? '*',
+    'access-control-max-age': '600',
+    vary: 'Origin',
+  };
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @param {URL} url
+ * @returns {string | undefined} The session token sent by a model: Gemini
+ * sends it as its API key and other models as a bearer token.
+ */
+function getToken(req, url) {
+  const googleKey = req.headers['x-goog-api-key'];
+  if (typeof googleKey === 'string') return googleKey;
+  const authorization = req.headers.authorization ?? '';
+  if (authorization.startsWith('Bearer ')) return authorization.slice(7);
+  return url.searchParams.get('key') ?? undefined;
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<Buffer>}
+ */
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Streams the body of a provider's response to the browser.
+ * @param {ReadableStream<Uint8Array>} body
+ * @param {import('node:http').ServerResponse} res
+ */
+async function pipeBody(body, res) {
+  const reader = body.getReader();
+  res.on('close', () => reader.cancel().catch(() => {}));
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done || res.destroyed) break;
+    if (!res.write(value)) await once(res, 'drain');
+  }
+  res.end();
+}
+
+/**
+ * Forwards a request to a provider with its API key.
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:http').ServerResponse} res
+ * @param {string} model
+ * @param {URL} url
+ */
+async function forward(req, res, model, url) {
+  const upstream = UPSTREAMS[model];
+  const path = url.pathname.slice(model.length + 1);
+  url.searchParams.delete('key');
+  const target = upstream.url.replace(/\/$/, '') + path + url.search;
+
+  /** @type {Record<string, string>} */
+  const headers = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string' && !REQUEST_HEADERS_TO_DROP.has(name)) {
+      headers[name] = value;
+    }
+  }
+  if (model == 'gemini') {
+    headers['x-goog-api-key'] = upstream.apiKey ?? '';
+  } else if (upstream.apiKey) {
+    headers.authorization = `Bearer ${upstream.apiKey}`;
+  }
+
+  const hasBody = req.method != 'GET' && req.method != 'HEAD';
+  const response = await fetch(target, {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+  });
+  /** @type {Record<string, string>} */
+  const responseHeaders = {};
+  response.headers.forEach((value, name) => {
+    if (
+      !RESPONSE_HEADERS_TO_DROP.has(name) &&
+      !name.startsWith('access-control-')
+    ) {
+      responseHeaders[name] = value;
+    }
+  });
+  res.writeHead(response.status, {...responseHeaders, ...corsHeaders(req)});
+  if (response.body) {
+    await pipeBody(response.body, res);
+  } else {
+    res.end();
+  }
+}
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ * @param {Record<string, string>} headers
+ */
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, {'content-type': 'application/json', ...headers});
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const cors = corsHeaders(req);
+  if (!isAllowedOrigin(req.headers.origin)) {
+    sendJson(res, 403, {error: 'Origin not allowed.'});
+    return;
+  }
+  if (req.method == 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+  if (url.pathname == '/session' && req.method == 'POST') {
+    if (!(await authenticate(req))) {
+      sendJson(res, 401, {error: 'Not authenticated.'}, cors);
+      return;
+    }
+    sendJson(res, 200, createSession(), cors);
+    return;
+  }
+
+  const model = url.pathname.split('/')[1];
+  const upstream = UPSTREAMS[model];
+  if (!upstream?.url || (model != 'local' && !upstream.apiKey)) {
+    sendJson(res, 404, {error: `Model '${model}' is not configured.`}, cors);
+    return;
+  }
+  if (!verifyToken(getToken(req, url))) {
+    sendJson(res, 401, {error: 'Invalid or expired session token.'}, cors);
+    return;
+  }
+  try {
+    await forward(req, res, model, url);
+  } catch (error) {
+    console.error(`Request to ${model} failed:`, error);
+    if (!res.headersSent) {
+      sendJson(res, 502, {error: 'Request to the provider failed.'}, cors);
+    } else {
+      res.destroy();
+    }
+  }
+});
+
+// Gemini Live sessions connect with a websocket, which is forwarded as a
+// raw TLS stream after replacing the session token with the API key.
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const upstream = UPSTREAMS.gemini;
+  if (
+    !url.pathname.startsWith('/gemini/') ||
+    !upstream.apiKey ||
+    !isAllowedOrigin(req.headers.origin) ||
+    !verifyToken(url.searchParams.get('key'))
+  ) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  url.searchParams.set('key', upstream.apiKey);
+  const host = new URL(upstream.url ?? '').hostname;
+  const upstreamSocket = connect({host, port: 443, servername: host}, () => {
+    const lines = [
+      `GET ${url.pathname.slice('/gemini'.length)}${url.search} HTTP/1.1`,
+      `Host: ${host}`,
+    ];
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      const name = req.rawHeaders[i];
+      if (!REQUEST_HEADERS_TO_DROP.has(name.toLowerCase())) {
+        lines.push(`${name}: ${req.rawHeaders[i + 1]}`);
+      }
+    }
+    lines.push('Connection: Upgrade');
+    upstreamSocket.write(lines.join('\r\n') + '\r\n\r\n');
+    if (head.length) upstreamSocket.write(head);
+    upstreamSocket.pipe(socket);
+    socket.pipe(upstreamSocket);
+  });
+  upstreamSocket.on('error', (error) => {
+    console.error('Live session connection failed:', error);
+    socket.destroy();
+  });
+  socket.on('error', () => upstreamSocket.destroy());
+});
+
+server.listen(PORT, () => {
+  const models = Object.keys(UPSTREAMS).filter(
+    (model) =>
+      UPSTREAMS[model].url && (model == 'local' || UPSTREAMS[model].apiKey)
+  );
+  console.log(`AI proxy listening on http://localhost:${PORT}`);
+  console.log(`Configured models: ${models.join(', ') || 'none'}`);
+});